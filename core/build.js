@@ -50,6 +50,13 @@ function build({
     logLevel: 'info',
   };
 
+  // The optional peer dependencies, e.g. better-sqlite3, are loaded with a
+  // dynamic import when they are first used, which Node.js supports in both
+  // the ESM and CommonJS formats.
+  if (platform === 'node') {
+    buildOptions.supported = {'dynamic-import': true};
+  }
+
   // Prepend license header to the top of the file
   if (format === 'cjs' || bundle) {
     buildOptions.banner = {js: licenseHeaderText};
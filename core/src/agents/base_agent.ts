@@ -8,6 +8,7 @@ import {Content} from '@google/genai';
 import {trace} from '@opentelemetry/api';
 
 import {createEvent, Event} from '../events/event.js';
+import {StateSchema} from '../sessions/state_schema.js';
 
 import {CallbackContext} from './callback_context.js';
 import {InvocationContext} from './invocation_context.js';
@@ -29,6 +30,7 @@ export interface BaseAgentConfig {
   subAgents?: BaseAgent[];
   beforeAgentCallback?: BeforeAgentCallback;
   afterAgentCallback?: AfterAgentCallback;
+  stateSchema?: StateSchema;
 }
 
 /**
@@ -101,6 +103,16 @@ export abstract class BaseAgent {
    */
   readonly afterAgentCallback: SingleAgentCallback[];
 
+  /**
+   * The schema of the session state.
+   *
+   * Only the schema of the root agent is used, and applies to the whole agent
+   * tree. The values written to the state by the tools and callbacks, and the
+   * state deltas of the events appended by the runner, are validated against
+   * it.
+   */
+  readonly stateSchema?: StateSchema;
+
   constructor(config: BaseAgentConfig) {
     this.name = validateAgentName(config.name);
     this.description = config.description;
@@ -110,6 +122,7 @@ export abstract class BaseAgent {
     this.beforeAgentCallback =
         getCannonicalCallback(config.beforeAgentCallback);
     this.afterAgentCallback = getCannonicalCallback(config.afterAgentCallback);
+    this.stateSchema = config.stateSchema;
 
     this.setParentAgentForSubAgents();
   }
@@ -170,8 +183,31 @@ export abstract class BaseAgent {
     const span = trace.getTracer('gcp.vertex.agent')
                      .startSpan(`agent_run [${this.name}]`);
     try {
-      // TODO(b/425992518): Implement live mode.
-      throw new Error('Live mode is not implemented yet.');
+      const context = this.createInvocationContext(parentContext);
+
+      const beforeAgentCallbackEvent =
+          await this.handleBeforeAgentCallback(context);
+      if (beforeAgentCallbackEvent) {
+        yield beforeAgentCallbackEvent;
+      }
+
+      if (context.endInvocation) {
+        return;
+      }
+
+      for await (const event of this.runLiveImpl(context)) {
+        yield event;
+      }
+
+      if (context.endInvocation) {
+        return;
+      }
+
+      const afterAgentCallbackEvent =
+          await this.handleAfterAgentCallback(context);
+      if (afterAgentCallbackEvent) {
+        yield afterAgentCallbackEvent;
+      }
     } finally {
       span.end();
     }
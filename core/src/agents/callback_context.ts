@@ -8,6 +8,7 @@ import {Part} from '@google/genai';
 
 import {createEventActions, EventActions} from '../events/event_actions.js';
 import {State} from '../sessions/state.js';
+import {validateStateDelta} from '../sessions/state_schema.js';
 
 import {InvocationContext} from './invocation_context.js';
 import {ReadonlyContext} from './readonly_context.js';
@@ -20,15 +21,33 @@ export class CallbackContext extends ReadonlyContext {
 
   readonly eventActions: EventActions;
 
-  constructor({invocationContext, eventActions}: {
+  /**
+   * @param params.invocationContext The invocation context of the callback.
+   * @param params.eventActions The event actions of the callback.
+   * @param params.stateSource The tool or callback writing to the state, to
+   *     report in the state validation errors.
+   */
+  constructor({invocationContext, eventActions, stateSource}: {
     invocationContext: InvocationContext,
     eventActions?: EventActions,
+    stateSource?: string,
   }) {
     super(invocationContext);
     this.eventActions = eventActions || createEventActions();
+
+    let rootAgent = invocationContext.agent;
+    while (rootAgent.parentAgent) {
+      rootAgent = rootAgent.parentAgent;
+    }
+    const stateSchema = rootAgent.stateSchema;
     this._state = new State(
         invocationContext.session.state,
         this.eventActions.stateDelta,
+        stateSchema &&
+            (delta => validateStateDelta(
+                 stateSchema, delta,
+                 stateSource ??
+                     `a callback of agent "${invocationContext.agent.name}"`)),
     );
   }
 
@@ -23,7 +23,7 @@ export function getContents(
     events: Event[], agentName: string, currentBranch?: string): Content[] {
   const filteredEvents: Event[] = [];
 
-  for (const event of events) {
+  for (const event of substituteCompactedEvents(events)) {
     // Skip events without content, or generated neither by user nor by model.
     // E.g. events purely for mutating session states.
     if (!event.content?.role || event.content.parts?.[0]?.text === '') {
@@ -96,6 +96,47 @@ export function getCurrentTurnContents(
   return [];
 }
 
+/**
+ * Replaces the compacted events with the summaries of their compactions.
+ *
+ * The events are scanned from the latest, and the events preceding a
+ * compaction are dropped unless they are older than its start. A compaction
+ * preceding another one is kept only if it starts earlier, e.g. when the
+ * compactions overlap.
+ *
+ * @param events: A list of all session events.
+ *
+ * @returns The events, with the compactions in place of the compacted events.
+ */
+function substituteCompactedEvents(events: Event[]): Event[] {
+  const resultEvents: Event[] = [];
+  let compactedStartTimestamp = Infinity;
+
+  for (let i = events.length - 1; i >= 0; i--) {
+    const event = events[i];
+    const compaction = event.actions?.compaction;
+    if (!compaction) {
+      if (event.timestamp < compactedStartTimestamp) {
+        resultEvents.push(event);
+      }
+      continue;
+    }
+
+    if (compaction.startTimestamp < compactedStartTimestamp) {
+      resultEvents.push(createEvent({
+        invocationId: event.invocationId,
+        author: 'model',
+        content: compaction.compactedContent,
+        branch: event.branch,
+        timestamp: compaction.endTimestamp,
+      }));
+      compactedStartTimestamp = compaction.startTimestamp;
+    }
+  }
+
+  return resultEvents.reverse();
+}
+
 /**
  * Whether the event is an auth event.
  *
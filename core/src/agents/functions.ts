@@ -104,7 +104,9 @@ export function generateAuthEvent(
     invocationContext: InvocationContext,
     functionResponseEvent: Event,
     ): Event|undefined {
-  if (!functionResponseEvent.actions?.requestedAuthConfigs) {
+  if (!functionResponseEvent.actions?.requestedAuthConfigs ||
+      !Object.keys(functionResponseEvent.actions.requestedAuthConfigs)
+           .length) {
     return undefined;
   }
   const parts: Part[] = [];
@@ -174,6 +176,10 @@ export function generateRequestConfirmationEvent({
     longRunningToolIds.add(requestConfirmationFunctionCall.id!);
     parts.push({functionCall: requestConfirmationFunctionCall});
   }
+  if (!parts.length) {
+    return undefined;
+  }
+
   return createEvent({
     invocationId: invocationContext.invocationId,
     author: invocationContext.agent.name,
@@ -460,6 +466,7 @@ function getToolAndContext(
     invocationContext: invocationContext,
     functionCallId: functionCall.id || undefined,
     toolConfirmation,
+    toolName: functionCall.name,
   });
 
   const tool = toolsDict[functionCall.name];
@@ -501,5 +508,3 @@ export function mergeParallelFunctionResponseEvents(
     timestamp: baseEvent.timestamp!,
   });
 }
-
-// TODO - b/425992518: support function call in live connection.
@@ -4,12 +4,43 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import {Part} from '@google/genai';
+
+import {getArtifactSize, getArtifactText, isJsonMimeType} from '../artifacts/artifact_util.js';
 import {State} from '../sessions/state.js';
+
 import {ReadonlyContext} from './readonly_context.js';
 
+/**
+ * The default maximum number of characters of an artifact injected in an
+ * instruction.
+ */
+const DEFAULT_MAX_ARTIFACT_LENGTH = 10000;
+
+/**
+ * The options for `injectSessionState`.
+ */
+export interface InjectSessionStateOptions {
+  /**
+   * The maximum number of characters of an artifact injected in the
+   * instruction. The longer artifacts are truncated. Defaults to 10000.
+   */
+  maxArtifactLength?: number;
+  /**
+   * Whether to throw an error when a binary artifact, e.g. an image, is
+   * injected in the instruction, rather than describing it. Defaults to false.
+   */
+  rejectBinaryArtifacts?: boolean;
+}
+
 /**
  * Populates values in the instruction template, e.g. state, artifact, etc.
  *
+ * An artifact is injected with `{artifact.file_name}`, or with
+ * `{artifact.file_name@2}` to inject a given version of the artifact. The text
+ * artifacts are inlined, the JSON artifacts are pretty-printed and the binary
+ * artifacts are described by their mime type and size.
+ *
  * ```
  * async function buildInstruction(
  *     readonlyContext: ReadonlyContext,
@@ -30,11 +61,13 @@ import {ReadonlyContext} from './readonly_context.js';
  *
  * @param template The instruction template.
  * @param readonlyContext The read-only context
+ * @param options The options for injecting the artifacts.
  * @returns The instruction template with values populated.
  */
 export async function injectSessionState(
     template: string,
     readonlyContext: ReadonlyContext,
+    options: InjectSessionStateOptions = {},
     ): Promise<string> {
   const invocationContext = readonlyContext.invocationContext;
 
@@ -56,7 +89,9 @@ export async function injectSessionState(
 
     // Step 2: handle artifact injection
     if (key.startsWith('artifact.')) {
-      const fileName = key.substring('artifact.'.length);
+      const artifactName = key.substring('artifact.'.length);
+      const versionMatch = artifactName.match(/^(.+)@(\d+)$/);
+      const fileName = versionMatch ? versionMatch[1] : artifactName;
       if (invocationContext.artifactService === undefined) {
         throw new Error('Artifact service is not initialized.');
       }
@@ -65,11 +100,15 @@ export async function injectSessionState(
         userId: invocationContext.session.userId,
         sessionId: invocationContext.session.id,
         filename: fileName,
+        version: versionMatch ? parseInt(versionMatch[2], 10) : undefined,
       });
       if (!artifact) {
-        throw new Error(`Artifact ${fileName} not found.`);
+        if (isOptional) {
+          return '';
+        }
+        throw new Error(`Artifact ${artifactName} not found.`);
       }
-      return String(artifact);
+      return renderArtifact(artifactName, artifact, options);
     }
 
     // Step 3: Handle state variable injection.
@@ -103,6 +142,50 @@ export async function injectSessionState(
   return result.join('');
 }
 
+/**
+ * Renders an artifact injected in an instruction, depending on its content.
+ *
+ * @param artifactName The name of the artifact, with its version if pinned.
+ * @param artifact The artifact to render.
+ * @param options The options for injecting the artifacts.
+ * @returns The text of the artifact, or the description of a binary artifact.
+ */
+function renderArtifact(
+    artifactName: string,
+    artifact: Part,
+    {
+      maxArtifactLength = DEFAULT_MAX_ARTIFACT_LENGTH,
+      rejectBinaryArtifacts = false,
+    }: InjectSessionStateOptions,
+    ): string {
+  let text = getArtifactText(artifact);
+  if (text === undefined) {
+    const mimeType = artifact.inlineData?.mimeType ??
+        artifact.fileData?.mimeType ?? 'unknown';
+    if (rejectBinaryArtifacts) {
+      throw new Error(`Artifact ${artifactName} of type ${
+          mimeType} can not be injected in the instruction.`);
+    }
+    const location = artifact.fileData?.fileUri ?
+        `stored at ${artifact.fileData.fileUri}` :
+        `${getArtifactSize(artifact)} bytes`;
+    return `[Binary artifact ${artifactName}: ${mimeType}, ${location}]`;
+  }
+
+  if (artifact.inlineData && isJsonMimeType(artifact.inlineData.mimeType!)) {
+    try {
+      text = JSON.stringify(JSON.parse(text), null, 2);
+    } catch {
+      // Injects the malformed JSON as is.
+    }
+  }
+
+  if (text.length > maxArtifactLength) {
+    text = text.slice(0, maxArtifactLength) +
+        `\n[... truncated ${text.length - maxArtifactLength} characters]`;
+  }
+  return text;
+}
 
 /**
  * An IIFE that checks if the JavaScript runtime supports Unicode property
@@ -8,6 +8,7 @@ import {Content} from '@google/genai';
 
 import {BaseArtifactService} from '../artifacts/base_artifact_service.js';
 import {BaseCredentialService} from '../auth/credential_service/base_credential_service.js';
+import {BaseCodeExecutor} from '../code_executors/base_code_executor.js';
 import {BaseMemoryService} from '../memory/base_memory_service.js';
 import {PluginManager} from '../plugins/plugin_manager.js';
 import {BaseSessionService} from '../sessions/base_session_service.js';
@@ -25,6 +26,7 @@ interface InvocationContextParams {
   sessionService?: BaseSessionService;
   memoryService?: BaseMemoryService;
   credentialService?: BaseCredentialService;
+  codeExecutor?: BaseCodeExecutor;
   invocationId: string;
   branch?: string;
   agent: BaseAgent;
@@ -110,6 +112,11 @@ export class InvocationContext {
   readonly memoryService?: BaseMemoryService;
   readonly credentialService?: BaseCredentialService;
 
+  /**
+   * The default code executor of the LLM agents that don't set one.
+   */
+  readonly codeExecutor?: BaseCodeExecutor;
+
   /**
    * The id of this invocation context.
    */
@@ -185,6 +192,7 @@ export class InvocationContext {
     this.artifactService = params.artifactService;
     this.sessionService = params.sessionService;
     this.memoryService = params.memoryService;
+    this.codeExecutor = params.codeExecutor;
     this.invocationId = params.invocationId;
     this.branch = params.branch;
     this.agent = params.agent;
@@ -33,7 +33,15 @@ export class LiveRequestQueue {
   private readonly queue: LiveRequest[] = [];
   // Keeps track of the promises that are waiting for data.
   private readonly resolveFnFifoQueue: PromiseResolveFn[] = [];
-  private isClosed = false;
+  private closed = false;
+
+  /**
+   * Whether the queue is closed. The requests sent before the queue was closed
+   * can still be retrieved.
+   */
+  get isClosed(): boolean {
+    return this.closed;
+  }
 
   /**
    * Adds a request to the queue. If there is a pending `get()` call, it
@@ -41,7 +49,7 @@ export class LiveRequestQueue {
    * @param req The request to send.
    */
   send(req: LiveRequest) {
-    if (this.isClosed) {
+    if (this.closed) {
       throw new Error('Cannot send to a closed queue.');
     }
     if (this.resolveFnFifoQueue.length > 0) {
@@ -55,17 +63,33 @@ export class LiveRequestQueue {
   /**
    * Retrieves a request from the queue. If the queue is empty, it will
    * wait until a request is available.
+   * @param signal An optional signal to stop waiting. When aborted, the pending
+   *     get is removed from the queue so it does not consume later requests,
+   *     and the returned promise is rejected with the abort reason.
    * @returns A promise that resolves with the next available request.
    */
-  async get(): Promise<LiveRequest> {
+  async get(signal?: AbortSignal): Promise<LiveRequest> {
+    signal?.throwIfAborted();
     if (this.queue.length > 0) {
       return this.queue.shift()!;
     }
-    if (this.isClosed) {
+    if (this.closed) {
       return {close: true};
     }
-    return new Promise<LiveRequest>((resolve) => {
-      this.resolveFnFifoQueue.push(resolve);
+    return new Promise<LiveRequest>((resolve, reject) => {
+      const onAbort = () => {
+        const index = this.resolveFnFifoQueue.indexOf(resolveFn);
+        if (index >= 0) {
+          this.resolveFnFifoQueue.splice(index, 1);
+        }
+        reject(signal!.reason);
+      };
+      const resolveFn: PromiseResolveFn = (req) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(req);
+      };
+      signal?.addEventListener('abort', onAbort, {once: true});
+      this.resolveFnFifoQueue.push(resolveFn);
     });
   }
 
@@ -73,10 +97,10 @@ export class LiveRequestQueue {
    * Sends a close signal to the queue.
    */
   close() {
-    if (this.isClosed) {
+    if (this.closed) {
       return;
     }
-    this.isClosed = true;
+    this.closed = true;
 
     // Satisfy pending gets with existing queue items
     while (this.resolveFnFifoQueue.length > 0 && this.queue.length > 0) {
@@ -4,21 +4,25 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import {Content, FunctionCall, GenerateContentConfig, Part, Schema} from '@google/genai';
+import {Content, FunctionCall, GenerateContentConfig, Modality, Part, Schema} from '@google/genai';
 import {z} from 'zod';
 
 import {BaseCodeExecutor} from '../code_executors/base_code_executor.js';
 import {BuiltInCodeExecutor} from '../code_executors/built_in_code_executor.js';
-import {buildCodeExecutionResultPart, buildExecutableCodePart, CodeExecutionResult, convertCodeExecutionParts, extractCodeAndTruncateContent, File} from '../code_executors/code_execution_utils.js';
+import {buildCodeExecutionResultPart, buildExecutableCodePart, CodeExecutionResult, convertCodeExecutionParts, extractCodeAndTruncateContent, File, getEncodedFileContent} from '../code_executors/code_execution_utils.js';
 import {CodeExecutorContext} from '../code_executors/code_executor_context.js';
 import {createEvent, createNewEventId, Event, getFunctionCalls, getFunctionResponses, isFinalResponse} from '../events/event.js';
 import {createEventActions, EventActions} from '../events/event_actions.js';
 import {BaseExampleProvider} from '../examples/base_example_provider.js';
 import {Example} from '../examples/example.js';
+import {buildExampleSi} from '../examples/example_util.js';
 import {BaseLlm, isBaseLlm} from '../models/base_llm.js';
+import {BaseLlmConnection} from '../models/base_llm_connection.js';
 import {appendInstructions, LlmRequest, setOutputSchema} from '../models/llm_request.js';
 import {LlmResponse} from '../models/llm_response.js';
 import {LLMRegistry} from '../models/registry.js';
+import {BasePlanner} from '../planners/base_planner.js';
+import {BuiltInPlanner} from '../planners/built_in_planner.js';
 import {State} from '../sessions/state.js';
 import {BaseTool} from '../tools/base_tool.js';
 import {BaseToolset} from '../tools/base_toolset.js';
@@ -26,18 +30,20 @@ import {FunctionTool} from '../tools/function_tool.js';
 import {ToolConfirmation} from '../tools/tool_confirmation.js';
 import {ToolContext} from '../tools/tool_context.js';
 import {deepClone} from '../utils/deep_clone.js';
-import {base64Decode} from '../utils/env_aware_utils.js';
 import {logger} from '../utils/logger.js';
+import {isGemini2Model} from '../utils/model_name.js';
 
 import {BaseAgent, BaseAgentConfig} from './base_agent.js';
 import {BaseLlmRequestProcessor, BaseLlmResponseProcessor} from './base_llm_processor.js';
 import {CallbackContext} from './callback_context.js';
 import {getContents, getCurrentTurnContents} from './content_processor_utils.js';
 import {generateAuthEvent, generateRequestConfirmationEvent, getLongRunningFunctionCalls, handleFunctionCallList, handleFunctionCallsAsync, populateClientFunctionCallId, REQUEST_CONFIRMATION_FUNCTION_CALL_NAME} from './functions.js';
-import {injectSessionState} from './instructions.js';
+import {injectSessionState, InjectSessionStateOptions} from './instructions.js';
 import {InvocationContext} from './invocation_context.js';
+import {LiveRequest} from './live_request_queue.js';
 import {ReadonlyContext} from './readonly_context.js';
 import {StreamingMode} from './run_config.js';
+import {isTaskCompletedEvent} from './task_completion.js';
 
 /** An object that can provide an instruction string. */
 export type InstructionProvider = (
@@ -144,6 +150,15 @@ export type ToolUnion = BaseTool|BaseToolset;
 
 const ADK_AGENT_NAME_LABEL_KEY = 'adk_agent_name';
 
+/**
+ * The function calls executed during a call to the LLM with compositional
+ * function calling (CFC), and their response event.
+ */
+interface CfcFunctionResponse {
+  functionCallEvent: Event;
+  functionResponseEvent: Event;
+}
+
 export interface LlmAgentConfig extends BaseAgentConfig {
   /**
    * The model to use for the agent.
@@ -163,9 +178,25 @@ export interface LlmAgentConfig extends BaseAgentConfig {
    */
   globalInstruction?: string|InstructionProvider;
 
+  /**
+   * The options for injecting the state and the artifacts in the instruction
+   * templates of the agent, e.g. the maximum length of an injected artifact.
+   * The options of the root agent apply to the global instruction.
+   */
+  injectSessionStateOptions?: InjectSessionStateOptions;
+
   /** Tools available to this agent. */
   tools?: ToolUnion[];
 
+  /**
+   * Few-shot examples for the LLM model, either a static list or a provider
+   * returning the examples for the current user query.
+   *
+   * The examples are converted to text and appended to the system instruction
+   * of every LLM request.
+   */
+  examples?: ExamplesUnion;
+
   /**
    * The additional content generation configurations.
    *
@@ -254,8 +285,29 @@ export interface LlmAgentConfig extends BaseAgentConfig {
 
   /**
    * Instructs the agent to make a plan and execute it step by step.
+   *
+   * NOTE: to use the model's built-in thinking features, set the
+   * `thinkingConfig` field of the BuiltInPlanner.
+   */
+  planner?: BasePlanner;
+
+  /**
+   * Allows the agent to execute code blocks from model responses using the
+   * provided code executor.
+   *
+   * If not set, the agent uses the default code executor of the Runner, if
+   * any.
+   *
+   * NOTE: to use the model's built-in code executor, use the
+   * BuiltInCodeExecutor.
    */
   codeExecutor?: BaseCodeExecutor;
+
+  /**
+   * Disallows code execution for the agent, including with the default code
+   * executor of the Runner.
+   */
+  disallowCodeExecution?: boolean;
 }
 
 async function convertToolUnionToTools(
@@ -357,6 +409,7 @@ class InstructionsLlmRequestProcessor extends BaseLlmRequestProcessor {
         instructionWithState = await injectSessionState(
             instruction,
             new ReadonlyContext(invocationContext),
+            rootAgent.injectSessionStateOptions,
         );
       }
       appendInstructions(llmRequest, [instructionWithState]);
@@ -375,6 +428,7 @@ class InstructionsLlmRequestProcessor extends BaseLlmRequestProcessor {
         instructionWithState = await injectSessionState(
             instruction,
             new ReadonlyContext(invocationContext),
+            agent.injectSessionStateOptions,
         );
       }
       appendInstructions(llmRequest, [instructionWithState]);
@@ -384,6 +438,33 @@ class InstructionsLlmRequestProcessor extends BaseLlmRequestProcessor {
 const INSTRUCTIONS_LLM_REQUEST_PROCESSOR =
     new InstructionsLlmRequestProcessor();
 
+/**
+ * Appends the few-shot examples of the agent to the system instruction.
+ */
+class ExamplesLlmRequestProcessor extends BaseLlmRequestProcessor {
+  override async *
+      runAsync(
+          invocationContext: InvocationContext,
+          llmRequest: LlmRequest,
+          ): AsyncGenerator<Event, void, void> {
+    const agent = invocationContext.agent;
+    if (!(agent instanceof LlmAgent) || !agent.examples) {
+      return;
+    }
+
+    const query = (invocationContext.userContent?.parts ?? [])
+                      .filter((part) => part.text)
+                      .map((part) => part.text)
+                      .join('\n');
+    appendInstructions(llmRequest, [
+      await buildExampleSi(agent.examples, query, llmRequest.model),
+    ]);
+    // Only the request is changed, no event is yielded.
+    yield* [];
+  }
+}
+const EXAMPLES_LLM_REQUEST_PROCESSOR = new ExamplesLlmRequestProcessor();
+
 
 class ContentRequestProcessor implements BaseLlmRequestProcessor {
   async *
@@ -675,6 +756,63 @@ class RequestConfirmationLlmRequestProcessor extends BaseLlmRequestProcessor {
 export const REQUEST_CONFIRMATION_LLM_REQUEST_PROCESSOR =
     new RequestConfirmationLlmRequestProcessor();
 
+/**
+ * Handles the planning instructions of the planner for LLM flow.
+ */
+class NlPlanningRequestProcessor extends BaseLlmRequestProcessor {
+  override async *
+      runAsync(
+          invocationContext: InvocationContext,
+          llmRequest: LlmRequest,
+          ): AsyncGenerator<Event, void, void> {
+    const planner = getPlanner(invocationContext);
+    if (!planner) {
+      return;
+    }
+
+    if (planner instanceof BuiltInPlanner) {
+      planner.applyThinkingConfig(llmRequest);
+    }
+
+    const planningInstruction = planner.buildPlanningInstruction(
+        new ReadonlyContext(invocationContext), llmRequest);
+    if (planningInstruction) {
+      appendInstructions(llmRequest, [planningInstruction]);
+    }
+
+    removeThoughtFromRequest(llmRequest);
+  }
+}
+
+/**
+ * Gets the planner of the agent of the invocation, if any.
+ */
+function getPlanner(invocationContext: InvocationContext): BasePlanner|
+    undefined {
+  const agent = invocationContext.agent;
+  if (!(agent instanceof LlmAgent)) {
+    return undefined;
+  }
+  return agent.planner;
+}
+
+/**
+ * Removes the thought flag from the parts of the request contents, so that the
+ * previous planning and reasoning parts are sent to the model as plain text.
+ */
+function removeThoughtFromRequest(llmRequest: LlmRequest) {
+  for (const content of llmRequest.contents) {
+    if (!content.parts) {
+      continue;
+    }
+    for (const part of content.parts) {
+      delete part.thought;
+    }
+  }
+}
+
+const NL_PLANNING_REQUEST_PROCESSOR = new NlPlanningRequestProcessor();
+
 
 /**
  * Processes code execution requests.
@@ -689,7 +827,9 @@ class CodeExecutionRequestProcessor extends BaseLlmRequestProcessor {
       return;
     }
 
-    if (!invocationContext.agent.codeExecutor) {
+    const codeExecutor = invocationContext.agent.canonicalCodeExecutor(
+        new ReadonlyContext(invocationContext));
+    if (!codeExecutor) {
       return;
     }
 
@@ -697,20 +837,17 @@ class CodeExecutionRequestProcessor extends BaseLlmRequestProcessor {
       yield event;
     }
 
-    if (!(invocationContext.agent.codeExecutor instanceof BaseCodeExecutor)) {
-      return;
-    }
-
+    // Converts the code execution parts to text parts, so that the model sees
+    // the code and its results, including the data file explorations.
+    const codeBlockDelimiter: [string, string] =
+        codeExecutor.codeBlockDelimiters.length ?
+        codeExecutor.codeBlockDelimiters[0] :
+        ['', ''];
     for (const content of llmRequest.contents) {
-      const delimeters: [string, string] =
-          invocationContext.agent.codeExecutor.codeBlockDelimiters.length ?
-          invocationContext.agent.codeExecutor.codeBlockDelimiters[0] :
-          ['', ''];
-
-      const codeExecutionParts = convertCodeExecutionParts(
+      convertCodeExecutionParts(
           content,
-          delimeters,
-          invocationContext.agent.codeExecutor.executionResultDelimiters,
+          codeBlockDelimiter,
+          codeExecutor.executionResultDelimiters,
       );
     }
   }
@@ -728,6 +865,14 @@ const DATA_FILE_UTIL_MAP: Record < string, {
     extension: '.csv',
     loaderCodeTemplate: 'pd.read_csv(\'{filename}\')',
   },
+  'text/tab-separated-values': {
+    extension: '.tsv',
+    loaderCodeTemplate: 'pd.read_csv(\'{filename}\', sep=\'\\t\')',
+  },
+  'application/json': {
+    extension: '.json',
+    loaderCodeTemplate: 'pd.read_json(\'{filename}\')',
+  },
 };
 
 /**
@@ -736,6 +881,11 @@ const DATA_FILE_UTIL_MAP: Record < string, {
 const DATA_FILE_HELPER_LIB = `
 import pandas as pd
 
+def crop(s: str, max_chars: int = 64) -> str:
+  """Crops a string to max_chars characters."""
+  return s[: max_chars - 3] + '...' if len(s) > max_chars else s
+
+
 def explore_df(df: pd.DataFrame) -> None:
   """Prints some information about a pandas DataFrame."""
 
@@ -799,10 +949,7 @@ class CodeExecutionResponseProcessor implements BaseLlmResponseProcessor {
   }
 }
 
-/**
- * The exported response processor instance.
- */
-export const responseProcessor = new CodeExecutionResponseProcessor();
+const CODE_EXECUTION_RESPONSE_PROCESSOR = new CodeExecutionResponseProcessor();
 
 /**
  * Pre-processes the user message by adding the user message to the execution
@@ -823,7 +970,8 @@ async function*
     return;
   }
 
-  const codeExecutor = agent.codeExecutor;
+  const codeExecutor =
+      agent.canonicalCodeExecutor(new ReadonlyContext(invocationContext));
 
   if (!codeExecutor || !(codeExecutor instanceof BaseCodeExecutor)) {
     return;
@@ -834,7 +982,8 @@ async function*
     return;
   }
 
-  if (!codeExecutor.optimizeDataFile) {
+  // The data files are explored with Python code.
+  if (!codeExecutor.optimizeDataFile || !runsPythonCode(codeExecutor)) {
     return;
   }
 
@@ -864,9 +1013,9 @@ async function*
   for (const file of filesToProcess) {
     const codeStr = getDataFilePreprocessingCode(file);
 
-    // Skip for unsupported file or executor types
+    // Skip for unsupported file types
     if (!codeStr) {
-      return;
+      continue;
     }
 
     // Emit the code to execute, and add it to the LLM request
@@ -939,7 +1088,8 @@ async function*
     return;
   }
 
-  const codeExecutor = agent.codeExecutor;
+  const codeExecutor =
+      agent.canonicalCodeExecutor(new ReadonlyContext(invocationContext));
 
   if (!codeExecutor || !(codeExecutor instanceof BaseCodeExecutor)) {
     return;
@@ -1044,12 +1194,12 @@ function extractAndReplaceInlineFiles(
       const fileName =
           `data_${i + 1}_${j + 1}${DATA_FILE_UTIL_MAP[mimeType].extension}`;
 
-      part.text = `\nAvailable file: \`${fileName}\`\n`;
+      content.parts[j] = {text: `\nAvailable file: \`${fileName}\`\n`};
 
       // Add the inline data as input file to the code executor context
       const file: File = {
         name: fileName,
-        content: base64Decode(part.inlineData.data!),
+        content: getEncodedFileContent(part.inlineData.data!),
         mimeType
       };
 
@@ -1075,7 +1225,9 @@ function getOrSetExecutionId(
     codeExecutorContext: CodeExecutorContext): string|undefined {
   const agent = invocationContext.agent;
 
-  if (!(agent instanceof LlmAgent) || !agent.codeExecutor?.stateful) {
+  if (!(agent instanceof LlmAgent) ||
+      !agent.canonicalCodeExecutor(new ReadonlyContext(invocationContext))
+           ?.stateful) {
     return undefined;
   }
 
@@ -1144,6 +1296,17 @@ async function postProcessCodeExecutionResult(
   });
 }
 
+/**
+ * Whether the code executor runs Python code. The code executors with a
+ * language, e.g. LocalCodeExecutor, may run another language.
+ *
+ * @param codeExecutor The code executor to check
+ * @returns true if the code executor runs Python code, false otherwise
+ */
+function runsPythonCode(codeExecutor: BaseCodeExecutor): boolean {
+  return !codeExecutor.language || codeExecutor.language === 'python';
+}
+
 /**
  * Returns the code to explore the data file.
  *
@@ -1197,6 +1360,53 @@ const CODE_EXECUTION_REQUEST_PROCESSOR = new CodeExecutionRequestProcessor();
 // #END RequesBaseCodeExecutort Processors
 // --------------------------------------------------------------------------
 
+// --------------------------------------------------------------------------
+// #START Response Processors
+// --------------------------------------------------------------------------
+
+/**
+ * Processes the LLM response with the planner of the agent.
+ */
+class NlPlanningResponseProcessor extends BaseLlmResponseProcessor {
+  override async *
+      runAsync(
+          invocationContext: InvocationContext,
+          llmResponse: LlmResponse,
+          ): AsyncGenerator<Event, void, void> {
+    if (!llmResponse.content?.parts?.length) {
+      return;
+    }
+
+    const planner = getPlanner(invocationContext);
+    if (!planner || planner instanceof BuiltInPlanner) {
+      return;
+    }
+
+    // Postprocess the LLM response.
+    const callbackContext = new CallbackContext({invocationContext});
+    const processedParts = planner.processPlanningResponse(
+        callbackContext, llmResponse.content.parts);
+    if (processedParts) {
+      llmResponse.content.parts = processedParts;
+    }
+
+    if (callbackContext.state.hasDelta()) {
+      yield createEvent({
+        invocationId: invocationContext.invocationId,
+        author: invocationContext.agent.name,
+        branch: invocationContext.branch,
+        actions: callbackContext.eventActions,
+      });
+    }
+  }
+}
+
+const NL_PLANNING_RESPONSE_PROCESSOR = new NlPlanningResponseProcessor();
+
+// --------------------------------------------------------------------------
+// #END Response Processors
+// --------------------------------------------------------------------------
+
 /**
  * An agent that uses a large language model to generate responses.
  */
@@ -1204,7 +1414,9 @@ export class LlmAgent extends BaseAgent {
   model?: string|BaseLlm;
   instruction: string|InstructionProvider;
   globalInstruction: string|InstructionProvider;
+  injectSessionStateOptions?: InjectSessionStateOptions;
   tools: ToolUnion[];
+  examples?: ExamplesUnion;
   generateContentConfig?: GenerateContentConfig;
   disallowTransferToParent: boolean;
   disallowTransferToPeers: boolean;
@@ -1218,14 +1430,18 @@ export class LlmAgent extends BaseAgent {
   afterToolCallback?: AfterToolCallback;
   requestProcessors: BaseLlmRequestProcessor[];
   responseProcessors: BaseLlmResponseProcessor[];
+  planner?: BasePlanner;
   codeExecutor?: BaseCodeExecutor;
+  disallowCodeExecution: boolean;
 
   constructor(config: LlmAgentConfig) {
     super(config);
     this.model = config.model;
     this.instruction = config.instruction ?? '';
     this.globalInstruction = config.globalInstruction ?? '';
+    this.injectSessionStateOptions = config.injectSessionStateOptions;
     this.tools = config.tools ?? [];
+    this.examples = config.examples;
     this.generateContentConfig = config.generateContentConfig;
     this.disallowTransferToParent = config.disallowTransferToParent ?? false;
     this.disallowTransferToPeers = config.disallowTransferToPeers ?? false;
@@ -1237,7 +1453,14 @@ export class LlmAgent extends BaseAgent {
     this.afterModelCallback = config.afterModelCallback;
     this.beforeToolCallback = config.beforeToolCallback;
     this.afterToolCallback = config.afterToolCallback;
+    this.planner = config.planner;
     this.codeExecutor = config.codeExecutor;
+    this.disallowCodeExecution = config.disallowCodeExecution ?? false;
+    if (this.codeExecutor && this.disallowCodeExecution) {
+      throw new Error(
+          `Invalid config for agent ${
+              this.name}: codeExecutor cannot be set when disallowCodeExecution is true.`);
+    }
 
     // TODO - b/425992518: Define these processor arrays.
     // Orders matter, don't change. Append new processors to the end
@@ -1245,11 +1468,16 @@ export class LlmAgent extends BaseAgent {
       BASIC_LLM_REQUEST_PROCESSOR,
       IDENTITY_LLM_REQUEST_PROCESSOR,
       INSTRUCTIONS_LLM_REQUEST_PROCESSOR,
+      EXAMPLES_LLM_REQUEST_PROCESSOR,
       REQUEST_CONFIRMATION_LLM_REQUEST_PROCESSOR,
       CONTENT_REQUEST_PROCESSOR,
+      NL_PLANNING_REQUEST_PROCESSOR,
       CODE_EXECUTION_REQUEST_PROCESSOR,
     ];
-    this.responseProcessors = config.responseProcessors ?? [];
+    this.responseProcessors = config.responseProcessors ?? [
+      NL_PLANNING_RESPONSE_PROCESSOR,
+      CODE_EXECUTION_RESPONSE_PROCESSOR,
+    ];
 
     // Preserve the agent transfer behavior.
     const agentTransferDisabled = this.disallowTransferToParent &&
@@ -1378,6 +1606,19 @@ export class LlmAgent extends BaseAgent {
     return resolvedTools;
   }
 
+  /**
+   * The resolved code executor of the agent based on the context.
+   *
+   * When not set, the agent uses the default code executor of the invocation,
+   * unless it disallows code execution.
+   */
+  canonicalCodeExecutor(context: ReadonlyContext): BaseCodeExecutor|undefined {
+    if (this.disallowCodeExecution) {
+      return undefined;
+    }
+    return this.codeExecutor ?? context.invocationContext.codeExecutor;
+  }
+
   /**
    * Normalizes a callback or an array of callbacks into an array of callbacks.
    *
@@ -1522,9 +1763,6 @@ export class LlmAgent extends BaseAgent {
       this.maybeSaveOutputToState(event);
       yield event;
     }
-    if (context.endInvocation) {
-      return;
-    }
   }
 
   // --------------------------------------------------------------------------
@@ -1534,9 +1772,197 @@ export class LlmAgent extends BaseAgent {
       runLiveFlow(
           invocationContext: InvocationContext,
           ): AsyncGenerator<Event, void, void> {
-    // TODO - b/425992518: remove dummy logic, implement this.
-    await Promise.resolve();
-    throw new Error('LlmAgent.runLiveFlow not implemented');
+    if (!invocationContext.liveRequestQueue) {
+      throw new Error(
+          `Agent ${this.name} requires a live request queue to run live.`);
+    }
+
+    const llmRequest: LlmRequest = {
+      contents: [],
+      toolsDict: {},
+      liveConnectConfig: {},
+    };
+
+    // =========================================================================
+    // Preprocess before connecting to the LLM
+    // =========================================================================
+    for await (const event of this.preprocess(invocationContext, llmRequest)) {
+      yield event;
+    }
+    if (invocationContext.endInvocation) {
+      return;
+    }
+
+    // =========================================================================
+    // Connects to the LLM and streams requests and responses concurrently
+    // =========================================================================
+    const connection = await this.canonicalModel.connect(llmRequest);
+    // The connection is closed either when the sending ends, which ends the
+    // receiving, or when the receiving ends first. It is closed only once.
+    let closeTask: Promise<void>|undefined;
+    const closeConnection = () => closeTask ??= connection.close();
+    const stopSending = new AbortController();
+    let sendTask: Promise<void>|undefined;
+    let nextAgentName: string|undefined;
+    try {
+      if (llmRequest.contents.length > 0) {
+        await connection.sendHistory(llmRequest.contents);
+      }
+      sendTask =
+          this.sendToModel(connection, invocationContext, stopSending.signal)
+              .catch((e: unknown) => {
+                logger.error('Failed to send live request:', e);
+              })
+              .then(closeConnection);
+
+      for await (const event of this.receiveFromModel(
+          connection, invocationContext, llmRequest)) {
+        nextAgentName = event.actions.transferToAgent;
+        const isLiveRunOver = !!nextAgentName || isTaskCompletedEvent(event) ||
+            invocationContext.endInvocation;
+        // Sends the function responses back to the model, unless the
+        // conversation is handed over to another agent.
+        if (getFunctionResponses(event).length > 0 && !isLiveRunOver) {
+          await connection.sendContent(event.content!);
+        }
+        yield event;
+        if (isLiveRunOver) {
+          break;
+        }
+      }
+    } finally {
+      stopSending.abort();
+      await sendTask;
+      await closeConnection();
+    }
+
+    // If model instruct to transfer to an agent, run the transferred agent.
+    if (nextAgentName) {
+      const nextAgent = this.getAgentByName(invocationContext, nextAgentName);
+      for await (const event of nextAgent.runLive(invocationContext)) {
+        yield event;
+      }
+    }
+  }
+
+  /**
+   * Forwards the requests from the live request queue to the LLM connection
+   * until the queue is closed or the signal is aborted.
+   */
+  private async sendToModel(
+      connection: BaseLlmConnection,
+      invocationContext: InvocationContext,
+      signal: AbortSignal,
+      ): Promise<void> {
+    const liveRequestQueue = invocationContext.liveRequestQueue!;
+    while (true) {
+      let liveRequest: LiveRequest;
+      try {
+        liveRequest = await liveRequestQueue.get(signal);
+      } catch (e: unknown) {
+        if (signal.aborted) {
+          return;
+        }
+        throw e;
+      }
+
+      if (liveRequest.close) {
+        return;
+      }
+      if (liveRequest.activityStart) {
+        await connection.sendActivityStart();
+      } else if (liveRequest.activityEnd) {
+        await connection.sendActivityEnd();
+      } else if (liveRequest.blob) {
+        // Caches the user audio so it can be transcribed later on, if the
+        // model does not transcribe it.
+        if (!invocationContext.runConfig?.inputAudioTranscription) {
+          invocationContext.transcriptionCache ??= [];
+          invocationContext.transcriptionCache.push(
+              {role: 'user', data: liveRequest.blob});
+        }
+        await connection.sendRealtime(liveRequest.blob);
+      }
+      if (liveRequest.content) {
+        await connection.sendContent(liveRequest.content);
+      }
+    }
+  }
+
+  /**
+   * Receives the LLM responses from the connection and converts them into
+   * events, until the connection is closed.
+   */
+  private async *
+      receiveFromModel(
+          connection: BaseLlmConnection,
+          invocationContext: InvocationContext,
+          llmRequest: LlmRequest,
+          ): AsyncGenerator<Event, void, void> {
+    for await (const llmResponse of connection.receive()) {
+      const modelResponseEvent = createEvent({
+        invocationId: invocationContext.invocationId,
+        author: llmResponse.content?.role === 'user' ? 'user' : this.name,
+        branch: invocationContext.branch,
+      });
+      for await (const event of this.postprocessLive(
+          invocationContext, llmRequest, llmResponse, modelResponseEvent)) {
+        // Caches the model audio so it can be transcribed later on, if the
+        // model does not transcribe it.
+        const inlineData = event.content?.parts?.[0]?.inlineData;
+        if (inlineData?.mimeType?.startsWith('audio/') &&
+            !invocationContext.runConfig?.outputAudioTranscription) {
+          invocationContext.transcriptionCache ??= [];
+          invocationContext.transcriptionCache.push({
+            role: 'model',
+            data: {data: inlineData.data, mimeType: inlineData.mimeType},
+          });
+        }
+        yield event;
+      }
+    }
+  }
+
+  private async *
+      postprocessLive(
+          invocationContext: InvocationContext,
+          llmRequest: LlmRequest,
+          llmResponse: LlmResponse,
+          modelResponseEvent: Event,
+          ): AsyncGenerator<Event, void, void> {
+    for (const processor of this.responseProcessors) {
+      for await (
+          const event of processor.runAsync(invocationContext, llmResponse)) {
+        yield event;
+      }
+    }
+
+    // Skips the responses that carry nothing to surface to the caller.
+    if (!llmResponse.content && !llmResponse.errorCode &&
+        !llmResponse.interrupted && !llmResponse.turnComplete &&
+        !llmResponse.inputTranscription && !llmResponse.outputTranscription &&
+        !llmResponse.usageMetadata) {
+      return;
+    }
+
+    const mergedEvent = this.finalizeModelResponseEvent(
+        llmRequest, llmResponse, modelResponseEvent);
+    yield mergedEvent;
+
+    if (!getFunctionCalls(mergedEvent).length) {
+      return;
+    }
+
+    const functionResponseEvent = await handleFunctionCallsAsync({
+      invocationContext: invocationContext,
+      functionCallEvent: mergedEvent,
+      toolsDict: llmRequest.toolsDict,
+      beforeToolCallbacks: this.canonicalBeforeToolCallbacks,
+      afterToolCallbacks: this.canonicalAfterToolCallbacks,
+    });
+    if (functionResponseEvent) {
+      yield functionResponseEvent;
+    }
   }
 
   private async *
@@ -1552,24 +1978,8 @@ export class LlmAgent extends BaseAgent {
     // =========================================================================
     // Preprocess before calling the LLM
     // =========================================================================
-    // Runs request processors.
-    for (const processor of this.requestProcessors) {
-      for await (
-          const event of processor.runAsync(invocationContext, llmRequest)) {
-        yield event;
-      }
-    }
-    // TODO - b/425992518: check if tool preprocessors can be simplified.
-    // Run pre-processors for tools.
-    for (const toolUnion of this.tools) {
-      const toolContext = new ToolContext({invocationContext});
-
-      // process all tools from this tool union
-      const tools = await convertToolUnionToTools(
-          toolUnion, new ReadonlyContext(invocationContext));
-      for (const tool of tools) {
-        await tool.processLlmRequest({toolContext, llmRequest});
-      }
+    for await (const event of this.preprocess(invocationContext, llmRequest)) {
+      yield event;
     }
     // =========================================================================
     // Global runtime interruption
@@ -1588,13 +1998,18 @@ export class LlmAgent extends BaseAgent {
       author: this.name,
       branch: invocationContext.branch,
     });
-    for await (const llmResponse of this.callLlmAsync(
+    for await (const llmOutput of this.callLlmAsync(
         invocationContext, llmRequest, modelResponseEvent)) {
       // ======================================================================
       // Postprocess after calling the LLM
       // ======================================================================
-      for await (const event of this.postprocess(
-          invocationContext, llmRequest, llmResponse, modelResponseEvent)) {
+      const events = 'functionResponseEvent' in llmOutput ?
+          this.postprocessFunctionResponse(
+              invocationContext, llmOutput.functionCallEvent,
+              llmOutput.functionResponseEvent) :
+          this.postprocess(
+              invocationContext, llmRequest, llmOutput, modelResponseEvent);
+      for await (const event of events) {
         // Update the mutable event id to avoid conflict
         modelResponseEvent.id = createNewEventId();
         modelResponseEvent.timestamp = new Date().getTime();
@@ -1603,6 +2018,32 @@ export class LlmAgent extends BaseAgent {
     }
   }
 
+  private async *
+      preprocess(
+          invocationContext: InvocationContext,
+          llmRequest: LlmRequest,
+          ): AsyncGenerator<Event, void, void> {
+    // Runs request processors.
+    for (const processor of this.requestProcessors) {
+      for await (
+          const event of processor.runAsync(invocationContext, llmRequest)) {
+        yield event;
+      }
+    }
+    // TODO - b/425992518: check if tool preprocessors can be simplified.
+    // Run pre-processors for tools.
+    for (const toolUnion of this.tools) {
+      const toolContext = new ToolContext({invocationContext});
+
+      // process all tools from this tool union
+      const tools = await convertToolUnionToTools(
+          toolUnion, new ReadonlyContext(invocationContext));
+      for (const tool of tools) {
+        await tool.processLlmRequest({toolContext, llmRequest});
+      }
+    }
+  }
+
   private async *
       postprocess(
           invocationContext: InvocationContext,
@@ -1629,29 +2070,17 @@ export class LlmAgent extends BaseAgent {
       return;
     }
 
-    // Merge llm response with model response event.
-    const mergedEvent = createEvent({
-      ...modelResponseEvent,
-      ...llmResponse,
-    });
-
-    if (mergedEvent.content) {
-      const functionCalls = getFunctionCalls(mergedEvent);
-      if (functionCalls?.length) {
-        // TODO - b/425992518: rename topopulate if missing.
-        populateClientFunctionCallId(mergedEvent);
-        // TODO - b/425992518: hacky, transaction log, simplify.
-        // Long running is a property of tool in registry.
-        mergedEvent.longRunningToolIds = Array.from(
-            getLongRunningFunctionCalls(functionCalls, llmRequest.toolsDict));
-      }
-    }
+    const mergedEvent = this.finalizeModelResponseEvent(
+        llmRequest, llmResponse, modelResponseEvent);
     yield mergedEvent;
 
     // =========================================================================
     // Process function calls if any, which inlcudes agent transfer.
     // =========================================================================
-    if (!getFunctionCalls(mergedEvent)?.length) {
+    // With CFC, the function calls are already executed during the LLM call,
+    // and their responses are postprocessed separately.
+    if (!getFunctionCalls(mergedEvent)?.length ||
+        invocationContext.runConfig?.supportCfc) {
       return;
     }
 
@@ -1670,6 +2099,23 @@ export class LlmAgent extends BaseAgent {
       return;
     }
 
+    for await (const event of this.postprocessFunctionResponse(
+        invocationContext, mergedEvent, functionResponseEvent)) {
+      yield event;
+    }
+  }
+
+  /**
+   * Yields the function response event, preceded by the authentication and
+   * tool confirmation events it requests, then runs the agent it transfers
+   * to, if any.
+   */
+  private async *
+      postprocessFunctionResponse(
+          invocationContext: InvocationContext,
+          functionCallEvent: Event,
+          functionResponseEvent: Event,
+          ): AsyncGenerator<Event, void, void> {
     // Yiels an authentication event if any.
     // TODO - b/425992518: transaction log session, simplify.
     const authEvent =
@@ -1681,7 +2127,7 @@ export class LlmAgent extends BaseAgent {
     // Yields a tool confirmation event if any.
     const toolConfirmationEvent = generateRequestConfirmationEvent({
       invocationContext: invocationContext,
-      functionCallEvent: mergedEvent,
+      functionCallEvent: functionCallEvent,
       functionResponseEvent: functionResponseEvent,
     });
     if (toolConfirmationEvent) {
@@ -1701,6 +2147,35 @@ export class LlmAgent extends BaseAgent {
     }
   }
 
+  /**
+   * Merges the LLM response into the model response event, and populates the
+   * function call ids and long running tool ids if needed.
+   */
+  private finalizeModelResponseEvent(
+      llmRequest: LlmRequest,
+      llmResponse: LlmResponse,
+      modelResponseEvent: Event,
+      ): Event {
+    // Merge llm response with model response event.
+    const mergedEvent = createEvent({
+      ...modelResponseEvent,
+      ...llmResponse,
+    });
+
+    if (mergedEvent.content) {
+      const functionCalls = getFunctionCalls(mergedEvent);
+      if (functionCalls?.length) {
+        // TODO - b/425992518: rename topopulate if missing.
+        populateClientFunctionCallId(mergedEvent);
+        // TODO - b/425992518: hacky, transaction log, simplify.
+        // Long running is a property of tool in registry.
+        mergedEvent.longRunningToolIds = Array.from(
+            getLongRunningFunctionCalls(functionCalls, llmRequest.toolsDict));
+      }
+    }
+    return mergedEvent;
+  }
+
   /**
    * Retrieves an agent from the agent tree by its name.
    *
@@ -1730,7 +2205,7 @@ export class LlmAgent extends BaseAgent {
           invocationContext: InvocationContext,
           llmRequest: LlmRequest,
           modelResponseEvent: Event,
-          ): AsyncGenerator<LlmResponse, void, void> {
+          ): AsyncGenerator<LlmResponse|CfcFunctionResponse, void, void> {
     // Runs before_model_callback if it exists.
     const beforeModelResponse = await this.handleBeforeModelCallback(
         invocationContext, llmRequest, modelResponseEvent);
@@ -1752,10 +2227,31 @@ export class LlmAgent extends BaseAgent {
     const llm = this.canonicalModel;
     // TODO - b/436079721: Add tracer.start_as_current_span('call_llm')
     if (invocationContext.runConfig?.supportCfc) {
-      // TODO - b/425992518: Implement CFC call path
-      // This is a hack, underneath it calls runLive. Which makes
-      // runLive/run mixed.
-      throw new Error('CFC is not yet supported in callLlmAsync');
+      if (!isGemini2Model(llm.model)) {
+        throw new Error(`CFC is not supported for model: ${
+            llm.model} in agent: ${this.name}`);
+      }
+      for await (const llmOutput of this.runAndHandleError(
+          this.callLlmWithCfc(
+              invocationContext, llmRequest, modelResponseEvent),
+          invocationContext, llmRequest, modelResponseEvent)) {
+        // The function responses are not model responses, so they skip the
+        // after_model_callback.
+        if ('functionResponseEvent' in llmOutput) {
+          yield llmOutput;
+          continue;
+        }
+        const llmResponse = llmOutput;
+        // Runs after_model_callback if it exists.
+        const alteredLlmResponse = await this.handleAfterModelCallback(
+            invocationContext, llmResponse, modelResponseEvent);
+        const response = alteredLlmResponse ?? llmResponse;
+        // Only yields partial responses in SSE streaming mode.
+        if (invocationContext.runConfig.streamingMode === StreamingMode.SSE ||
+            !response.partial) {
+          yield response;
+        }
+      }
     } else {
       invocationContext.incrementLlmCallCount();
       const responsesGenerator = llm.generateContentAsync(
@@ -1777,6 +2273,73 @@ export class LlmAgent extends BaseAgent {
     }
   }
 
+  /**
+   * Calls the LLM with compositional function calling (CFC), which lets the
+   * model emit code chaining multiple tool calls in a single turn.
+   *
+   * CFC is only supported by the live API, so the LLM is called through a live
+   * connection. The function calls are executed as soon as they are received,
+   * and their responses are sent back to the model until the turn completes,
+   * or until the conversation is transferred to another agent. Both the model
+   * responses and the executed function responses are yielded.
+   */
+  private async *
+      callLlmWithCfc(
+          invocationContext: InvocationContext,
+          llmRequest: LlmRequest,
+          modelResponseEvent: Event,
+          ): AsyncGenerator<LlmResponse|CfcFunctionResponse, void, void> {
+    invocationContext.incrementLlmCallCount();
+    llmRequest.liveConnectConfig.responseModalities ??= [Modality.TEXT];
+    const connection = await this.canonicalModel.connect(llmRequest);
+    let transfer: CfcFunctionResponse|undefined;
+    try {
+      await connection.sendHistory(llmRequest.contents);
+      for await (const llmResponse of connection.receive()) {
+        const functionCallEvent = createEvent({
+          ...modelResponseEvent,
+          ...llmResponse,
+        });
+        const hasFunctionCalls = getFunctionCalls(functionCallEvent).length > 0;
+        if (hasFunctionCalls) {
+          // Populates the ids before yielding, so that the function responses
+          // match the function calls saved in the session.
+          populateClientFunctionCallId(functionCallEvent);
+        }
+        yield llmResponse;
+
+        if (hasFunctionCalls) {
+          const functionResponseEvent = await handleFunctionCallsAsync({
+            invocationContext: invocationContext,
+            functionCallEvent: functionCallEvent,
+            toolsDict: llmRequest.toolsDict,
+            beforeToolCallbacks: this.canonicalBeforeToolCallbacks,
+            afterToolCallbacks: this.canonicalAfterToolCallbacks,
+          });
+          if (functionResponseEvent) {
+            // The transfer is yielded once the connection is closed, so that
+            // it stays closed while the transferred agent runs.
+            if (functionResponseEvent.actions.transferToAgent) {
+              transfer = {functionCallEvent, functionResponseEvent};
+              break;
+            }
+            await connection.sendContent(functionResponseEvent.content!);
+            yield {functionCallEvent, functionResponseEvent};
+          }
+        }
+
+        if (llmResponse.turnComplete) {
+          break;
+        }
+      }
+    } finally {
+      await connection.close();
+    }
+    if (transfer) {
+      yield transfer;
+    }
+  }
+
   private async handleBeforeModelCallback(
       invocationContext: InvocationContext,
       llmRequest: LlmRequest,
@@ -1834,12 +2397,12 @@ export class LlmAgent extends BaseAgent {
   }
 
   private async *
-      runAndHandleError(
-          responseGenerator: AsyncGenerator<LlmResponse, void, void>,
+      runAndHandleError<T>(
+          responseGenerator: AsyncGenerator<T, void, void>,
           invocationContext: InvocationContext,
           llmRequest: LlmRequest,
           modelResponseEvent: Event,
-          ): AsyncGenerator<LlmResponse, void, void> {
+          ): AsyncGenerator<T|LlmResponse, void, void> {
     try {
       for await (const response of responseGenerator) {
         yield response;
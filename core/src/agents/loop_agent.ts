@@ -8,6 +8,8 @@ import {Event} from '../events/event.js';
 
 import {BaseAgent, BaseAgentConfig} from './base_agent.js';
 import {InvocationContext} from './invocation_context.js';
+import {LlmAgent} from './llm_agent.js';
+import {addTaskCompletedTool, canRunNextLiveAgent, isTaskCompletedEvent} from './task_completion.js';
 
 /**
  * The configuration options for creating a loop agent.
@@ -63,10 +65,48 @@ export class LoopAgent extends BaseAgent {
     return;
   }
 
+  /**
+   * Implementation for live LoopAgent.
+   *
+   * Like the live SequentialAgent, the LLM sub-agents are given a
+   * task_completed() function to signal that the next sub-agent can take over.
+   * The loop stops as soon as a sub-agent escalates, without waiting for its
+   * live run to end, and once the live request queue is closed.
+   *
+   * @param context: The invocation context of the agent.
+   */
   protected async *
       runLiveImpl(
           context: InvocationContext,
           ): AsyncGenerator<Event, void, void> {
-    throw new Error('This is not supported yet for LoopAgent.');
+    for (const subAgent of this.subAgents) {
+      if (subAgent instanceof LlmAgent) {
+        await addTaskCompletedTool(subAgent, context);
+      }
+    }
+
+    let iteration = 0;
+
+    while (iteration < this.maxIterations) {
+      for (const subAgent of this.subAgents) {
+        let taskCompleted = false;
+        for await (const event of subAgent.runLive(context)) {
+          yield event;
+
+          if (event.actions.escalate) {
+            return;
+          }
+          if (isTaskCompletedEvent(event)) {
+            taskCompleted = true;
+          }
+        }
+
+        if (!canRunNextLiveAgent(context, subAgent, taskCompleted)) {
+          return;
+        }
+      }
+
+      iteration++;
+    }
   }
 }
\ No newline at end of file
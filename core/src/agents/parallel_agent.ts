@@ -8,6 +8,7 @@ import {Event} from '../events/event.js';
 
 import {BaseAgent} from './base_agent.js';
 import {InvocationContext} from './invocation_context.js';
+import {LiveRequest, LiveRequestQueue} from './live_request_queue.js';
 
 /**
  * A shell agent that run its sub-agents in parallel in isolated manner.
@@ -32,11 +33,77 @@ export class ParallelAgent extends BaseAgent {
     }
   }
 
+  /**
+   * Implementation for live ParallelAgent.
+   *
+   * Each sub-agent runs live in its own branch with its own live request
+   * queue, to which the requests of the parent queue are forwarded.
+   *
+   * @param context: The invocation context of the agent.
+   */
   protected async *
       runLiveImpl(
           context: InvocationContext,
           ): AsyncGenerator<Event, void, void> {
-    throw new Error('This is not supported yet for ParallelAgent.');
+    if (!context.liveRequestQueue) {
+      throw new Error(
+          `Agent ${this.name} requires a live request queue to run live.`);
+    }
+
+    const branchQueues = this.subAgents.map(() => new LiveRequestQueue());
+    const agentRuns = this.subAgents.map((subAgent, index) => {
+      const branchContext = createBranchCtxForSubAgent(this, subAgent, context);
+      branchContext.liveRequestQueue = branchQueues[index];
+      return subAgent.runLive(branchContext);
+    });
+
+    const stopForwarding = new AbortController();
+    const forwardTask = forwardLiveRequests(
+        context.liveRequestQueue, branchQueues, stopForwarding.signal);
+    try {
+      for await (const event of mergeAgentRuns(agentRuns)) {
+        yield event;
+      }
+    } finally {
+      stopForwarding.abort();
+      await forwardTask;
+      for (const branchQueue of branchQueues) {
+        branchQueue.close();
+      }
+    }
+  }
+}
+
+/**
+ * Forwards every request of the live request queue to all the branch queues,
+ * until the queue is closed or the signal is aborted.
+ */
+async function forwardLiveRequests(
+    liveRequestQueue: LiveRequestQueue,
+    branchQueues: LiveRequestQueue[],
+    signal: AbortSignal,
+    ): Promise<void> {
+  while (true) {
+    let liveRequest: LiveRequest;
+    try {
+      liveRequest = await liveRequestQueue.get(signal);
+    } catch (e: unknown) {
+      if (signal.aborted) {
+        return;
+      }
+      throw e;
+    }
+
+    for (const branchQueue of branchQueues) {
+      if (liveRequest.close) {
+        branchQueue.close();
+      } else {
+        branchQueue.send(liveRequest);
+      }
+    }
+    if (liveRequest.close) {
+      return;
+    }
   }
 }
 
@@ -4,14 +4,11 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 import {Event} from '../events/event.js';
-import {FunctionTool} from '../tools/function_tool.js';
 
 import {BaseAgent} from './base_agent.js';
 import {InvocationContext} from './invocation_context.js';
 import {LlmAgent} from './llm_agent.js';
-import {ReadonlyContext} from './readonly_context.js';
-
-const TASK_COMPLETED_TOOL_NAME = 'task_completed';
+import {addTaskCompletedTool, canRunNextLiveAgent, isTaskCompletedEvent} from './task_completion.js';
 
 /**
  * A shell agent that runs its sub-agents in a sequential order.
@@ -45,27 +42,22 @@ export class SequentialAgent extends BaseAgent {
           ): AsyncGenerator<Event, void, void> {
     for (const subAgent of this.subAgents) {
       if (subAgent instanceof LlmAgent) {
-        const agentTools =
-            await subAgent.canonicalTools(new ReadonlyContext(context));
-        const taskCompletedToolAlreadyAdded =
-            agentTools.some(tool => tool.name === TASK_COMPLETED_TOOL_NAME);
-
-        if (!taskCompletedToolAlreadyAdded) {
-          subAgent.tools.push(new FunctionTool({
-            name: TASK_COMPLETED_TOOL_NAME,
-            description: `Signals that the model has successfully completed the user's question or task.`,
-            execute: () => 'Task completion signaled.'
-          }));
-          subAgent.instruction +=
-              `If you finished the user's request according to its description, call the ${
-                  TASK_COMPLETED_TOOL_NAME} function to exit so the next agents can take over. When calling this function, do not generate any text other than the function call.`;
-        }
+        await addTaskCompletedTool(subAgent, context);
       }
     }
 
     for (const subAgent of this.subAgents) {
+      let taskCompleted = false;
       for await (const event of subAgent.runLive(context)) {
         yield event;
+
+        if (isTaskCompletedEvent(event)) {
+          taskCompleted = true;
+        }
+      }
+
+      if (!canRunNextLiveAgent(context, subAgent, taskCompleted)) {
+        return;
       }
     }
   }
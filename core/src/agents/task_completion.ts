@@ -0,0 +1,80 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {Event, getFunctionResponses} from '../events/event.js';
+import {FunctionTool} from '../tools/function_tool.js';
+
+import {BaseAgent} from './base_agent.js';
+import {InvocationContext} from './invocation_context.js';
+import {LlmAgent} from './llm_agent.js';
+import {ReadonlyContext} from './readonly_context.js';
+
+/**
+ * The name of the tool a live agent calls to signal that it finished its task.
+ */
+export const TASK_COMPLETED_TOOL_NAME = 'task_completed';
+
+/**
+ * Adds the task_completed tool and its instruction to the given agent, if not
+ * already added. Calling the tool ends the live run of the agent.
+ *
+ * @param agent The agent to add the tool to.
+ * @param context The invocation context of the workflow agent.
+ */
+export async function addTaskCompletedTool(
+    agent: LlmAgent, context: InvocationContext): Promise<void> {
+  const agentTools = await agent.canonicalTools(new ReadonlyContext(context));
+  if (agentTools.some(tool => tool.name === TASK_COMPLETED_TOOL_NAME)) {
+    return;
+  }
+
+  agent.tools.push(new FunctionTool({
+    name: TASK_COMPLETED_TOOL_NAME,
+    description: `Signals that the model has successfully completed the user's question or task.`,
+    execute: () => 'Task completion signaled.'
+  }));
+  const completionInstruction =
+      `If you finished the user's request according to its description, call the ${
+          TASK_COMPLETED_TOOL_NAME} function to exit so the next agents can take over. When calling this function, do not generate any text other than the function call.`;
+  const instruction = agent.instruction;
+  if (typeof instruction === 'string') {
+    agent.instruction = instruction + completionInstruction;
+  } else {
+    agent.instruction = async (context: ReadonlyContext) =>
+        (await instruction(context)) + completionInstruction;
+  }
+}
+
+/**
+ * Whether a workflow agent can run its next sub-agent live after the live run
+ * of the given sub-agent ended.
+ *
+ * The live run is over when the live request queue is closed or the
+ * invocation ended. An LLM sub-agent whose run ended without calling the
+ * task_completed tool, e.g. because its connection was closed, also ends the
+ * live run, as the next sub-agents would not get any new request.
+ *
+ * @param context The invocation context of the workflow agent.
+ * @param subAgent The sub-agent whose live run ended.
+ * @param taskCompleted Whether the sub-agent called the task_completed tool.
+ */
+export function canRunNextLiveAgent(
+    context: InvocationContext, subAgent: BaseAgent,
+    taskCompleted: boolean): boolean {
+  if (context.liveRequestQueue?.isClosed || context.endInvocation) {
+    return false;
+  }
+
+  return taskCompleted || !(subAgent instanceof LlmAgent);
+}
+
+/**
+ * Whether the event is the response of the task_completed tool.
+ */
+export function isTaskCompletedEvent(event: Event): boolean {
+  return getFunctionResponses(event).some(
+      (functionResponse) => functionResponse.name === TASK_COMPLETED_TOOL_NAME);
+}
@@ -0,0 +1,160 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {Part} from '@google/genai';
+
+import {base64Decode, base64ToBytes} from '../utils/env_aware_utils.js';
+
+import {ArtifactContentSource} from './base_artifact_service.js';
+
+/**
+ * The mime types of the binary artifacts whose content is text.
+ */
+const TEXT_MIME_TYPE_PREFIXES = [
+  'text/',
+  'application/json',
+  'application/xml',
+  'application/x-yaml',
+];
+
+/**
+ * Checks if the mime type of an artifact is a JSON mime type, e.g.
+ * `application/json` or `application/ld+json`.
+ *
+ * @param mimeType The mime type to check.
+ * @return true if the content of the artifact is JSON, false otherwise.
+ */
+export function isJsonMimeType(mimeType: string): boolean {
+  return mimeType === 'application/json' || mimeType.endsWith('+json');
+}
+
+/**
+ * Checks if the content of an artifact with the given mime type is text.
+ *
+ * @param mimeType The mime type to check.
+ * @return true if the content of the artifact is text, false otherwise.
+ */
+export function isTextMimeType(mimeType: string): boolean {
+  return isJsonMimeType(mimeType) ||
+      TEXT_MIME_TYPE_PREFIXES.some(prefix => mimeType.startsWith(prefix));
+}
+
+/**
+ * Returns the text content of an artifact.
+ *
+ * @param artifact The artifact to read.
+ * @return The text of the text parts, the decoded inline data of the text mime
+ *     types, or undefined for the other artifacts.
+ */
+export function getArtifactText(artifact: Part): string|undefined {
+  if (artifact.text !== undefined) {
+    return artifact.text;
+  }
+  if (artifact.inlineData &&
+      isTextMimeType(artifact.inlineData.mimeType ?? '')) {
+    return base64Decode(artifact.inlineData.data ?? '');
+  }
+
+  return undefined;
+}
+
+/**
+ * Returns the size of the content of the artifact, in bytes.
+ *
+ * @param artifact The artifact to measure.
+ * @return The size of the decoded inline data, or of the UTF-8 encoded text.
+ */
+export function getArtifactSize(artifact: Part): number {
+  if (artifact.inlineData) {
+    const data = (artifact.inlineData.data ?? '').replace(/=+$/, '');
+    return Math.floor(data.length * 3 / 4);
+  }
+
+  return new TextEncoder().encode(artifact.text ?? '').length;
+}
+
+/**
+ * Returns the bytes of the content of the artifact.
+ *
+ * @param artifact The artifact to read.
+ * @return The decoded inline data, or the UTF-8 encoded text.
+ */
+export function getArtifactBytes(artifact: Part): Uint8Array {
+  if (artifact.inlineData) {
+    return base64ToBytes(artifact.inlineData.data ?? '');
+  }
+
+  return new TextEncoder().encode(artifact.text ?? '');
+}
+
+/**
+ * Clamps a requested byte range of an artifact to the size of the artifact.
+ *
+ * @param size The size of the artifact, in bytes.
+ * @param start The offset of the first requested byte.
+ * @param end The offset after the last requested byte.
+ * @return The clamped range, empty if the requested range is empty.
+ */
+export function resolveByteRange(size: number, start = 0, end = size):
+    {start: number, end: number} {
+  const rangeStart = Math.min(Math.max(start, 0), size);
+
+  return {start: rangeStart, end: Math.min(Math.max(end, rangeStart), size)};
+}
+
+/**
+ * Iterates over the chunks of the content of a streamed artifact.
+ *
+ * @param content The web `ReadableStream` or the async iterable to read.
+ */
+export async function* readArtifactContent(content: ArtifactContentSource):
+    AsyncGenerator<Uint8Array, void, void> {
+  if (!('getReader' in content)) {
+    yield* content;
+    return;
+  }
+
+  const reader = content.getReader();
+  try {
+    while (true) {
+      const {done, value} = await reader.read();
+      if (done) {
+        return;
+      }
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Creates a web `ReadableStream` from chunks of bytes.
+ *
+ * @param chunks The chunks to stream, read on demand.
+ * @return The stream of the chunks.
+ */
+export function toReadableStream(chunks: AsyncIterable<Uint8Array>|
+                                 Iterable<Uint8Array>):
+    ReadableStream<Uint8Array> {
+  const iterator = Symbol.asyncIterator in chunks ?
+      chunks[Symbol.asyncIterator]() :
+      chunks[Symbol.iterator]();
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const {done, value} = await iterator.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
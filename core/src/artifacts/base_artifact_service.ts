@@ -20,6 +20,11 @@ export interface SaveArtifactRequest {
   filename: string;
   /** The artifact to save. */
   artifact: Part;
+  /**
+   * The custom metadata to store with the saved version, e.g. the tool or the
+   * user that created it. Must be JSON serializable.
+   */
+  customMetadata?: Record<string, unknown>;
 }
 
 /**
@@ -81,6 +86,123 @@ export interface ListVersionsRequest {
   filename: string;
 }
 
+/**
+ * The parameters for `getArtifactVersion`.
+ */
+export interface GetArtifactVersionRequest {
+  /** The app name. */
+  appName: string;
+  /** The user ID. */
+  userId: string;
+  /** The session ID. */
+  sessionId: string;
+  /** The filename of the artifact. */
+  filename: string;
+  /**
+   * The version of the artifact to get. If not provided, the latest version
+   * of the artifact is returned.
+   */
+  version?: number;
+}
+
+/**
+ * The parameters for `listArtifactVersions`.
+ */
+export interface ListArtifactVersionsRequest {
+  /** The app name. */
+  appName: string;
+  /** The user ID. */
+  userId: string;
+  /** The session ID. */
+  sessionId: string;
+  /** The filename of the artifact. */
+  filename: string;
+}
+
+/**
+ * The content of a streamed artifact: a web `ReadableStream`, or any async
+ * iterable of bytes, e.g. a Node `Readable`.
+ */
+export type ArtifactContentSource =
+    ReadableStream<Uint8Array>|AsyncIterable<Uint8Array>;
+
+/**
+ * The parameters for `saveArtifactStream`.
+ */
+export interface SaveArtifactStreamRequest {
+  /** The app name. */
+  appName: string;
+  /** The user ID. */
+  userId: string;
+  /** The session ID. */
+  sessionId: string;
+  /** The filename of the artifact. */
+  filename: string;
+  /** The content of the artifact to save. */
+  content: ArtifactContentSource;
+  /** The mime type of the content. */
+  mimeType: string;
+  /**
+   * The custom metadata to store with the saved version. Must be JSON
+   * serializable.
+   */
+  customMetadata?: Record<string, unknown>;
+}
+
+/**
+ * The parameters for `loadArtifactStream`.
+ */
+export interface LoadArtifactStreamRequest {
+  /** The app name. */
+  appName: string;
+  /** The user ID. */
+  userId: string;
+  /** The session ID. */
+  sessionId: string;
+  /** The filename of the artifact. */
+  filename: string;
+  /**
+   * The version of the artifact to load. If not provided, the latest version
+   * of the artifact is loaded.
+   */
+  version?: number;
+  /** The offset of the first byte to load. Defaults to 0. */
+  start?: number;
+  /**
+   * The offset after the last byte to load. Defaults to the size of the
+   * artifact.
+   */
+  end?: number;
+}
+
+/**
+ * A streamed version of an artifact.
+ */
+export interface ArtifactStream {
+  /** The record of the loaded version. */
+  artifactVersion: ArtifactVersion;
+  /** The bytes of the requested range of the version. */
+  content: ReadableStream<Uint8Array>;
+}
+
+/**
+ * The record of a saved version of an artifact.
+ */
+export interface ArtifactVersion {
+  /** The version of the artifact. */
+  version: number;
+  /** The time the version was saved, in milliseconds since the epoch. */
+  createTime: number;
+  /** The mime type of the version, `text/plain` for the text artifacts. */
+  mimeType: string;
+  /** The size of the content of the version, in bytes. */
+  sizeBytes: number;
+  /** The URI identifying the version in the artifact service storage. */
+  canonicalUri: string;
+  /** The custom metadata the version was saved with. */
+  customMetadata?: Record<string, unknown>;
+}
+
 /**
  *  Interface for artifact services.
  */
@@ -135,4 +257,46 @@ export interface BaseArtifactService {
    *     artifact.
    */
   listVersions(request: ListVersionsRequest): Promise<number[]>;
+
+  /**
+   * Gets the record of a version of an artifact, without loading its content.
+   *
+   * @param request The request to get an artifact version.
+   * @return A promise that resolves to the version record or undefined if not
+   *     found.
+   */
+  getArtifactVersion(request: GetArtifactVersionRequest):
+      Promise<ArtifactVersion|undefined>;
+
+  /**
+   * Lists the records of all versions of an artifact.
+   *
+   * @param request The request to list artifact versions.
+   * @return A promise that resolves to the version records, ordered by
+   *     version.
+   */
+  listArtifactVersions(request: ListArtifactVersionsRequest):
+      Promise<ArtifactVersion[]>;
+
+  /**
+   * Saves an artifact from a stream of bytes, without holding the whole
+   * content in memory when the storage supports it.
+   *
+   * @param request The request to save an artifact stream.
+   * @return A promise that resolves to the revision ID of the saved version.
+   */
+  saveArtifactStream(request: SaveArtifactStreamRequest): Promise<number>;
+
+  /**
+   * Loads a byte range of an artifact as a stream.
+   *
+   * The text artifacts are streamed as UTF-8 bytes and the inline data
+   * artifacts as their decoded bytes.
+   *
+   * @param request The request to load an artifact stream.
+   * @return A promise that resolves to the streamed artifact or undefined if
+   *     not found.
+   */
+  loadArtifactStream(request: LoadArtifactStreamRequest):
+      Promise<ArtifactStream|undefined>;
 }
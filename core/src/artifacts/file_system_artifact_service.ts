@@ -0,0 +1,291 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {createPartFromBase64, createPartFromText, Part} from '@google/genai';
+import {createReadStream, createWriteStream} from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {Readable} from 'stream';
+import {pipeline} from 'stream/promises';
+import {pathToFileURL} from 'url';
+
+import {randomUUID} from '../utils/env_aware_utils.js';
+import {withFileLock} from '../utils/file_lock.js';
+import {decodePathSegment, encodePathSegment, readDirIfExists, readJsonFile, writeJsonFile} from '../utils/fs_utils.js';
+
+import {readArtifactContent, resolveByteRange, toReadableStream} from './artifact_util.js';
+import {ArtifactStream, ArtifactVersion, BaseArtifactService, DeleteArtifactRequest, GetArtifactVersionRequest, ListArtifactKeysRequest, ListArtifactVersionsRequest, ListVersionsRequest, LoadArtifactRequest, LoadArtifactStreamRequest, SaveArtifactRequest, SaveArtifactStreamRequest} from './base_artifact_service.js';
+
+const LOCK_FILE_SUFFIX = '.lock';
+const METADATA_FILE = 'metadata.json';
+const VERSIONS_DIR = 'versions';
+const DEFAULT_MIME_TYPE = 'application/octet-stream';
+
+/**
+ * The metadata of a version of an artifact stored in the metadata file.
+ */
+interface VersionMetadata {
+  /** The mime type of the version, not set for the text artifacts. */
+  mimeType?: string;
+  /** The time the version was saved, in milliseconds since the epoch. */
+  createTime: number;
+  /** The size of the version file, in bytes. */
+  sizeBytes: number;
+  /** The custom metadata the version was saved with. */
+  customMetadata?: Record<string, unknown>;
+}
+
+/**
+ * The metadata of an artifact stored in the metadata file.
+ */
+interface ArtifactMetadata {
+  /** A map from the version to the metadata of the version. */
+  versions: Record<string, VersionMetadata>;
+}
+
+/**
+ * An artifact service that stores versioned artifacts on the local file
+ * system.
+ *
+ * The files are laid out under the root directory as:
+ *
+ *   <appName>/users/<userId>/artifacts/<filename>/...
+ *   <appName>/users/<userId>/sessions/<sessionId>/artifacts/<filename>/...
+ *
+ * The first path is used for the `user:` prefixed filenames, which are shared
+ * by all the sessions of the user. Each artifact directory contains one file
+ * per version, in `versions/<version>`, with the raw content of the version,
+ * and a `metadata.json` file with the mime type, creation time, size and
+ * custom metadata of each version. The layout matches
+ * `FileSystemSessionService`, so both can share the same root directory.
+ */
+export class FileSystemArtifactService implements BaseArtifactService {
+  /**
+   * @param rootDir The directory to store the artifacts in.
+   */
+  constructor(private readonly rootDir: string) {}
+
+  async saveArtifact(request: SaveArtifactRequest): Promise<number> {
+    const {artifact} = request;
+    let data: string|Uint8Array;
+    let mimeType: string|undefined;
+    if (artifact.inlineData) {
+      data = Buffer.from(artifact.inlineData.data ?? '', 'base64');
+      mimeType = artifact.inlineData.mimeType || DEFAULT_MIME_TYPE;
+    } else if (artifact.text !== undefined) {
+      data = artifact.text;
+    } else {
+      throw new Error('Artifact must have either inlineData or text.');
+    }
+
+    return this.saveVersion(request, mimeType, async (versionFile) => {
+      await fs.writeFile(versionFile, data);
+    });
+  }
+
+  async saveArtifactStream({content, mimeType, ...request}:
+                               SaveArtifactStreamRequest): Promise<number> {
+    return this.saveVersion(request, mimeType, async (versionFile) => {
+      await pipeline(
+          Readable.from(readArtifactContent(content)),
+          createWriteStream(versionFile));
+    });
+  }
+
+  async loadArtifact(request: LoadArtifactRequest): Promise<Part|undefined> {
+    const artifactDir = this.getArtifactDir(request);
+    const metadata = await readMetadata(artifactDir);
+    if (!metadata) {
+      return undefined;
+    }
+
+    let version = request.version;
+    if (version === undefined) {
+      const versions = Object.keys(metadata.versions).map(Number);
+      if (versions.length === 0) {
+        return undefined;
+      }
+      version = Math.max(...versions);
+    }
+    const versionMetadata = metadata.versions[version];
+    if (!versionMetadata) {
+      return undefined;
+    }
+
+    const data =
+        await fs.readFile(path.join(artifactDir, VERSIONS_DIR, String(version)));
+    if (versionMetadata.mimeType === undefined) {
+      return createPartFromText(data.toString('utf-8'));
+    }
+
+    return createPartFromBase64(
+        data.toString('base64'), versionMetadata.mimeType);
+  }
+
+  async listArtifactKeys({appName, userId, sessionId}:
+                             ListArtifactKeysRequest): Promise<string[]> {
+    const filenames: string[] = [];
+    for (const artifactsDir of [
+             path.join(
+                 this.getUserDir(appName, userId), 'sessions',
+                 encodePathSegment(sessionId), 'artifacts'),
+             path.join(this.getUserDir(appName, userId), 'artifacts'),
+    ]) {
+      for (const entry of await readDirIfExists(artifactsDir)) {
+        if (entry.endsWith(LOCK_FILE_SUFFIX) ||
+            !await readMetadata(path.join(artifactsDir, entry))) {
+          continue;
+        }
+        filenames.push(decodePathSegment(entry));
+      }
+    }
+
+    return filenames.sort();
+  }
+
+  async deleteArtifact(request: DeleteArtifactRequest): Promise<void> {
+    const artifactDir = this.getArtifactDir(request);
+    if (!await readMetadata(artifactDir)) {
+      return;
+    }
+
+    await withFileLock(artifactDir + LOCK_FILE_SUFFIX, async () => {
+      await fs.rm(artifactDir, {recursive: true, force: true});
+    });
+  }
+
+  async listVersions(request: ListVersionsRequest): Promise<number[]> {
+    const metadata = await readMetadata(this.getArtifactDir(request));
+    if (!metadata) {
+      return [];
+    }
+
+    return Object.keys(metadata.versions).map(Number).sort((a, b) => a - b);
+  }
+
+  async getArtifactVersion(request: GetArtifactVersionRequest):
+      Promise<ArtifactVersion|undefined> {
+    const versions = await this.listArtifactVersions(request);
+    if (request.version === undefined) {
+      return versions[versions.length - 1];
+    }
+
+    return versions.find(({version}) => version === request.version);
+  }
+
+  async listArtifactVersions(request: ListArtifactVersionsRequest):
+      Promise<ArtifactVersion[]> {
+    const artifactDir = this.getArtifactDir(request);
+    const metadata = await readMetadata(artifactDir);
+    if (!metadata) {
+      return [];
+    }
+
+    return Object.entries(metadata.versions)
+        .map(([version, versionMetadata]) => ({
+               version: Number(version),
+               createTime: versionMetadata.createTime,
+               mimeType: versionMetadata.mimeType ?? 'text/plain',
+               sizeBytes: versionMetadata.sizeBytes,
+               canonicalUri:
+                   pathToFileURL(path.join(artifactDir, VERSIONS_DIR, version))
+                       .href,
+               customMetadata: versionMetadata.customMetadata,
+             }))
+        .sort((a, b) => a.version - b.version);
+  }
+
+  async loadArtifactStream(request: LoadArtifactStreamRequest):
+      Promise<ArtifactStream|undefined> {
+    const artifactVersion = await this.getArtifactVersion(request);
+    if (!artifactVersion) {
+      return undefined;
+    }
+
+    const {start, end} = resolveByteRange(
+        artifactVersion.sizeBytes, request.start, request.end);
+    const versionFile = path.join(
+        this.getArtifactDir(request), VERSIONS_DIR,
+        String(artifactVersion.version));
+
+    return {
+      artifactVersion,
+      content: toReadableStream(
+          start < end ? createReadStream(versionFile, {start, end: end - 1}) :
+                        []),
+    };
+  }
+
+  /**
+   * Saves a new version of an artifact.
+   *
+   * The content is written to a temporary file before taking the lock of the
+   * artifact, so that a slow upload does not block the other saves.
+   *
+   * @param request The artifact to save the version of.
+   * @param mimeType The mime type of the version, undefined for the text
+   *     artifacts.
+   * @param writeContent Writes the content of the version to the given file.
+   * @return The saved version.
+   */
+  private async saveVersion(
+      request: Omit<SaveArtifactRequest, 'artifact'>,
+      mimeType: string|undefined,
+      writeContent: (versionFile: string) => Promise<void>,
+      ): Promise<number> {
+    const artifactDir = this.getArtifactDir(request);
+    const versionsDir = path.join(artifactDir, VERSIONS_DIR);
+    await fs.mkdir(versionsDir, {recursive: true});
+
+    const tempFile = path.join(versionsDir, `.${randomUUID()}.tmp`);
+    try {
+      await writeContent(tempFile);
+      const {size} = await fs.stat(tempFile);
+
+      return await withFileLock(artifactDir + LOCK_FILE_SUFFIX, async () => {
+        const metadata = await readMetadata(artifactDir) ?? {versions: {}};
+        const versions = Object.keys(metadata.versions).map(Number);
+        const version = versions.length > 0 ? Math.max(...versions) + 1 : 0;
+
+        await fs.rename(tempFile, path.join(versionsDir, String(version)));
+        metadata.versions[version] = {
+          mimeType,
+          createTime: Date.now(),
+          sizeBytes: size,
+          customMetadata: request.customMetadata,
+        };
+        await writeJsonFile(path.join(artifactDir, METADATA_FILE), metadata);
+
+        return version;
+      });
+    } finally {
+      await fs.rm(tempFile, {force: true});
+    }
+  }
+
+  private getUserDir(appName: string, userId: string): string {
+    return path.join(
+        this.rootDir, encodePathSegment(appName), 'users',
+        encodePathSegment(userId));
+  }
+
+  private getArtifactDir({appName, userId, sessionId, filename}:
+                             ListVersionsRequest): string {
+    const userDir = this.getUserDir(appName, userId);
+    if (filename.startsWith('user:')) {
+      return path.join(userDir, 'artifacts', encodePathSegment(filename));
+    }
+
+    return path.join(
+        userDir, 'sessions', encodePathSegment(sessionId), 'artifacts',
+        encodePathSegment(filename));
+  }
+}
+
+function readMetadata(artifactDir: string):
+    Promise<ArtifactMetadata|undefined> {
+  return readJsonFile<ArtifactMetadata>(path.join(artifactDir, METADATA_FILE));
+}
@@ -4,10 +4,19 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import {Bucket, Storage} from '@google-cloud/storage';
+import {Bucket, FileMetadata, Storage} from '@google-cloud/storage';
 import {createPartFromBase64, createPartFromText, Part} from '@google/genai';
+import {Readable} from 'stream';
+import {pipeline} from 'stream/promises';
 
-import {BaseArtifactService, DeleteArtifactRequest, ListArtifactKeysRequest, ListVersionsRequest, LoadArtifactRequest, SaveArtifactRequest} from './base_artifact_service.js';
+import {readArtifactContent, resolveByteRange, toReadableStream} from './artifact_util.js';
+import {ArtifactStream, ArtifactVersion, BaseArtifactService, DeleteArtifactRequest, GetArtifactVersionRequest, ListArtifactKeysRequest, ListArtifactVersionsRequest, ListVersionsRequest, LoadArtifactRequest, LoadArtifactStreamRequest, SaveArtifactRequest, SaveArtifactStreamRequest} from './base_artifact_service.js';
+
+/**
+ * The key of the object metadata storing the custom metadata of the artifact
+ * versions, as JSON.
+ */
+const CUSTOM_METADATA_KEY = 'adkCustomMetadata';
 
 export class GcsArtifactService implements BaseArtifactService {
   private readonly bucket: Bucket;
@@ -23,10 +32,14 @@ export class GcsArtifactService implements BaseArtifactService {
       ...request,
       version,
     }));
+    const metadata = toFileMetadata(request.customMetadata);
 
     if (request.artifact.inlineData) {
-      await file.save(JSON.stringify(request.artifact.inlineData.data), {
+      const data =
+          Buffer.from(request.artifact.inlineData.data ?? '', 'base64');
+      await file.save(data, {
         contentType: request.artifact.inlineData.mimeType,
+        metadata,
       });
 
       return version;
@@ -35,6 +48,7 @@ export class GcsArtifactService implements BaseArtifactService {
     if (request.artifact.text) {
       await file.save(request.artifact.text, {
         contentType: 'text/plain',
+        metadata,
       });
 
       return version;
@@ -110,7 +124,7 @@ export class GcsArtifactService implements BaseArtifactService {
   }
 
   async listVersions(request: ListVersionsRequest): Promise<number[]> {
-    const prefix = getFileName(request);
+    const prefix = getArtifactPrefix(request);
     const [files] = await this.bucket.getFiles({prefix});
     const versions = [];
     for (const file of files) {
@@ -120,6 +134,101 @@ export class GcsArtifactService implements BaseArtifactService {
 
     return versions
   }
+
+  async getArtifactVersion(request: GetArtifactVersionRequest):
+      Promise<ArtifactVersion|undefined> {
+    if (request.version === undefined) {
+      const versions = await this.listArtifactVersions(request);
+
+      return versions[versions.length - 1];
+    }
+
+    const file = this.bucket.file(getFileName(request));
+    const [exists] = await file.exists();
+    if (!exists) {
+      return undefined;
+    }
+    const [metadata] = await file.getMetadata();
+
+    return this.toArtifactVersion(file.name, metadata);
+  }
+
+  async listArtifactVersions(request: ListArtifactVersionsRequest):
+      Promise<ArtifactVersion[]> {
+    const [files] =
+        await this.bucket.getFiles({prefix: getArtifactPrefix(request)});
+
+    return files.map(file => this.toArtifactVersion(file.name, file.metadata))
+        .sort((a, b) => a.version - b.version);
+  }
+
+  async saveArtifactStream({content, mimeType, ...request}:
+                               SaveArtifactStreamRequest): Promise<number> {
+    const versions = await this.listVersions(request);
+    const version = versions.length > 0 ? Math.max(...versions) + 1 : 0;
+    const file = this.bucket.file(getFileName({
+      ...request,
+      version,
+    }));
+
+    await pipeline(
+        Readable.from(readArtifactContent(content)),
+        file.createWriteStream({
+          contentType: mimeType,
+          metadata: toFileMetadata(request.customMetadata),
+        }));
+
+    return version;
+  }
+
+  async loadArtifactStream(request: LoadArtifactStreamRequest):
+      Promise<ArtifactStream|undefined> {
+    const artifactVersion = await this.getArtifactVersion(request);
+    if (!artifactVersion) {
+      return undefined;
+    }
+
+    const {start, end} = resolveByteRange(
+        artifactVersion.sizeBytes, request.start, request.end);
+    const file = this.bucket.file(getFileName({
+      ...request,
+      version: artifactVersion.version,
+    }));
+
+    return {
+      artifactVersion,
+      content: toReadableStream(
+          start < end ? file.createReadStream({start, end: end - 1}) : []),
+    };
+  }
+
+  /**
+   * Converts the loaded metadata of a version file to the version record.
+   */
+  private toArtifactVersion(fileName: string, fileMetadata: FileMetadata):
+      ArtifactVersion {
+    const {timeCreated, contentType, size, metadata} = fileMetadata;
+    const customMetadata = metadata?.[CUSTOM_METADATA_KEY];
+
+    return {
+      version: parseInt(fileName.split('/').pop()!, 10),
+      createTime: timeCreated ? Date.parse(timeCreated) : 0,
+      mimeType: contentType ?? 'application/octet-stream',
+      sizeBytes: Number(size ?? 0),
+      canonicalUri: `gs://${this.bucket.name}/${fileName}`,
+      customMetadata: typeof customMetadata === 'string' ?
+          JSON.parse(customMetadata) :
+          undefined,
+    };
+  }
+}
+
+function toFileMetadata(customMetadata?: Record<string, unknown>):
+    FileMetadata {
+  return {
+    metadata: customMetadata &&
+        {[CUSTOM_METADATA_KEY]: JSON.stringify(customMetadata)},
+  };
 }
 
 function getFileName({
@@ -134,3 +243,15 @@ function getFileName({
   }
   return `${appName}/${userId}/${sessionId}/${filename}/${version}`;
 }
+
+function getArtifactPrefix({
+  appName,
+  userId,
+  sessionId,
+  filename,
+}: ListVersionsRequest): string {
+  if (filename.startsWith('user:')) {
+    return `${appName}/${userId}/user/${filename}/`;
+  }
+  return `${appName}/${userId}/${sessionId}/${filename}/`;
+}
@@ -6,13 +6,24 @@
 
 import {Part} from '@google/genai';
 
-import {BaseArtifactService, DeleteArtifactRequest, ListArtifactKeysRequest, ListVersionsRequest, LoadArtifactRequest, SaveArtifactRequest,} from './base_artifact_service.js';
+import {bytesToBase64} from '../utils/env_aware_utils.js';
+
+import {getArtifactBytes, getArtifactSize, readArtifactContent, resolveByteRange, toReadableStream} from './artifact_util.js';
+import {ArtifactStream, ArtifactVersion, BaseArtifactService, DeleteArtifactRequest, GetArtifactVersionRequest, ListArtifactKeysRequest, ListArtifactVersionsRequest, ListVersionsRequest, LoadArtifactRequest, LoadArtifactStreamRequest, SaveArtifactRequest, SaveArtifactStreamRequest,} from './base_artifact_service.js';
+
+/**
+ * A saved version of an artifact, with its record.
+ */
+interface StoredArtifactVersion {
+  artifact: Part;
+  record: ArtifactVersion;
+}
 
 /**
  * An in-memory implementation of the ArtifactService.
  */
 export class InMemoryArtifactService implements BaseArtifactService {
-  private readonly artifacts: Record<string, Part[]> = {};
+  private readonly artifacts: Record<string, StoredArtifactVersion[]> = {};
 
   saveArtifact({
     appName,
@@ -20,6 +31,7 @@ export class InMemoryArtifactService implements BaseArtifactService {
     sessionId,
     filename,
     artifact,
+    customMetadata,
   }: SaveArtifactRequest): Promise<number> {
     const path = artifactPath(appName, userId, sessionId, filename);
 
@@ -28,7 +40,17 @@ export class InMemoryArtifactService implements BaseArtifactService {
     }
 
     const version = this.artifacts[path].length;
-    this.artifacts[path].push(artifact);
+    this.artifacts[path].push({
+      artifact,
+      record: {
+        version,
+        createTime: Date.now(),
+        mimeType: artifact.inlineData?.mimeType ?? 'text/plain',
+        sizeBytes: getArtifactSize(artifact),
+        canonicalUri: `memory://${path}/${version}`,
+        customMetadata,
+      },
+    });
 
     return Promise.resolve(version);
   }
@@ -51,7 +73,7 @@ export class InMemoryArtifactService implements BaseArtifactService {
       version = versions.length - 1;
     }
 
-    return Promise.resolve(versions[version]);
+    return Promise.resolve(versions[version]?.artifact);
   }
 
   listArtifactKeys({appName, userId, sessionId}: ListArtifactKeysRequest):
@@ -100,6 +122,88 @@ export class InMemoryArtifactService implements BaseArtifactService {
 
     return Promise.resolve(versions);
   }
+
+  getArtifactVersion({
+    appName,
+    userId,
+    sessionId,
+    filename,
+    version,
+  }: GetArtifactVersionRequest): Promise<ArtifactVersion|undefined> {
+    const path = artifactPath(appName, userId, sessionId, filename);
+    const versions = this.artifacts[path];
+
+    if (!versions) {
+      return Promise.resolve(undefined);
+    }
+
+    if (version === undefined) {
+      version = versions.length - 1;
+    }
+
+    return Promise.resolve(versions[version]?.record);
+  }
+
+  listArtifactVersions({
+    appName,
+    userId,
+    sessionId,
+    filename,
+  }: ListArtifactVersionsRequest): Promise<ArtifactVersion[]> {
+    const path = artifactPath(appName, userId, sessionId, filename);
+    const versions = this.artifacts[path] ?? [];
+
+    return Promise.resolve(versions.map(({record}) => record));
+  }
+
+  async saveArtifactStream({content, mimeType, ...request}:
+                               SaveArtifactStreamRequest): Promise<number> {
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    for await (const chunk of readArtifactContent(content)) {
+      chunks.push(chunk);
+      size += chunk.length;
+    }
+
+    const data = new Uint8Array(size);
+    let offset = 0;
+    for (const chunk of chunks) {
+      data.set(chunk, offset);
+      offset += chunk.length;
+    }
+
+    return this.saveArtifact({
+      ...request,
+      artifact: {inlineData: {mimeType, data: bytesToBase64(data)}},
+    });
+  }
+
+  loadArtifactStream({
+    appName,
+    userId,
+    sessionId,
+    filename,
+    version,
+    start,
+    end,
+  }: LoadArtifactStreamRequest): Promise<ArtifactStream|undefined> {
+    const path = artifactPath(appName, userId, sessionId, filename);
+    const versions = this.artifacts[path];
+    const storedVersion =
+        versions?.[version === undefined ? versions.length - 1 : version];
+
+    if (!storedVersion) {
+      return Promise.resolve(undefined);
+    }
+
+    const data = getArtifactBytes(storedVersion.artifact);
+    const range = resolveByteRange(data.length, start, end);
+
+    return Promise.resolve({
+      artifactVersion: storedVersion.record,
+      content: toReadableStream([data.subarray(range.start, range.end)]),
+    });
+  }
 }
 
 /**
@@ -32,6 +32,11 @@ export abstract class BaseCodeExecutor {
    */
   optimizeDataFile = false;
 
+  /**
+   * The language of the executed code. Undefined means Python.
+   */
+  readonly language?: string;
+
   /**
    * Whether the code executor is stateful. Default to false.
    */
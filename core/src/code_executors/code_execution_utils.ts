@@ -130,7 +130,7 @@ export function extractCodeAndTruncateContent(
       codeBlockDelimiters.map((d) => d[1]).join('|');
   const match =
       new RegExp(
-          `?<prefix>.*?)(${leadingDelimiterPattern})(?<codeStr>.*?)(${
+          `(?<prefix>.*?)(${leadingDelimiterPattern})(?<codeStr>.*?)(${
               trailingDelimiterPattern})(?<suffix>.*?)$`,
           's').exec(responseText) as unknown as CodeGroupMatch |
       null;
@@ -160,7 +160,6 @@ export function extractCodeAndTruncateContent(
  */
 export function buildExecutableCodePart(code: string): Part {
   return {
-    text: code,
     executableCode: {
       code,
       language: Language.PYTHON,
@@ -179,27 +178,27 @@ export function buildCodeExecutionResultPart(
     ): Part {
   if (codeExecutionResult.stderr) {
     return {
-      text: codeExecutionResult.stderr,
       codeExecutionResult: {
         outcome: Outcome.OUTCOME_FAILED,
+        output: codeExecutionResult.stderr,
       },
     };
   }
 
   const finalResult = [];
-  if (codeExecutionResult.stdout || !codeExecutionResult.outputFiles) {
+  if (codeExecutionResult.stdout || !codeExecutionResult.outputFiles.length) {
     finalResult.push(`Code execution result:\n${codeExecutionResult.stdout}\n`);
   }
-  if (codeExecutionResult.outputFiles) {
+  if (codeExecutionResult.outputFiles.length) {
     finalResult.push(
         `Saved artifacts:\n` +
         codeExecutionResult.outputFiles.map(f => f.name).join(', '));
   }
 
   return {
-    text: finalResult.join('\n\n'),
     codeExecutionResult: {
       outcome: Outcome.OUTCOME_OK,
+      output: finalResult.join('\n\n'),
     },
   };
 }
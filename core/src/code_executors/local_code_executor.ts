@@ -0,0 +1,520 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {ChildProcess, spawn} from 'node:child_process';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {Readable} from 'node:stream';
+
+import {logger} from '../utils/logger.js';
+
+import {BaseCodeExecutor, ExecuteCodeParams} from './base_code_executor.js';
+import {CodeExecutionResult, File} from './code_execution_utils.js';
+
+/**
+ * The languages supported by the LocalCodeExecutor.
+ */
+export type LocalCodeExecutorLanguage = 'javascript'|'python';
+
+/**
+ * The parameters for creating a LocalCodeExecutor.
+ */
+export interface LocalCodeExecutorParams {
+  /**
+   * The language of the code to execute. Defaults to 'python'.
+   */
+  language?: LocalCodeExecutorLanguage;
+  /**
+   * The maximum time in milliseconds a code block may run. Defaults to 30
+   * seconds.
+   */
+  timeoutMs?: number;
+  /**
+   * The maximum memory in megabytes the runtime may use. Defaults to 1024.
+   */
+  maxMemoryMb?: number;
+  /**
+   * The Python interpreter to use. Defaults to 'python3'.
+   */
+  pythonPath?: string;
+  /**
+   * Whether the variables of a code block are kept for the next code blocks of
+   * the same session. Defaults to false.
+   */
+  stateful?: boolean;
+  /**
+   * The number of attempts to retry on consecutive code execution errors.
+   * Defaults to 2.
+   */
+  errorRetryAttempts?: number;
+  /**
+   * The enclosing delimiters to identify the code blocks. Defaults to the
+   * delimiters of the language.
+   */
+  codeBlockDelimiters?: Array<[string, string]>;
+  /**
+   * Whether to extract the data files of the model request and attach them to
+   * the code executor. Defaults to false.
+   */
+  optimizeDataFile?: boolean;
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_MAX_MEMORY_MB = 1024;
+
+const JAVASCRIPT_CODE_BLOCK_DELIMITERS: Array<[string, string]> = [
+  ['```tool_code\n', '\n```'],
+  ['```javascript\n', '\n```'],
+  ['```js\n', '\n```'],
+];
+
+const MIME_TYPES: Record<string, string> = {
+  '.csv': 'text/csv',
+  '.gif': 'image/gif',
+  '.html': 'text/html',
+  '.jpeg': 'image/jpeg',
+  '.jpg': 'image/jpeg',
+  '.json': 'application/json',
+  '.md': 'text/markdown',
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.svg': 'image/svg+xml',
+  '.txt': 'text/plain',
+};
+
+/**
+ * The Python program running the code blocks sent on stdin, one JSON request
+ * per line, in a shared namespace. The results are written to fd 3 so that
+ * the output of the code cannot be mistaken for them.
+ */
+const PYTHON_DRIVER = `
+import contextlib, io, json, os, sys, traceback
+
+try:
+  import resource
+  limit = int(sys.argv[1])
+  if limit > 0:
+    resource.setrlimit(resource.RLIMIT_AS, (limit, limit))
+except (ImportError, ValueError, OSError):
+  pass
+
+results = os.fdopen(3, 'w')
+namespace = {'__name__': '__main__'}
+for line in sys.stdin:
+  code = json.loads(line)['code']
+  stdout, stderr = io.StringIO(), io.StringIO()
+  with contextlib.redirect_stdout(stdout), contextlib.redirect_stderr(stderr):
+    try:
+      exec(compile(code, '<code>', 'exec'), namespace)
+    except BaseException:
+      traceback.print_exc()
+  results.write(json.dumps(
+      {'stdout': stdout.getvalue(), 'stderr': stderr.getvalue()}) + '\\n')
+  results.flush()
+`;
+
+/**
+ * The Node.js program running the code blocks sent on stdin, one JSON request
+ * per line, in a shared vm context. The results are written to fd 3, like the
+ * Python driver. The context exposes `console` and the `readFile`,
+ * `writeFile` and `listFiles` helpers, which are restricted to the working
+ * directory.
+ */
+const JAVASCRIPT_DRIVER = `
+const fs = require('node:fs');
+const path = require('node:path');
+const readline = require('node:readline');
+const util = require('node:util');
+const vm = require('node:vm');
+
+const workingDir = process.cwd();
+let stdout = [];
+let stderr = [];
+
+function format(args) {
+  return args.map((arg) => typeof arg === 'string' ? arg : util.inspect(arg))
+      .join(' ') + '\\n';
+}
+
+function resolve(name) {
+  const filePath = path.resolve(workingDir, name);
+  if (!filePath.startsWith(workingDir + path.sep)) {
+    throw new Error('Access denied: ' + name);
+  }
+  return filePath;
+}
+
+const context = vm.createContext({
+  console: {
+    log: (...args) => stdout.push(format(args)),
+    info: (...args) => stdout.push(format(args)),
+    debug: (...args) => stdout.push(format(args)),
+    warn: (...args) => stderr.push(format(args)),
+    error: (...args) => stderr.push(format(args)),
+  },
+  readFile: (name) => fs.readFileSync(resolve(name), 'utf8'),
+  writeFile: (name, data) => {
+    const filePath = resolve(name);
+    fs.mkdirSync(path.dirname(filePath), {recursive: true});
+    fs.writeFileSync(filePath, data);
+  },
+  listFiles: () => fs.readdirSync(workingDir),
+  setTimeout,
+  clearTimeout,
+});
+
+(async () => {
+  for await (const line of readline.createInterface({input: process.stdin})) {
+    const {code} = JSON.parse(line);
+    stdout = [];
+    stderr = [];
+    try {
+      const result = vm.runInContext(code, context, {filename: 'code.js'});
+      if (result && typeof result.then === 'function') {
+        await result;
+      }
+    } catch (e) {
+      stderr.push(format([e && e.stack ? e.stack : String(e)]));
+    }
+    fs.writeSync(3, JSON.stringify(
+        {stdout: stdout.join(''), stderr: stderr.join('')}) + '\\n');
+  }
+})();
+`;
+
+/**
+ * The output of a code block run by a runtime.
+ */
+interface RuntimeOutput {
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * A process or thread running the code blocks of one or more executions.
+ */
+abstract class CodeRuntime {
+  private pending?: {
+    resolve: (output: RuntimeOutput) => void,
+    reject: (error: Error) => void,
+  };
+  private exitError?: Error;
+
+  constructor(readonly workingDir: string) {}
+
+  /**
+   * Runs the code and resolves with its output once it completes.
+   *
+   * @param code The code to run.
+   * @param timeoutMs The maximum time the code may run. On timeout, the
+   *     runtime is closed and can no longer be used.
+   */
+  run(code: string, timeoutMs: number): Promise<RuntimeOutput> {
+    if (this.exitError) {
+      return Promise.reject(this.exitError);
+    }
+    if (this.pending) {
+      return Promise.reject(
+          new Error('The runtime is already running a code block.'));
+    }
+
+    return new Promise<RuntimeOutput>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.close();
+        this.fail(
+            new Error(`Code execution timed out after ${timeoutMs} ms.`));
+      }, timeoutMs);
+      this.pending = {
+        resolve: (output) => {
+          clearTimeout(timer);
+          resolve(output);
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      };
+      this.send(code);
+    });
+  }
+
+  /**
+   * Whether the runtime can still run code.
+   */
+  get isAlive(): boolean {
+    return !this.exitError;
+  }
+
+  /**
+   * Stops the runtime.
+   */
+  abstract close(): void;
+
+  protected abstract send(code: string): void;
+
+  protected complete(output: RuntimeOutput) {
+    const pending = this.pending;
+    this.pending = undefined;
+    pending?.resolve(output);
+  }
+
+  protected fail(error: Error) {
+    this.exitError ??= error;
+    const pending = this.pending;
+    this.pending = undefined;
+    pending?.reject(error);
+  }
+}
+
+/**
+ * Runs the code blocks in a subprocess, which reads them on stdin and writes
+ * their output to fd 3.
+ */
+class ProcessRuntime extends CodeRuntime {
+  private readonly process: ChildProcess;
+  private processStderr = '';
+
+  /**
+   * @param workingDir The working directory of the process.
+   * @param runtimeName The name of the runtime, used in the error messages.
+   * @param command The command running the driver program.
+   * @param args The arguments of the command.
+   */
+  constructor(
+      workingDir: string, runtimeName: string, command: string,
+      args: string[]) {
+    super(workingDir);
+    this.process = spawn(
+        command,
+        args,
+        {cwd: workingDir, stdio: ['pipe', 'pipe', 'pipe', 'pipe']},
+    );
+
+    let buffer = '';
+    const results = this.process.stdio[3] as Readable;
+    results.setEncoding('utf8');
+    results.on('data', (chunk: string) => {
+      buffer += chunk;
+      let newlineIndex = buffer.indexOf('\n');
+      while (newlineIndex !== -1) {
+        const line = buffer.substring(0, newlineIndex);
+        buffer = buffer.substring(newlineIndex + 1);
+        let output: RuntimeOutput;
+        try {
+          output = JSON.parse(line) as RuntimeOutput;
+        } catch {
+          // The results can no longer be matched to the code blocks.
+          this.close();
+          this.fail(new Error(`Invalid output of the ${runtimeName} runtime: ${
+              line.substring(0, 100)}`));
+          return;
+        }
+        this.complete(output);
+        newlineIndex = buffer.indexOf('\n');
+      }
+    });
+    this.process.stdout!.on('data', (chunk: Buffer) => {
+      logger.debug(`${runtimeName} runtime output:`, chunk.toString());
+    });
+    this.process.stderr!.on('data', (chunk: Buffer) => {
+      this.processStderr += chunk.toString();
+    });
+    this.process.stdin!.on('error', (error: Error) => {
+      this.fail(error);
+    });
+    this.process.on('error', (error: Error) => {
+      this.fail(new Error(`Failed to start ${command}: ${error.message}`));
+    });
+    this.process.on('exit', (code, signal) => {
+      this.fail(new Error(`The ${runtimeName} runtime exited with ${
+          signal ? `signal ${signal}` : `code ${code}`}.\n${
+          this.processStderr}`.trim()));
+    });
+  }
+
+  close() {
+    this.process.kill('SIGKILL');
+  }
+
+  protected send(code: string) {
+    this.process.stdin!.write(JSON.stringify({code}) + '\n');
+  }
+}
+
+/**
+ * Creates a runtime running Python code in a `python3` subprocess.
+ */
+function createPythonRuntime(
+    workingDir: string, pythonPath: string, maxMemoryMb: number): CodeRuntime {
+  return new ProcessRuntime(
+      workingDir, 'Python', pythonPath,
+      ['-u', '-c', PYTHON_DRIVER, String(maxMemoryMb * 1024 * 1024)]);
+}
+
+/**
+ * Creates a runtime running JavaScript code in a `node:vm` context within a
+ * Node.js subprocess, so that the code can not reach the agent process.
+ */
+function createJavaScriptRuntime(
+    workingDir: string, maxMemoryMb: number): CodeRuntime {
+  return new ProcessRuntime(
+      workingDir, 'JavaScript', process.execPath,
+      [`--max-old-space-size=${maxMemoryMb}`, '-e', JAVASCRIPT_DRIVER]);
+}
+
+/**
+ * A code executor that runs the code blocks on the local machine.
+ *
+ * Python code runs in a `python3` subprocess and JavaScript code runs in a
+ * `node:vm` context within a Node.js subprocess. Each execution gets a temporary
+ * working directory holding the input files; the files created or modified by
+ * the code are returned as output files. When stateful, the runtime and the
+ * working directory of an execution ID are kept until `close` is called.
+ *
+ * NOTE: the code is isolated from the agent, but the runtimes are not a
+ * security boundary. Only run trusted code, or run the agent in a sandbox.
+ */
+export class LocalCodeExecutor extends BaseCodeExecutor {
+  override readonly language: LocalCodeExecutorLanguage;
+  readonly timeoutMs: number;
+  readonly maxMemoryMb: number;
+  readonly pythonPath: string;
+  private readonly runtimes = new Map<string, CodeRuntime>();
+
+  constructor(params: LocalCodeExecutorParams = {}) {
+    super();
+    this.language = params.language ?? 'python';
+    this.timeoutMs = params.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.maxMemoryMb = params.maxMemoryMb ?? DEFAULT_MAX_MEMORY_MB;
+    this.pythonPath = params.pythonPath ?? 'python3';
+    this.stateful = params.stateful ?? false;
+    this.errorRetryAttempts = params.errorRetryAttempts ?? 2;
+    this.optimizeDataFile = params.optimizeDataFile ?? false;
+    if (params.codeBlockDelimiters) {
+      this.codeBlockDelimiters = params.codeBlockDelimiters;
+    } else if (this.language === 'javascript') {
+      this.codeBlockDelimiters = JAVASCRIPT_CODE_BLOCK_DELIMITERS;
+    }
+  }
+
+  async executeCode({codeExecutionInput}: ExecuteCodeParams):
+      Promise<CodeExecutionResult> {
+    const executionId =
+        this.stateful ? codeExecutionInput.executionId : undefined;
+    const runtime = await this.getOrCreateRuntime(executionId);
+
+    try {
+      await writeInputFiles(runtime.workingDir, codeExecutionInput.inputFiles);
+      const snapshot = await snapshotFiles(runtime.workingDir);
+
+      let output: RuntimeOutput;
+      try {
+        output = await runtime.run(codeExecutionInput.code, this.timeoutMs);
+      } catch (e: unknown) {
+        output = {stdout: '', stderr: (e as Error).message};
+      }
+
+      return {
+        stdout: output.stdout,
+        stderr: output.stderr,
+        outputFiles: await collectOutputFiles(runtime.workingDir, snapshot),
+      };
+    } finally {
+      if (!executionId || !runtime.isAlive) {
+        await this.closeRuntime(runtime, executionId);
+      }
+    }
+  }
+
+  /**
+   * Stops the runtimes of the stateful executions and removes their working
+   * directories.
+   */
+  async close(): Promise<void> {
+    for (const [executionId, runtime] of this.runtimes) {
+      await this.closeRuntime(runtime, executionId);
+    }
+  }
+
+  private async getOrCreateRuntime(executionId?: string):
+      Promise<CodeRuntime> {
+    const existingRuntime =
+        executionId ? this.runtimes.get(executionId) : undefined;
+    if (existingRuntime) {
+      return existingRuntime;
+    }
+
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'adk-code-'));
+    const workingDir = await fs.realpath(tempDir);
+    const runtime = this.language === 'javascript' ?
+        createJavaScriptRuntime(workingDir, this.maxMemoryMb) :
+        createPythonRuntime(workingDir, this.pythonPath, this.maxMemoryMb);
+    if (executionId) {
+      this.runtimes.set(executionId, runtime);
+    }
+    return runtime;
+  }
+
+  private async closeRuntime(runtime: CodeRuntime, executionId?: string) {
+    if (executionId) {
+      this.runtimes.delete(executionId);
+    }
+    runtime.close();
+    await fs.rm(runtime.workingDir, {recursive: true, force: true});
+  }
+}
+
+/**
+ * Writes the base64-encoded input files to the working directory.
+ */
+async function writeInputFiles(workingDir: string, inputFiles: File[]) {
+  for (const file of inputFiles) {
+    const filePath = path.resolve(workingDir, file.name);
+    if (!filePath.startsWith(workingDir + path.sep)) {
+      throw new Error(`Invalid input file name: ${file.name}`);
+    }
+    await fs.mkdir(path.dirname(filePath), {recursive: true});
+    await fs.writeFile(filePath, Buffer.from(file.content, 'base64'));
+  }
+}
+
+/**
+ * Takes a snapshot of the modification state of the files of the directory,
+ * keyed by their paths relative to the directory.
+ */
+async function snapshotFiles(dir: string): Promise<Map<string, string>> {
+  const snapshot = new Map<string, string>();
+  for (const name of await fs.readdir(dir, {recursive: true})) {
+    const stat = await fs.stat(path.join(dir, name));
+    if (stat.isFile()) {
+      snapshot.set(name, `${stat.mtimeMs}:${stat.size}`);
+    }
+  }
+  return snapshot;
+}
+
+/**
+ * Collects the files created or modified since the snapshot was taken.
+ */
+async function collectOutputFiles(
+    dir: string, snapshot: Map<string, string>): Promise<File[]> {
+  const currentSnapshot = await snapshotFiles(dir);
+  const outputFiles: File[] = [];
+  for (const [name, state] of currentSnapshot) {
+    if (snapshot.get(name) === state) {
+      continue;
+    }
+    const content = await fs.readFile(path.join(dir, name));
+    outputFiles.push({
+      name,
+      content: content.toString('base64'),
+      mimeType: MIME_TYPES[path.extname(name).toLowerCase()] ??
+          'application/octet-stream',
+    });
+  }
+  return outputFiles;
+}
@@ -8,23 +8,44 @@ export {BaseAgent} from './agents/base_agent.js';
 export {CallbackContext} from './agents/callback_context.js';
 export {functionsExportedForTestingOnly} from './agents/functions.js';
 export {InvocationContext} from './agents/invocation_context.js';
+export {injectSessionState} from './agents/instructions.js';
+export type {InjectSessionStateOptions} from './agents/instructions.js';
 export {LiveRequestQueue} from './agents/live_request_queue.js';
 export type {LiveRequest} from './agents/live_request_queue.js';
 export {LlmAgent} from './agents/llm_agent.js';
-export type {AfterModelCallback, AfterToolCallback, BeforeModelCallback, BeforeToolCallback, SingleAfterModelCallback, SingleAfterToolCallback, SingleBeforeModelCallback, SingleBeforeToolCallback} from './agents/llm_agent.js';
+export type {AfterModelCallback, AfterToolCallback, BeforeModelCallback, BeforeToolCallback, ExamplesUnion, LlmAgentConfig, SingleAfterModelCallback, SingleAfterToolCallback, SingleBeforeModelCallback, SingleBeforeToolCallback} from './agents/llm_agent.js';
 export {LoopAgent} from './agents/loop_agent.js';
 export {ParallelAgent} from './agents/parallel_agent.js';
+export {ReadonlyContext} from './agents/readonly_context.js';
 export type {RunConfig} from './agents/run_config.js';
 export {StreamingMode} from './agents/run_config.js';
 export {SequentialAgent} from './agents/sequential_agent.js';
 export {InMemoryArtifactService} from './artifacts/in_memory_artifact_service.js';
 export type {BaseCredentialService} from './auth/credential_service/base_credential_service.js';
+export {BaseCodeExecutor} from './code_executors/base_code_executor.js';
+export type {ExecuteCodeParams} from './code_executors/base_code_executor.js';
 export {BuiltInCodeExecutor} from './code_executors/built_in_code_executor.js';
+export type {CodeExecutionInput, CodeExecutionResult, File} from './code_executors/code_execution_utils.js';
+export {BaseEventsSummarizer} from './compaction/base_events_summarizer.js';
+export type {EventsCompactionConfig} from './compaction/events_compaction.js';
+export {LlmEventsSummarizer} from './compaction/llm_events_summarizer.js';
+export {BaseEmbedder, cosineSimilarity} from './embeddings/base_embedder.js';
+export {HashingEmbedder} from './embeddings/hashing_embedder.js';
+export {EmbedderRegistry} from './embeddings/registry.js';
+export type {BaseEmbedderType} from './embeddings/registry.js';
 export {createEvent, getFunctionCalls, getFunctionResponses, hasTrailingCodeExecutionResult, isFinalResponse, stringifyContent} from './events/event.js';
 export type {Event} from './events/event.js';
-export type {EventActions} from './events/event_actions.js';
+export type {EventActions, EventCompaction} from './events/event_actions.js';
 export {createEventActions} from './events/event_actions.js';
+export {BaseExampleProvider} from './examples/base_example_provider.js';
+export type {Example} from './examples/example.js';
+export {convertExamplesToText} from './examples/example_util.js';
+export {VectorExampleProvider} from './examples/vector_example_provider.js';
+export type {VectorExampleProviderParams} from './examples/vector_example_provider.js';
 export {InMemoryMemoryService} from './memory/in_memory_memory_service.js';
+export type {MemoryEntry} from './memory/memory_entry.js';
+export {VectorMemoryService} from './memory/vector_memory_service.js';
+export type {VectorMemoryServiceParams} from './memory/vector_memory_service.js';
 export {BaseLlm, isBaseLlm} from './models/base_llm.js';
 export type {BaseLlmConnection} from './models/base_llm_connection.js';
 export {Gemini} from './models/google_llm.js';
@@ -32,6 +53,9 @@ export type {GeminiParams} from './models/google_llm.js';
 export type {LlmRequest} from './models/llm_request.js';
 export type {LlmResponse} from './models/llm_response.js';
 export {LLMRegistry} from './models/registry.js';
+export {BasePlanner} from './planners/base_planner.js';
+export {BuiltInPlanner} from './planners/built_in_planner.js';
+export {PlanReActPlanner} from './planners/plan_re_act_planner.js';
 export {BasePlugin} from './plugins/base_plugin.js';
 export {LoggingPlugin} from './plugins/logging_plugin.js';
 export {PluginManager} from './plugins/plugin_manager.js';
@@ -42,12 +66,17 @@ export {Runner} from './runner/runner.js';
 export {InMemorySessionService} from './sessions/in_memory_session_service.js';
 export {createSession} from './sessions/session.js';
 export type {Session} from './sessions/session.js';
+export {exportSession, importSession, SESSION_EXPORT_VERSION, validateExportedSession} from './sessions/session_export.js';
+export type {ExportedArtifact, ExportedSession, ExportSessionRequest, ImportSessionRequest} from './sessions/session_export.js';
 export {State} from './sessions/state.js';
+export {asTypedState, StateValidationError} from './sessions/state_schema.js';
+export type {StateSchema, StateValues, TypedState} from './sessions/state_schema.js';
 export {AgentTool} from './tools/agent_tool.js';
 export {BaseTool} from './tools/base_tool.js';
 export {BaseToolset} from './tools/base_toolset.js';
 export {FunctionTool} from './tools/function_tool.js';
 export {GOOGLE_SEARCH} from './tools/google_search_tool.js';
+export {LOAD_ARTIFACTS, LoadArtifactsTool} from './tools/load_artifacts_tool.js';
 export {LongRunningFunctionTool} from './tools/long_running_tool.js';
 export {ToolConfirmation} from './tools/tool_confirmation.js';
 export {ToolContext} from './tools/tool_context.js';
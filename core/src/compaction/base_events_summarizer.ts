@@ -0,0 +1,21 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {Event} from '../events/event.js';
+
+/**
+ * Base class for the summarizers compacting the events of a session.
+ */
+export abstract class BaseEventsSummarizer {
+  /**
+   * Summarizes the given events into a compaction event.
+   *
+   * @param events The events to summarize, in chronological order.
+   * @return A promise that resolves to the event carrying the compaction in
+   *     its actions, or undefined if the events are not summarized.
+   */
+  abstract maybeSummarizeEvents(events: Event[]): Promise<Event|undefined>;
+}
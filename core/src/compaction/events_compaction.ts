@@ -0,0 +1,101 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {Event} from '../events/event.js';
+import {BaseSessionService} from '../sessions/base_session_service.js';
+import {Session} from '../sessions/session.js';
+
+import {BaseEventsSummarizer} from './base_events_summarizer.js';
+
+/**
+ * The configuration of the compaction of the session events.
+ *
+ * The events are compacted with a sliding window: every `compactionInterval`
+ * new invocations, the events of these invocations, and of the
+ * `overlapSize` invocations before them, are summarized into a compaction
+ * event.
+ */
+export interface EventsCompactionConfig {
+  /** The number of new invocations that triggers a compaction. */
+  compactionInterval: number;
+
+  /**
+   * The number of the already compacted invocations to compact again with the
+   * new invocations, to keep the context between the summaries.
+   */
+  overlapSize: number;
+
+  /**
+   * The summarizer of the events. Defaults to an `LlmEventsSummarizer` using
+   * the model of the root agent.
+   */
+  summarizer?: BaseEventsSummarizer;
+}
+
+/**
+ * Compacts the events of the session if enough invocations have happened
+ * since the last compaction, and appends the compaction event to the session.
+ *
+ * @param params The compaction config, the summarizer, the session and the
+ *     session service to append the compaction event with.
+ * @return A promise that resolves to the compaction event, or undefined if
+ *     the events are not compacted.
+ */
+export async function runEventsCompaction({
+  config,
+  summarizer,
+  session,
+  sessionService,
+}: {
+  config: EventsCompactionConfig; summarizer: BaseEventsSummarizer;
+  session: Session;
+  sessionService: BaseSessionService;
+}): Promise<Event|undefined> {
+  const events = session.events.filter((event) => !event.actions?.compaction);
+  if (!events.length) {
+    return undefined;
+  }
+
+  let lastCompactedTimestamp = -Infinity;
+  for (const event of session.events) {
+    const compaction = event.actions?.compaction;
+    if (compaction) {
+      lastCompactedTimestamp =
+          Math.max(lastCompactedTimestamp, compaction.endTimestamp);
+    }
+  }
+
+  const invocationIds = getUniqueInvocationIds(events);
+  const compactedInvocationIds = new Set(getUniqueInvocationIds(events.filter(
+      (event) => event.timestamp <= lastCompactedTimestamp)));
+  const newInvocationIds =
+      invocationIds.filter((id) => !compactedInvocationIds.has(id));
+  if (newInvocationIds.length < config.compactionInterval) {
+    return undefined;
+  }
+
+  const firstNewIndex = invocationIds.indexOf(newInvocationIds[0]);
+  const windowInvocationIds = new Set(invocationIds.slice(
+      Math.max(0, firstNewIndex - config.overlapSize)));
+  const eventsToCompact =
+      events.filter((event) => windowInvocationIds.has(event.invocationId));
+
+  const compactionEvent = await summarizer.maybeSummarizeEvents(eventsToCompact);
+  if (!compactionEvent) {
+    return undefined;
+  }
+
+  await sessionService.appendEvent({session, event: compactionEvent});
+
+  return compactionEvent;
+}
+
+/**
+ * Returns the IDs of the invocations of the events, in chronological order.
+ */
+function getUniqueInvocationIds(events: Event[]): string[] {
+  return [...new Set(events.map((event) => event.invocationId))];
+}
@@ -0,0 +1,100 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {createEvent, Event} from '../events/event.js';
+import {createEventActions} from '../events/event_actions.js';
+import {BaseLlm} from '../models/base_llm.js';
+import {LlmRequest} from '../models/llm_request.js';
+
+import {BaseEventsSummarizer} from './base_events_summarizer.js';
+
+const CONVERSATION_HISTORY_PLACEHOLDER = '{conversation_history}';
+
+const DEFAULT_PROMPT_TEMPLATE =
+    `The following is a conversation history between a user and an AI agent. Summarize the conversation concisely, keeping the key information and decisions made, as well as any unresolved questions or tasks.
+
+${CONVERSATION_HISTORY_PLACEHOLDER}`;
+
+/**
+ * A summarizer that uses an LLM to summarize the events.
+ */
+export class LlmEventsSummarizer extends BaseEventsSummarizer {
+  private readonly llm: BaseLlm;
+  private readonly promptTemplate: string;
+
+  /**
+   * @param llm The LLM to summarize the events with.
+   * @param promptTemplate The prompt to send to the LLM, where
+   *     `{conversation_history}` is replaced by the events to summarize.
+   */
+  constructor({
+    llm,
+    promptTemplate = DEFAULT_PROMPT_TEMPLATE,
+  }: {llm: BaseLlm; promptTemplate?: string}) {
+    super();
+    this.llm = llm;
+    this.promptTemplate = promptTemplate;
+  }
+
+  async maybeSummarizeEvents(events: Event[]): Promise<Event|undefined> {
+    const conversationHistory = formatEvents(events);
+    if (!conversationHistory) {
+      return undefined;
+    }
+
+    const llmRequest: LlmRequest = {
+      model: this.llm.model,
+      contents: [{
+        role: 'user',
+        parts: [{
+          text: this.promptTemplate.replace(
+              CONVERSATION_HISTORY_PLACEHOLDER, conversationHistory),
+        }],
+      }],
+      liveConnectConfig: {},
+      toolsDict: {},
+    };
+
+    for await (const llmResponse of this.llm.generateContentAsync(
+        llmRequest, /* stream= */ false)) {
+      if (!llmResponse.content?.parts?.length) {
+        continue;
+      }
+
+      return createEvent({
+        author: 'user',
+        actions: createEventActions({
+          compaction: {
+            startTimestamp: events[0].timestamp,
+            endTimestamp: events[events.length - 1].timestamp,
+            compactedContent: {
+              role: 'model',
+              parts: llmResponse.content.parts,
+            },
+          },
+        }),
+      });
+    }
+
+    return undefined;
+  }
+}
+
+/**
+ * Formats the text of the events as the lines of a conversation.
+ */
+function formatEvents(events: Event[]): string {
+  const lines: string[] = [];
+  for (const event of events) {
+    for (const part of event.content?.parts ?? []) {
+      if (part.text && !part.thought) {
+        lines.push(`${event.author}: ${part.text}`);
+      }
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,63 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * The base class for embedding models, which convert texts to vectors used for
+ * similarity search.
+ */
+export abstract class BaseEmbedder {
+  readonly model: string;
+
+  /**
+   * Creates an instance of BaseEmbedder.
+   * @param params The parameters for creating a BaseEmbedder instance.
+   * @param params.model The name of the embedding model.
+   */
+  constructor({model}: {model: string}) {
+    this.model = model;
+  }
+
+  /**
+   * List of supported models in regex for EmbedderRegistry.
+   */
+  static readonly supportedModels: Array<string|RegExp> = [];
+
+  /**
+   * Embeds the given texts.
+   *
+   * @param texts The texts to embed.
+   * @return The embeddings of the texts, in the same order as the texts.
+   */
+  abstract embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Computes the cosine similarity of two vectors.
+ *
+ * @param a The first vector.
+ * @param b The second vector.
+ * @return The cosine similarity, or 0 if any of the vectors is all zeros.
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error(
+        `Cannot compare embeddings of different dimensions: ${a.length} and ${
+            b.length}.`);
+  }
+
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+}
@@ -0,0 +1,115 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {BaseEmbedder} from './base_embedder.js';
+
+const DEFAULT_DIMENSIONS = 256;
+const MODEL_NAME_PATTERN = /^local-hashing(?:-(\d+))?$/;
+
+/**
+ * The characters of the scripts written without spaces between the words.
+ */
+const UNSEGMENTED_CHARACTERS = '\\p{Script=Han}\\p{Script=Hiragana}' +
+    '\\p{Script=Katakana}\\p{Script=Thai}\\p{Script=Lao}' +
+    '\\p{Script=Khmer}\\p{Script=Myanmar}';
+
+/**
+ * Matches the runs of characters of the scripts without word separators, and
+ * the words of the other scripts.
+ */
+const TOKEN_PATTERN = new RegExp(
+    `[${UNSEGMENTED_CHARACTERS}]+|` +
+        `(?:(?![${UNSEGMENTED_CHARACTERS}])[\\p{L}\\p{M}\\p{N}])+`,
+    'gu');
+const UNSEGMENTED_PATTERN = new RegExp(`^[${UNSEGMENTED_CHARACTERS}]`, 'u');
+
+/**
+ * A local embedder that embeds texts as hashed bags of words.
+ *
+ * It is deterministic and needs no network access, which makes it a good fit
+ * for tests and offline development. The model name may carry the number of
+ * dimensions, e.g. `local-hashing-512`. Defaults to 256 dimensions.
+ */
+export class HashingEmbedder extends BaseEmbedder {
+  readonly dimensions: number;
+
+  constructor({model = 'local-hashing'}: {model?: string} = {}) {
+    super({model});
+
+    const match = model.match(MODEL_NAME_PATTERN);
+    if (!match) {
+      throw new Error(`Unsupported hashing embedder model: ${model}`);
+    }
+    this.dimensions = match[1] ? Number(match[1]) : DEFAULT_DIMENSIONS;
+    if (this.dimensions <= 0) {
+      throw new Error(
+          `The number of dimensions must be positive, got: ${this.dimensions}`);
+    }
+  }
+
+  static override readonly supportedModels: Array<string|RegExp> = [
+    MODEL_NAME_PATTERN,
+  ];
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const embedding = new Array<number>(this.dimensions).fill(0);
+    for (const token of tokenize(text)) {
+      const hash = fnv1a(token);
+      // Uses the highest bit as the sign to reduce the bias of collisions.
+      const sign = hash & 0x80000000 ? -1 : 1;
+      embedding[hash % this.dimensions] += sign;
+    }
+
+    const norm = Math.sqrt(embedding.reduce((sum, v) => sum + v * v, 0));
+    if (norm === 0) {
+      return embedding;
+    }
+    return embedding.map((v) => v / norm);
+  }
+}
+
+/**
+ * Splits the text into lower-cased words.
+ *
+ * The texts of the scripts without word separators, e.g. Chinese or Japanese,
+ * are split into their characters and their overlapping character bigrams
+ * instead, so that a word matches the sentences containing it.
+ */
+function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const word of text.toLowerCase().match(TOKEN_PATTERN) ?? []) {
+    if (!UNSEGMENTED_PATTERN.test(word)) {
+      tokens.push(word);
+      continue;
+    }
+
+    const characters = Array.from(word);
+    for (let i = 0; i < characters.length; i++) {
+      tokens.push(characters[i]);
+      if (i + 1 < characters.length) {
+        tokens.push(characters[i] + characters[i + 1]);
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Computes the 32-bit FNV-1a hash of the given string.
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
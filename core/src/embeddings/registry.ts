@@ -0,0 +1,83 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {logger} from '../utils/logger.js';
+
+import {BaseEmbedder} from './base_embedder.js';
+import {HashingEmbedder} from './hashing_embedder.js';
+
+/**
+ * type[BaseEmbedder] equivalent in TypeScript, represents a class that can be
+ * new-ed to create a BaseEmbedder instance.
+ */
+export type BaseEmbedderType =
+    (new (params: {model: string}) => BaseEmbedder)&{
+      readonly supportedModels: Array<string|RegExp>;
+    };
+
+/**
+ * Registry for embedding models.
+ */
+export class EmbedderRegistry {
+  /**
+   * Key is the regex that matches the model name.
+   * Value is the class that implements the model.
+   */
+  private static embedderRegistryDict: Map<string|RegExp, BaseEmbedderType> =
+      new Map();
+
+  /**
+   * Creates a new embedder instance.
+   * @param model The model name.
+   * @returns The embedder instance.
+   */
+  static newEmbedder(model: string): BaseEmbedder {
+    return new (EmbedderRegistry.resolve(model))({model});
+  }
+
+  /**
+   * Registers a new embedder class.
+   * @param embedderCls The class that implements the model.
+   */
+  static register<T extends BaseEmbedder>(
+      embedderCls: (new(params: {model: string}) => T)&{
+        readonly supportedModels: Array<string|RegExp>;
+      }) {
+    for (const regex of embedderCls.supportedModels) {
+      if (EmbedderRegistry.embedderRegistryDict.has(regex)) {
+        logger.info(`Updating embedder class for ${regex} from ${
+            EmbedderRegistry.embedderRegistryDict.get(regex)} to ${
+            embedderCls}`);
+      }
+      EmbedderRegistry.embedderRegistryDict.set(regex, embedderCls);
+    }
+  }
+
+  /**
+   * Resolves the model to a BaseEmbedder subclass.
+   * @param model The model name.
+   * @returns The BaseEmbedder subclass.
+   * @throws If the model is not found.
+   */
+  static resolve(model: string): BaseEmbedderType {
+    for (const [regex, embedderClass] of EmbedderRegistry.embedderRegistryDict
+             .entries()) {
+      // Anchors the regex to match the whole model name.
+      const pattern = new RegExp(
+          `^(?:${regex instanceof RegExp ? regex.source : regex})$`,
+          regex instanceof RegExp ? regex.flags : undefined,
+      );
+      if (pattern.test(model)) {
+        return embedderClass;
+      }
+    }
+
+    throw new Error(`Embedding model ${model} not found.`);
+  }
+}
+
+/** Registers the default embedders, e.g. the local hashing embedder. */
+EmbedderRegistry.register(HashingEmbedder);
@@ -4,11 +4,28 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import {Content} from '@google/genai';
+
 import {ToolConfirmation} from '../tools/tool_confirmation.js';
 
 // TODO: b/425992518 - Replace 'any' with a proper AuthConfig.
 type AuthConfig = any;
 
+/**
+ * The summary of a range of events of a session, which replaces the events in
+ * the contents sent to the model.
+ */
+export interface EventCompaction {
+  /** The timestamp of the first compacted event. */
+  startTimestamp: number;
+
+  /** The timestamp of the last compacted event. */
+  endTimestamp: number;
+
+  /** The summary of the compacted events. */
+  compactedContent: Content;
+}
+
 /**
  * Represents the actions attached to an event.
  */
@@ -58,6 +75,11 @@ export interface EventActions {
    * call id.
    */
   requestedToolConfirmations: {[key: string]: ToolConfirmation};
+
+  /**
+   * The compaction of the previous events of the session into a summary.
+   */
+  compaction?: EventCompaction;
 }
 
 /**
@@ -80,8 +102,8 @@ export function createEventActions(state: Partial<EventActions> = {}):
  * 1. It merges dictionaries (stateDelta, artifactDelta, requestedAuthConfigs)
  * by adding all the properties from each source.
  *
- * 2. For other properties (skipSummarization,transferToAgent, escalate), the
- * last one wins.
+ * 2. For other properties (skipSummarization, transferToAgent, escalate,
+ * compaction), the last one wins.
  */
 export function mergeEventActions(
     sources: Array<Partial<EventActions>>,
@@ -118,6 +140,9 @@ export function mergeEventActions(
     if (source.escalate !== undefined) {
       result.escalate = source.escalate;
     }
+    if (source.compaction !== undefined) {
+      result.compaction = source.compaction;
+    }
   }
   return result;
 }
\ No newline at end of file
@@ -15,8 +15,11 @@ export abstract class BaseExampleProvider {
   /**
    * Returns a list of examples for a given query.
    *
+   * Providers may look up the examples asynchronously, e.g. from a vector
+   * store.
+   *
    * @param query The query to get examples for.
-   * @return A list of Example objects.
+   * @return A list of Example objects, or a promise resolving to it.
    */
-  abstract getExamples(query: string): Example[];
+  abstract getExamples(query: string): Example[]|Promise<Example[]>;
 }
@@ -81,14 +81,18 @@ export function convertExamplesToText(
   return `${EXAMPLES_INTRO}${examplesStr}${EXAMPLES_END}`;
 }
 
-export function buildExampleSi(
+/**
+ * Builds the system instruction for the given examples, looking up the
+ * examples of the provider for the given query.
+ */
+export async function buildExampleSi(
     examples: Example[]|BaseExampleProvider, query: string,
-    model?: string): string {
+    model?: string): Promise<string> {
   if (Array.isArray(examples)) {
     return convertExamplesToText(examples, model);
   }
   if (examples instanceof BaseExampleProvider) {
-    return convertExamplesToText(examples.getExamples(query), model);
+    return convertExamplesToText(await examples.getExamples(query), model);
   }
 
   throw new Error('Invalid example configuration');
@@ -0,0 +1,127 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {BaseEmbedder, cosineSimilarity} from '../embeddings/base_embedder.js';
+import {EmbedderRegistry} from '../embeddings/registry.js';
+
+import {BaseExampleProvider} from './base_example_provider.js';
+import {Example} from './example.js';
+
+/**
+ * The parameters for creating a VectorExampleProvider.
+ */
+export interface VectorExampleProviderParams {
+  /**
+   * The examples to retrieve from.
+   */
+  examples?: Example[];
+  /**
+   * The embedder, or the name of an embedding model registered in the
+   * EmbedderRegistry. Defaults to the local hashing embedder.
+   */
+  embedder?: string|BaseEmbedder;
+  /**
+   * The maximum number of examples to return for a query. Defaults to 3.
+   */
+  topK?: number;
+}
+
+interface EmbeddedExample {
+  example: Example;
+  embedding: number[];
+}
+
+/**
+ * An example provider that returns the examples most similar to the query.
+ *
+ * The inputs of the examples are embedded lazily, on the first lookup after
+ * they are added, and compared to the query embedding by cosine similarity.
+ */
+export class VectorExampleProvider extends BaseExampleProvider {
+  readonly embedder: BaseEmbedder;
+  readonly topK: number;
+  private readonly embeddedExamples: EmbeddedExample[] = [];
+  private readonly pendingExamples: Example[] = [];
+  private embeddingTask?: Promise<void>;
+
+  constructor({
+    examples = [],
+    embedder = 'local-hashing',
+    topK = 3,
+  }: VectorExampleProviderParams = {}) {
+    super();
+    this.embedder = typeof embedder === 'string' ?
+        EmbedderRegistry.newEmbedder(embedder) :
+        embedder;
+    this.topK = topK;
+    this.addExamples(examples);
+  }
+
+  /**
+   * Adds examples to the provider.
+   *
+   * @param examples The examples to add.
+   */
+  addExamples(examples: Example[]) {
+    this.pendingExamples.push(...examples);
+  }
+
+  /**
+   * Returns the topK examples whose inputs are the most similar to the query.
+   *
+   * @param query The query to get examples for.
+   * @return The examples, ordered by descending similarity.
+   */
+  async getExamples(query: string): Promise<Example[]> {
+    await this.embedPendingExamples();
+    if (!this.embeddedExamples.length || this.topK <= 0) {
+      return [];
+    }
+
+    const [queryEmbedding] = await this.embedder.embed([query]);
+    return this.embeddedExamples
+        .map(({example, embedding}) => ({
+               example,
+               score: cosineSimilarity(queryEmbedding, embedding),
+             }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, this.topK)
+        .map(({example}) => example);
+  }
+
+  /**
+   * Embeds the pending examples. The concurrent lookups wait for the same
+   * embedding, and the examples stay pending if the embedding fails.
+   */
+  private embedPendingExamples(): Promise<void> {
+    this.embeddingTask ??= this.embedExamples().finally(() => {
+      this.embeddingTask = undefined;
+    });
+    return this.embeddingTask;
+  }
+
+  private async embedExamples() {
+    // The examples added while embedding are embedded in the next round.
+    while (this.pendingExamples.length) {
+      const examples = this.pendingExamples.slice();
+      const embeddings = await this.embedder.embed(examples.map(getInputText));
+      for (const [i, example] of examples.entries()) {
+        this.embeddedExamples.push({example, embedding: embeddings[i]});
+      }
+      this.pendingExamples.splice(0, examples.length);
+    }
+  }
+}
+
+/**
+ * Gets the text of the input of the example.
+ */
+function getInputText(example: Example): string {
+  return (example.input.parts ?? [])
+      .filter((part) => part.text)
+      .map((part) => part.text)
+      .join('\n');
+}
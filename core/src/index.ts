@@ -8,6 +8,10 @@ export * from './common.js';
 export * from './tools/mcp/mcp_session_manager.js';
 export * from './tools/mcp/mcp_tool.js';
 export * from './tools/mcp/mcp_toolset.js';
+export * from './artifacts/file_system_artifact_service.js';
 export * from './artifacts/gcs_artifact_service.js';
+export * from './code_executors/local_code_executor.js';
+export * from './sessions/database_session_service.js';
+export * from './sessions/file_system_session_service.js';
 export * from './telemetry/setup.js';
 export * from './telemetry/google_cloud.js';
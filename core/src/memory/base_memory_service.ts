@@ -25,6 +25,11 @@ export interface SearchMemoryRequest {
   appName: string;
   userId: string;
   query: string;
+  /**
+   * The maximum number of memories to return, for the memory services that
+   * rank their results.
+   */
+  topK?: number;
 }
 
 /**
@@ -25,4 +25,20 @@ export interface MemoryEntry {
    * This string will be forwarded to LLM. Preferred format is ISO 8601 format.
    */
   timestamp?: string;
+
+  /**
+   * The ID of the session the memory was extracted from.
+   */
+  sessionId?: string;
+
+  /**
+   * The ID of the event the memory was extracted from.
+   */
+  eventId?: string;
+
+  /**
+   * The similarity of the memory to the search query, set by the memory
+   * services that rank their results.
+   */
+  score?: number;
 }
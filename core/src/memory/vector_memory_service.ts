@@ -0,0 +1,193 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {BaseEmbedder, cosineSimilarity} from '../embeddings/base_embedder.js';
+import {EmbedderRegistry} from '../embeddings/registry.js';
+import {Event} from '../events/event.js';
+import {Session} from '../sessions/session.js';
+
+import {BaseMemoryService, SearchMemoryRequest, SearchMemoryResponse} from './base_memory_service.js';
+import {MemoryEntry} from './memory_entry.js';
+
+/**
+ * The parameters for creating a VectorMemoryService.
+ */
+export interface VectorMemoryServiceParams {
+  /**
+   * The embedder, or the name of an embedding model registered in the
+   * EmbedderRegistry. Defaults to the local hashing embedder.
+   */
+  embedder?: string|BaseEmbedder;
+  /**
+   * The default maximum number of memories to return for a query. Defaults to
+   * 5.
+   */
+  topK?: number;
+  /**
+   * The minimum similarity of the returned memories to the query. Defaults to
+   * 0, which excludes the unrelated memories.
+   */
+  minScore?: number;
+  /**
+   * The maximum number of characters of a chunk. The longer event texts are
+   * split into several chunks. Defaults to 1000.
+   */
+  maxChunkLength?: number;
+}
+
+interface EmbeddedChunk {
+  /** Identifies the chunk by its event and text. */
+  key: string;
+  /** The text of the chunk, which is embedded. */
+  text: string;
+  /** The memory entry of the chunk, without score. */
+  entry: MemoryEntry;
+  embedding: number[];
+}
+
+/**
+ * A memory service that retrieves the memories semantically similar to the
+ * query.
+ *
+ * The text of the session events is split into chunks, each stored as a
+ * memory entry with the IDs of its session and event. The chunks are embedded
+ * and kept in an in-process vector index, which is searched by cosine
+ * similarity.
+ */
+export class VectorMemoryService implements BaseMemoryService {
+  readonly embedder: BaseEmbedder;
+  readonly topK: number;
+  readonly minScore: number;
+  readonly maxChunkLength: number;
+
+  /**
+   * A map from the app name to a map from the user ID to a map from the
+   * session ID to the embedded chunks of the session.
+   */
+  private readonly chunks: {
+    [appName: string]:
+        {[userId: string]: {[sessionId: string]: EmbeddedChunk[]}}
+  } = {};
+
+  constructor({
+    embedder = 'local-hashing',
+    topK = 5,
+    minScore = 0,
+    maxChunkLength = 1000,
+  }: VectorMemoryServiceParams = {}) {
+    this.embedder = typeof embedder === 'string' ?
+        EmbedderRegistry.newEmbedder(embedder) :
+        embedder;
+    this.topK = topK;
+    this.minScore = minScore;
+    this.maxChunkLength = maxChunkLength;
+  }
+
+  /**
+   * Adds the events of the session to the memory, replacing the memories
+   * previously added for the session.
+   *
+   * The chunks already embedded for the session are not embedded again, so
+   * that a session can be added after each turn.
+   */
+  async addSessionToMemory(session: Session): Promise<void> {
+    const {appName, userId} = session;
+    const embeddings = new Map<string, number[]>();
+    for (const chunk of this.chunks[appName]?.[userId]?.[session.id] ?? []) {
+      embeddings.set(chunk.key, chunk.embedding);
+    }
+
+    const chunks: Array<Omit<EmbeddedChunk, 'embedding'>> = [];
+    for (const event of session.events) {
+      for (const text of this.splitEventText(event)) {
+        chunks.push({
+          key: `${event.id}/${text}`,
+          text,
+          entry: {
+            content: {role: event.content?.role, parts: [{text}]},
+            author: event.author,
+            timestamp: formatTimestamp(event.timestamp),
+            sessionId: session.id,
+            eventId: event.id,
+          },
+        });
+      }
+    }
+
+    const newChunks = chunks.filter(({key}) => !embeddings.has(key));
+    if (newChunks.length) {
+      const newEmbeddings =
+          await this.embedder.embed(newChunks.map(({text}) => text));
+      for (const [i, {key}] of newChunks.entries()) {
+        embeddings.set(key, newEmbeddings[i]);
+      }
+    }
+
+    this.chunks[appName] = this.chunks[appName] ?? {};
+    this.chunks[appName][userId] = this.chunks[appName][userId] ?? {};
+    this.chunks[appName][userId][session.id] = chunks.map(
+        (chunk) => ({...chunk, embedding: embeddings.get(chunk.key)!}));
+  }
+
+  /**
+   * Returns the memories of the user most similar to the query, ordered by
+   * descending similarity score.
+   */
+  async searchMemory({appName, userId, query, topK = this.topK}:
+                         SearchMemoryRequest): Promise<SearchMemoryResponse> {
+    const userChunks =
+        Object.values(this.chunks[appName]?.[userId] ?? {}).flat();
+    if (!userChunks.length || topK <= 0) {
+      return {memories: []};
+    }
+
+    const [queryEmbedding] = await this.embedder.embed([query]);
+    const memories =
+        userChunks
+            .map(({entry, embedding}) => ({
+                   ...entry,
+                   score: cosineSimilarity(queryEmbedding, embedding),
+                 }))
+            .filter(({score}) => score > this.minScore)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, topK);
+
+    return {memories};
+  }
+
+  /**
+   * Splits the text of the event into chunks of at most maxChunkLength
+   * characters, preferably at a space.
+   */
+  private splitEventText(event: Event): string[] {
+    const text = (event.content?.parts ?? [])
+                     .filter((part) => part.text && !part.thought)
+                     .map((part) => part.text)
+                     .join('\n')
+                     .trim();
+
+    const chunks: string[] = [];
+    let remaining = text;
+    while (remaining.length > this.maxChunkLength) {
+      const splitIndex = remaining.lastIndexOf(' ', this.maxChunkLength);
+      const end = splitIndex > 0 ? splitIndex : this.maxChunkLength;
+      chunks.push(remaining.slice(0, end).trim());
+      remaining = remaining.slice(end).trim();
+    }
+    if (remaining) {
+      chunks.push(remaining);
+    }
+
+    return chunks;
+  }
+}
+
+/**
+ * Formats the timestamp to a string in ISO format.
+ */
+function formatTimestamp(timestamp: number): string {
+  return new Date(timestamp).toISOString();
+}
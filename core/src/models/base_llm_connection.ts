@@ -44,9 +44,28 @@ export interface BaseLlmConnection {
    */
   sendRealtime(blob: Blob): Promise<void>;
 
+  /**
+   * Signals the start of user activity to the model.
+   *
+   * Only used when automatic activity detection is disabled in the realtime
+   * input config.
+   */
+  sendActivityStart(): Promise<void>;
+
+  /**
+   * Signals the end of user activity to the model.
+   *
+   * Only used when automatic activity detection is disabled in the realtime
+   * input config.
+   */
+  sendActivityEnd(): Promise<void>;
+
   /**
    * Receives the model response using the llm server connection.
    *
+   * The generator keeps yielding responses across turns and completes once the
+   * connection is closed.
+   *
    * @return A generator of LlmResponse.
    */
   receive(): AsyncGenerator<LlmResponse, void, void>;
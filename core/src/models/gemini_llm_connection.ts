@@ -4,17 +4,89 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import {Blob, Content, FunctionResponse, Session,} from '@google/genai';
+import {Blob, Content, FunctionResponse, LiveServerMessage, Session} from '@google/genai';
 
 import {logger} from '../utils/logger.js';
 
 import {BaseLlmConnection} from './base_llm_connection.js';
 import {LlmResponse} from './llm_response.js';
 
+/** Function type for resolving a Promise with a LiveServerMessage. */
+type MessageResolveFn = (message: LiveServerMessage|undefined) => void;
+
+/**
+ * Buffers the messages received from a Gemini live session.
+ *
+ * The GenAI SDK delivers live server messages through the `onmessage`
+ * callback, while the connection exposes them through an async generator.
+ * This queue bridges the two.
+ */
+export class LiveServerMessageQueue {
+  // Keeps track of the messages that are waiting to be received.
+  private readonly messages: LiveServerMessage[] = [];
+  // Keeps track of the promises that are waiting for messages.
+  private readonly resolveFnFifoQueue: MessageResolveFn[] = [];
+  private isClosed = false;
+
+  /**
+   * Adds a message to the queue. Messages received after the queue is closed
+   * are dropped.
+   * @param message The message received from the live session.
+   */
+  push(message: LiveServerMessage) {
+    if (this.isClosed) {
+      return;
+    }
+    if (this.resolveFnFifoQueue.length > 0) {
+      const resolve = this.resolveFnFifoQueue.shift()!;
+      resolve(message);
+    } else {
+      this.messages.push(message);
+    }
+  }
+
+  /**
+   * Retrieves the next message from the queue.
+   * @returns A promise that resolves with the next message, or undefined once
+   *     the queue is closed and all the buffered messages are consumed.
+   */
+  async get(): Promise<LiveServerMessage|undefined> {
+    if (this.messages.length > 0) {
+      return this.messages.shift()!;
+    }
+    if (this.isClosed) {
+      return undefined;
+    }
+    return new Promise<LiveServerMessage|undefined>((resolve) => {
+      this.resolveFnFifoQueue.push(resolve);
+    });
+  }
+
+  /**
+   * Closes the queue, e.g. when the underlying websocket is closed.
+   */
+  close() {
+    if (this.isClosed) {
+      return;
+    }
+    this.isClosed = true;
+
+    // Pending gets only exist when there are no buffered messages.
+    while (this.resolveFnFifoQueue.length > 0) {
+      const resolve = this.resolveFnFifoQueue.shift()!;
+      resolve(undefined);
+    }
+  }
+}
+
 /** The Gemini model connection. */
 export class GeminiLlmConnection implements BaseLlmConnection {
+  private inputTranscriptionText = '';
+  private outputTranscriptionText = '';
+
   constructor(
       private readonly geminiSession: Session,
+      private readonly messageQueue: LiveServerMessageQueue,
   ) {}
 
   /**
@@ -83,6 +155,22 @@ export class GeminiLlmConnection implements BaseLlmConnection {
     this.geminiSession.sendRealtimeInput({media: blob});
   }
 
+  /**
+   * Signals the start of user activity to the model.
+   */
+  async sendActivityStart(): Promise<void> {
+    logger.debug('Sending LLM activity start signal');
+    this.geminiSession.sendRealtimeInput({activityStart: {}});
+  }
+
+  /**
+   * Signals the end of user activity to the model.
+   */
+  async sendActivityEnd(): Promise<void> {
+    logger.debug('Sending LLM activity end signal');
+    this.geminiSession.sendRealtimeInput({activityEnd: {}});
+  }
+
   /**
    * Builds a full text response.
    *
@@ -101,9 +189,132 @@ export class GeminiLlmConnection implements BaseLlmConnection {
     };
   }
 
-  // TODO(b/425992518): GenAI SDK inconsistent API, missing methods.
+  /**
+   * Receives the model responses from the gemini live session.
+   *
+   * Partial text responses are followed by a non-partial response holding the
+   * full text once the model turn completes, is interrupted or calls a tool.
+   * Transcriptions are handled the same way.
+   *
+   * @return A generator of LlmResponse, completed when the session is closed.
+   */
   async * receive(): AsyncGenerator<LlmResponse, void, void> {
-    throw new Error('Not Implemented.');
+    let text = '';
+    while (true) {
+      const message = await this.messageQueue.get();
+      if (!message) {
+        break;
+      }
+      logger.debug('Received LLM live message:', message);
+
+      if (message.usageMetadata) {
+        yield {
+          usageMetadata: {
+            promptTokenCount: message.usageMetadata.promptTokenCount,
+            cachedContentTokenCount:
+                message.usageMetadata.cachedContentTokenCount,
+            candidatesTokenCount: message.usageMetadata.responseTokenCount,
+            toolUsePromptTokenCount:
+                message.usageMetadata.toolUsePromptTokenCount,
+            thoughtsTokenCount: message.usageMetadata.thoughtsTokenCount,
+            totalTokenCount: message.usageMetadata.totalTokenCount,
+          },
+        };
+      }
+
+      const serverContent = message.serverContent;
+      if (serverContent) {
+        const content = serverContent.modelTurn;
+        if (content?.parts?.length) {
+          const llmResponse: LlmResponse = {
+            content,
+            interrupted: serverContent.interrupted,
+          };
+          if (content.parts[0].text) {
+            text += content.parts[0].text;
+            llmResponse.partial = true;
+          } else if (text && !content.parts[0].inlineData) {
+            // Don't yield the merged text response when receiving audio data.
+            yield this.buildFullTextResponse(text);
+            text = '';
+          }
+          yield llmResponse;
+        }
+
+        const inputTranscription = serverContent.inputTranscription;
+        if (inputTranscription?.text) {
+          this.inputTranscriptionText += inputTranscription.text;
+          yield {
+            inputTranscription:
+                {text: inputTranscription.text, finished: false},
+            partial: true,
+          };
+        }
+        if (inputTranscription?.finished) {
+          yield {
+            inputTranscription:
+                {text: this.inputTranscriptionText, finished: true},
+            partial: false,
+          };
+          this.inputTranscriptionText = '';
+        }
+
+        const outputTranscription = serverContent.outputTranscription;
+        if (outputTranscription?.text) {
+          this.outputTranscriptionText += outputTranscription.text;
+          yield {
+            outputTranscription:
+                {text: outputTranscription.text, finished: false},
+            partial: true,
+          };
+        }
+        if (outputTranscription?.finished) {
+          yield {
+            outputTranscription:
+                {text: this.outputTranscriptionText, finished: true},
+            partial: false,
+          };
+          this.outputTranscriptionText = '';
+        }
+
+        if (serverContent.turnComplete) {
+          if (text) {
+            yield this.buildFullTextResponse(text);
+            text = '';
+          }
+          yield {
+            turnComplete: true,
+            interrupted: serverContent.interrupted,
+          };
+        } else if (serverContent.interrupted) {
+          // The previous partial text is merged on interruption. The content
+          // can be empty when the model safety threshold is triggered.
+          if (text) {
+            yield this.buildFullTextResponse(text);
+            text = '';
+          }
+          yield {interrupted: true};
+        }
+      }
+
+      if (message.toolCall?.functionCalls?.length) {
+        if (text) {
+          yield this.buildFullTextResponse(text);
+          text = '';
+        }
+        yield {
+          content: {
+            role: 'model',
+            parts: message.toolCall.functionCalls.map(
+                (functionCall) => ({functionCall})),
+          },
+        };
+      }
+
+      if (message.sessionResumptionUpdate) {
+        yield {liveSessionResumptionUpdate: message.sessionResumptionUpdate};
+      }
+    }
   }
 
   /**
@@ -111,5 +322,6 @@ export class GeminiLlmConnection implements BaseLlmConnection {
    */
   async close(): Promise<void> {
     this.geminiSession.close();
+    this.messageQueue.close();
   }
 }
@@ -13,7 +13,7 @@ import {version} from '../version.js';
 
 import {BaseLlm} from './base_llm.js';
 import {BaseLlmConnection} from './base_llm_connection.js';
-import {GeminiLlmConnection} from './gemini_llm_connection.js';
+import {GeminiLlmConnection, LiveServerMessageQueue} from './gemini_llm_connection.js';
 import {LlmRequest} from './llm_request.js';
 import {createLlmResponse, LlmResponse} from './llm_response.js';
 
@@ -330,15 +330,23 @@ export class Gemini extends BaseLlm {
 
     llmRequest.liveConnectConfig.tools = llmRequest.config?.tools;
 
+    const messageQueue = new LiveServerMessageQueue();
     const liveSession = await this.liveApiClient.live.connect({
       model: llmRequest.model ?? this.model,
       config: llmRequest.liveConnectConfig,
       callbacks: {
-        // TODO - b/425992518: GenAI SDK inconsistent API, missing methods.
-        onmessage: () => {},
+        onmessage: (message) => {
+          messageQueue.push(message);
+        },
+        onerror: (e) => {
+          logger.error('Gemini live connection error:', e.message);
+        },
+        onclose: () => {
+          messageQueue.close();
+        },
       },
     });
-    return new GeminiLlmConnection(liveSession);
+    return new GeminiLlmConnection(liveSession, messageQueue);
   }
 
   private preprocessRequest(llmRequest: LlmRequest): void {
@@ -0,0 +1,50 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {Part, ThinkingConfig} from '@google/genai';
+
+import {LlmRequest} from '../models/llm_request.js';
+import {logger} from '../utils/logger.js';
+
+import {BasePlanner} from './base_planner.js';
+
+/**
+ * The built-in planner that uses the model's built-in thinking features.
+ */
+export class BuiltInPlanner extends BasePlanner {
+  /**
+   * Config for model built-in thinking features. An error will be returned if
+   * this field is set for models that don't support thinking.
+   */
+  thinkingConfig: ThinkingConfig;
+
+  constructor({thinkingConfig}: {thinkingConfig: ThinkingConfig}) {
+    super();
+    this.thinkingConfig = thinkingConfig;
+  }
+
+  /**
+   * Applies the thinking config to the LLM request.
+   *
+   * @param llmRequest The LLM request to apply the thinking config to.
+   */
+  applyThinkingConfig(llmRequest: LlmRequest) {
+    llmRequest.config = llmRequest.config || {};
+    if (llmRequest.config.thinkingConfig) {
+      logger.info(
+          'Overwriting the thinking config of the LLM request with the one from the planner.');
+    }
+    llmRequest.config.thinkingConfig = this.thinkingConfig;
+  }
+
+  buildPlanningInstruction(): string|undefined {
+    return undefined;
+  }
+
+  processPlanningResponse(): Part[]|undefined {
+    return undefined;
+  }
+}
@@ -4,24 +4,30 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import {Content, createPartFromText} from '@google/genai';
+import {Content, createPartFromText, Modality} from '@google/genai';
 import {trace} from '@opentelemetry/api';
 
 import {BaseAgent} from '../agents/base_agent.js';
 import {InvocationContext, newInvocationContextId} from '../agents/invocation_context.js';
+import {LiveRequestQueue} from '../agents/live_request_queue.js';
 import {LlmAgent} from '../agents/llm_agent.js';
-import {createRunConfig, RunConfig} from '../agents/run_config.js';
+import {createRunConfig, RunConfig, StreamingMode} from '../agents/run_config.js';
 import {BaseArtifactService} from '../artifacts/base_artifact_service.js';
 import {BaseCredentialService} from '../auth/credential_service/base_credential_service.js';
+import {BaseCodeExecutor} from '../code_executors/base_code_executor.js';
 import {BuiltInCodeExecutor} from '../code_executors/built_in_code_executor.js';
-import {createEvent, Event, getFunctionCalls} from '../events/event.js';
+import {EventsCompactionConfig, runEventsCompaction} from '../compaction/events_compaction.js';
+import {LlmEventsSummarizer} from '../compaction/llm_events_summarizer.js';
+import {createEvent, Event, getFunctionCalls, getFunctionResponses} from '../events/event.js';
 import {createEventActions} from '../events/event_actions.js';
 import {BaseMemoryService} from '../memory/base_memory_service.js';
 import {BasePlugin} from '../plugins/base_plugin.js';
 import {PluginManager} from '../plugins/plugin_manager.js';
-import {BaseSessionService} from '../sessions/base_session_service.js';
+import {AppendEventRequest, BaseSessionService} from '../sessions/base_session_service.js';
 import {Session} from '../sessions/session.js';
+import {validateStateDelta} from '../sessions/state_schema.js';
 import {logger} from '../utils/logger.js';
+import {isGemini2Model} from '../utils/model_name.js';
 
 interface RunnerInput {
   appName: string;
@@ -31,6 +37,22 @@ interface RunnerInput {
   sessionService: BaseSessionService;
   memoryService?: BaseMemoryService;
   credentialService?: BaseCredentialService;
+  /**
+   * The default code executor of the LLM agents that don't set one. Agents
+   * can opt out with `disallowCodeExecution`.
+   */
+  codeExecutor?: BaseCodeExecutor;
+  /**
+   * Whether to run only one invocation at a time on each session of this
+   * runner. The invocations started while the session is in use wait for the
+   * previous ones to finish. Defaults to false.
+   */
+  lockSessions?: boolean;
+  /**
+   * The configuration of the compaction of the session events into summaries,
+   * run after each invocation. The events are not compacted if not set.
+   */
+  eventsCompactionConfig?: EventsCompactionConfig;
 }
 
 export class Runner {
@@ -41,6 +63,9 @@ export class Runner {
   readonly sessionService: BaseSessionService;
   readonly memoryService?: BaseMemoryService;
   readonly credentialService?: BaseCredentialService;
+  readonly codeExecutor?: BaseCodeExecutor;
+  readonly eventsCompactionConfig?: EventsCompactionConfig;
+  private readonly sessionLocks?: SessionLocks;
 
   constructor(input: RunnerInput) {
     this.appName = input.appName;
@@ -50,6 +75,11 @@ export class Runner {
     this.sessionService = input.sessionService;
     this.memoryService = input.memoryService;
     this.credentialService = input.credentialService;
+    this.codeExecutor = input.codeExecutor;
+    this.eventsCompactionConfig = input.eventsCompactionConfig;
+    if (input.lockSessions) {
+      this.sessionLocks = new SessionLocks();
+    }
   }
 
   /**
@@ -80,6 +110,7 @@ export class Runner {
     // Setup the session and invocation context
     // =========================================================================
     const span = trace.getTracer('gcp.vertex.agent').startSpan('invocation');
+    const releaseSession = await this.acquireSession(userId, sessionId);
     try {
       const session =
           await this.sessionService.getSession({appName: this.appName, userId, sessionId});
@@ -90,22 +121,23 @@ export class Runner {
 
       if (runConfig.supportCfc && this.agent instanceof LlmAgent) {
         const modelName = this.agent.canonicalModel.model;
-        if (!modelName.startsWith('gemini-2')) {
+        if (!isGemini2Model(modelName)) {
           throw new Error(`CFC is not supported for model: ${
               modelName} in agent: ${this.agent.name}`);
         }
       }
 
-      if (this.agent instanceof LlmAgent &&
-          !(this.agent.codeExecutor instanceof BuiltInCodeExecutor)) {
-        this.agent.codeExecutor = new BuiltInCodeExecutor();
-      }
+      // CFC relies on the built-in code execution of the model, unless a code
+      // executor is configured.
+      const codeExecutor = this.codeExecutor ??
+          (runConfig.supportCfc ? new BuiltInCodeExecutor() : undefined);
 
       const invocationContext = new InvocationContext({
         artifactService: this.artifactService,
         sessionService: this.sessionService,
         memoryService: this.memoryService,
         credentialService: this.credentialService,
+        codeExecutor,
         invocationId: newInvocationContextId(),
         agent: this.agent,
         session,
@@ -143,7 +175,7 @@ export class Runner {
               newMessage);
         }
         // Append the user message to the session with optional state delta.
-        await this.sessionService.appendEvent({
+        await this.appendEvent({
           session,
           event: createEvent({
             invocationId: invocationContext.invocationId,
@@ -163,43 +195,239 @@ export class Runner {
       // =========================================================================
       // Run the agent with the plugins (aka hooks to apply in the lifecycle)
       // =========================================================================
-      // Step 1: Run the before_run callbacks to see if we should early exit.
-      const beforeRunCallbackResponse =
-          await this.pluginManager.runBeforeRunCallback({invocationContext});
-
-      if (beforeRunCallbackResponse) {
-        const earlyExitEvent = createEvent({
-          invocationId: invocationContext.invocationId,
-          author: 'model',
-          content: beforeRunCallbackResponse,
-        });
-        // TODO: b/447446338 - In the future, do *not* save live call audio
-        // content to session This is a feature in Python ADK
-        await this.sessionService.appendEvent({session, event: earlyExitEvent});
-        yield earlyExitEvent;
-
-      } else {
-        // Step 2: Otherwise continue with normal execution
-        for await (const event of invocationContext.agent.runAsync(
-            invocationContext)) {
-          if (!event.partial) {
-            await this.sessionService.appendEvent({session, event});
+      for await (const event of this.runAgentWithPlugins(
+          invocationContext, session, /* isLiveCall= */ false)) {
+        yield event;
+      }
+
+      // =========================================================================
+      // Compact the session events
+      // =========================================================================
+      await this.compactEvents(session);
+    } finally {
+      releaseSession();
+      span.end();
+    }
+  }
+
+  /**
+   * Runs the agent in live (bidirectional streaming) mode, and returns an async
+   * generator of events.
+   *
+   * The requests sent to the live request queue are streamed to the agent
+   * until the queue is closed.
+   *
+   * @param userId The user ID of the session.
+   * @param sessionId The session ID of the session.
+   * @param liveRequestQueue The queue of requests to stream to the agent.
+   * @param runConfig The run config for the agent.
+   * @yields The events generated by the agent.
+   */
+  async * runLive({
+    userId,
+    sessionId,
+    liveRequestQueue,
+    runConfig,
+  }: {
+    userId: string; sessionId: string; liveRequestQueue: LiveRequestQueue;
+    runConfig?: RunConfig;
+  }): AsyncGenerator<Event, void, undefined> {
+    runConfig =
+        createRunConfig({streamingMode: StreamingMode.BIDI, ...runConfig});
+    // Some native audio models require the response modalities to be set.
+    runConfig.responseModalities ??= [Modality.AUDIO];
+    // Live multi-agents need the transcriptions of the audio as context for
+    // the agents they transfer to.
+    if (this.agent.subAgents.length > 0) {
+      if (!runConfig.responseModalities.includes(Modality.TEXT)) {
+        runConfig.outputAudioTranscription ??= {};
+      }
+      runConfig.inputAudioTranscription ??= {};
+    }
+
+    const span = trace.getTracer('gcp.vertex.agent').startSpan('invocation');
+    const releaseSession = await this.acquireSession(userId, sessionId);
+    try {
+      const session = await this.sessionService.getSession(
+          {appName: this.appName, userId, sessionId});
+
+      if (!session) {
+        throw new Error(`Session not found: ${sessionId}`);
+      }
+
+      const invocationContext = new InvocationContext({
+        artifactService: this.artifactService,
+        sessionService: this.sessionService,
+        memoryService: this.memoryService,
+        credentialService: this.credentialService,
+        codeExecutor: this.codeExecutor,
+        invocationId: newInvocationContextId(),
+        agent: this.determineAgentForResumption(session, this.agent),
+        session,
+        transcriptionCache: [],
+        runConfig,
+        liveRequestQueue,
+        activeStreamingTools: {},
+        pluginManager: this.pluginManager,
+      });
+
+      for await (const event of this.runAgentWithPlugins(
+          invocationContext, session, /* isLiveCall= */ true)) {
+        yield event;
+      }
+    } finally {
+      releaseSession();
+      span.end();
+    }
+  }
+
+  /**
+   * Appends the event to the session, after validating its state delta against
+   * the state schema of the root agent.
+   *
+   * @param request The request to append an event.
+   * @throws StateValidationError If the state delta does not match the state
+   *     schema.
+   */
+  private async appendEvent({session, event}: AppendEventRequest):
+      Promise<void> {
+    if (this.agent.stateSchema && event.actions?.stateDelta) {
+      validateStateDelta(
+          this.agent.stateSchema, event.actions.stateDelta,
+          `event author "${event.author}"`);
+    }
+
+    await this.sessionService.appendEvent({session, event});
+  }
+
+  /**
+   * Compacts the events of the session, if `eventsCompactionConfig` is set.
+   *
+   * The compaction is best effort: a failure is logged and doesn't fail the
+   * invocation.
+   *
+   * @param session The session to compact the events of.
+   */
+  private async compactEvents(session: Session): Promise<void> {
+    const config = this.eventsCompactionConfig;
+    if (!config) {
+      return;
+    }
+
+    const summarizer = config.summarizer ??
+        (this.agent instanceof LlmAgent ?
+             new LlmEventsSummarizer({llm: this.agent.canonicalModel}) :
+             undefined);
+    if (!summarizer) {
+      logger.warn(
+          'Skipping the events compaction: a summarizer is required when the root agent is not an LlmAgent.');
+      return;
+    }
+
+    try {
+      await runEventsCompaction(
+          {config, summarizer, session, sessionService: this.sessionService});
+    } catch (e: unknown) {
+      logger.warn(`Failed to compact the events of session ${session.id}: ${
+          (e as Error).message}`);
+    }
+  }
+
+  /**
+   * Waits until the session is not used by other invocations of this runner,
+   * if `lockSessions` is enabled.
+   *
+   * @param userId The user ID of the session.
+   * @param sessionId The session ID of the session.
+   * @return A promise that resolves to the function releasing the session.
+   */
+  private async acquireSession(userId: string, sessionId: string):
+      Promise<() => void> {
+    if (!this.sessionLocks) {
+      return () => {};
+    }
+
+    return this.sessionLocks.acquire(JSON.stringify([userId, sessionId]));
+  }
+
+  /**
+   * Runs the agent of the invocation context with the run lifecycle plugins,
+   * and appends the generated events to the session.
+   *
+   * @param invocationContext The invocation context of the run.
+   * @param session The session to append the events to.
+   * @param isLiveCall Whether the agent runs in live mode.
+   * @yields The events generated by the agent, as modified by the plugins.
+   */
+  private async *
+      runAgentWithPlugins(
+          invocationContext: InvocationContext,
+          session: Session,
+          isLiveCall: boolean,
+          ): AsyncGenerator<Event, void, undefined> {
+    // Step 1: Run the before_run callbacks to see if we should early exit.
+    const beforeRunCallbackResponse =
+        await this.pluginManager.runBeforeRunCallback({invocationContext});
+
+    if (beforeRunCallbackResponse) {
+      const earlyExitEvent = createEvent({
+        invocationId: invocationContext.invocationId,
+        author: 'model',
+        content: beforeRunCallbackResponse,
+      });
+      await this.appendEvent({session, event: earlyExitEvent});
+      yield earlyExitEvent;
+
+    } else {
+      // Step 2: Otherwise continue with normal execution
+      const agent = invocationContext.agent;
+      const events = isLiveCall ? agent.runLive(invocationContext) :
+                                  agent.runAsync(invocationContext);
+
+      // In live mode, the tool calls and responses received while a
+      // transcription is ongoing are appended after the final transcription,
+      // so that the session events follow the conversation order.
+      let isTranscribing = false;
+      const bufferedEvents: Event[] = [];
+      for await (const event of events) {
+        if (isLiveCall && event.partial && isTranscriptionEvent(event)) {
+          isTranscribing = true;
+        }
+        if (isLiveCall && isTranscribing &&
+            (getFunctionCalls(event).length > 0 ||
+             getFunctionResponses(event).length > 0)) {
+          bufferedEvents.push(event);
+        } else {
+          if (shouldAppendEvent(event, isLiveCall)) {
+            await this.appendEvent({session, event});
           }
-          // Step 3: Run the on_event callbacks to optionally modify the event.
-          const modifiedEvent = await this.pluginManager.runOnEventCallback(
-              {invocationContext, event});
-          if (modifiedEvent) {
-            yield modifiedEvent;
-          } else {
-            yield event;
+          if (isTranscribing && !event.partial &&
+              isTranscriptionEvent(event)) {
+            isTranscribing = false;
+            for (const bufferedEvent of bufferedEvents.splice(0)) {
+              await this.appendEvent({session, event: bufferedEvent});
+            }
           }
         }
+
+        // Step 3: Run the on_event callbacks to optionally modify the event.
+        const modifiedEvent = await this.pluginManager.runOnEventCallback(
+            {invocationContext, event});
+        if (modifiedEvent) {
+          yield modifiedEvent;
+        } else {
+          yield event;
+        }
+      }
+
+      // Appends the events still buffered if the run ended in the middle of a
+      // transcription.
+      for (const bufferedEvent of bufferedEvents) {
+        await this.appendEvent({session, event: bufferedEvent});
       }
-      // Step 4: Run the after_run callbacks to optionally modify the context.
-      await this.pluginManager.runAfterRunCallback({invocationContext});
-    } finally {
-      span.end();
     }
+    // Step 4: Run the after_run callbacks to optionally modify the context.
+    await this.pluginManager.runAfterRunCallback({invocationContext});
   }
 
   /**
@@ -312,7 +540,31 @@ export class Runner {
     }
     return true;
   }
-  // TODO - b/425992518: Implement runLive and related methods.
+}
+
+/**
+ * Whether the event should be appended to the session.
+ *
+ * Partial events are never appended. In live mode, the events carrying the
+ * model audio are not appended either.
+ */
+function shouldAppendEvent(event: Event, isLiveCall: boolean): boolean {
+  if (event.partial) {
+    return false;
+  }
+  if (isLiveCall &&
+      event.content?.parts?.some(
+          (part) => part.inlineData?.mimeType?.startsWith('audio/'))) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Whether the event carries an input or output audio transcription.
+ */
+function isTranscriptionEvent(event: Event): boolean {
+  return !!(event.inputTranscription || event.outputTranscription);
 }
 
 /**
@@ -351,3 +603,35 @@ function findEventByLastFunctionResponseId(events: Event[]): Event|null {
   }
   return null;
 }
+
+/**
+ * In-process locks of the sessions, granted in the order they are requested.
+ */
+class SessionLocks {
+  /** A map from the session key to the release of its last holder. */
+  private readonly lastReleases = new Map<string, Promise<void>>();
+
+  /**
+   * Waits for the lock of the given session.
+   *
+   * @param key The key of the session.
+   * @return A promise that resolves to the function releasing the lock.
+   */
+  async acquire(key: string): Promise<() => void> {
+    const previousRelease = this.lastReleases.get(key);
+    let release!: () => void;
+    const currentRelease = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    this.lastReleases.set(key, currentRelease);
+
+    await previousRelease;
+
+    return () => {
+      if (this.lastReleases.get(key) === currentRelease) {
+        this.lastReleases.delete(key);
+      }
+      release();
+    };
+  }
+}
@@ -4,10 +4,15 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import {BaseArtifactService} from '../artifacts/base_artifact_service.js';
 import {Event} from '../events/event.js';
+import {BaseMemoryService} from '../memory/base_memory_service.js';
+import {base64Decode, base64Encode} from '../utils/env_aware_utils.js';
+import {logger} from '../utils/logger.js';
 
-import {Session} from './session.js';
+import {createSession, Session} from './session.js';
 import {State} from './state.js';
+import {StateSchema, validateStateDelta} from './state_schema.js';
 
 /**
  * The configuration of getting a session.
@@ -55,6 +60,33 @@ export interface ListSessionsRequest {
   appName: string;
   /** The ID of the user. */
   userId: string;
+  /**
+   * The maximum number of sessions to return, a positive integer. All the
+   * sessions are returned if not provided.
+   */
+  pageSize?: number;
+  /**
+   * The `nextPageToken` of the previous page, to get the next page. The
+   * ordering of the request must be the same as for the previous page.
+   */
+  pageToken?: string;
+  /**
+   * The field to order the sessions by. The sessions are ordered by their
+   * creation if not provided.
+   */
+  orderBy?: 'lastUpdateTime';
+  /** Whether to order the sessions in descending order. */
+  descending?: boolean;
+  /**
+   * Only returns the sessions whose state has the given values for the given
+   * keys, including the app and user state.
+   */
+  stateFilter?: Record<string, unknown>;
+  /**
+   * Whether to return the sessions with their state and events. Only the
+   * metadata of the sessions is returned by default.
+   */
+  includeStateAndEvents?: boolean;
 }
 
 /**
@@ -79,16 +111,129 @@ export interface AppendEventRequest {
   event: Event;
 }
 
+/**
+ * The parameters for `rewindSession`.
+ */
+export interface RewindSessionRequest {
+  /** The name of the application. */
+  appName: string;
+  /** The ID of the user. */
+  userId: string;
+  /** The ID of the session. */
+  sessionId: string;
+  /**
+   * The ID of the event to rewind the session to. The event and all the events
+   * after it are removed.
+   */
+  eventId: string;
+  /**
+   * The artifact service to revert the artifacts changed by the removed events
+   * in. The artifacts are not reverted if not provided.
+   */
+  artifactService?: BaseArtifactService;
+}
+
+/**
+ * The parameters for `forkSession`.
+ */
+export interface ForkSessionRequest {
+  /** The name of the application. */
+  appName: string;
+  /** The ID of the user. */
+  userId: string;
+  /** The ID of the session to fork. */
+  sessionId: string;
+  /**
+   * The ID of the last event to copy to the new session. All the events are
+   * copied if not provided.
+   */
+  eventId?: string;
+  /** The ID of the new session. A new ID will be generated if not provided. */
+  newSessionId?: string;
+  /**
+   * The artifact service to copy the artifacts of the copied events in. The
+   * artifacts are not copied if not provided.
+   */
+  artifactService?: BaseArtifactService;
+}
+
+/**
+ * The parameters for `purgeExpiredSessions`.
+ */
+export interface PurgeExpiredSessionsRequest {
+  /**
+   * The name of the application to purge the expired sessions of. The expired
+   * sessions of all the applications are purged if not provided.
+   */
+  appName?: string;
+}
+
+/**
+ * The options of the session services.
+ */
+export interface SessionServiceOptions {
+  /**
+   * The time to live of the sessions in milliseconds, since their last update.
+   * The sessions never expire if not provided.
+   */
+  ttlMs?: number;
+  /**
+   * The time to live of the sessions of specific applications in milliseconds,
+   * overriding `ttlMs`.
+   */
+  appTtlMs?: Record<string, number>;
+  /**
+   * The interval in milliseconds to purge the expired sessions in the
+   * background. The expired sessions are only purged by `purgeExpiredSessions`
+   * or when they are accessed if not provided.
+   */
+  cleanupIntervalMs?: number;
+  /**
+   * The artifact service to delete the artifacts of the expired sessions from.
+   */
+  artifactService?: BaseArtifactService;
+  /**
+   * The memory service to add the expired sessions to before they are deleted.
+   */
+  memoryService?: BaseMemoryService;
+  /**
+   * The state schemas of specific applications. The state deltas of the events
+   * appended to their sessions are validated against them, whether or not the
+   * events are appended by a runner.
+   */
+  appStateSchemas?: Record<string, StateSchema>;
+}
+
 /**
  * The response of listing sessions.
  *
- * The events and states are not set within each Session object.
+ * The events and states are not set within each Session object, unless
+ * `includeStateAndEvents` is set in the request.
  */
 export interface ListSessionsResponse {
   /** A list of sessions. */
   sessions: Session[];
+  /**
+   * The token to get the next page of sessions. Not set if there are no more
+   * sessions.
+   */
+  nextPageToken?: string;
 }
 
+/**
+ * Thrown when appending an event to a session that has been modified in the
+ * session service since it was loaded, e.g. by a concurrent invocation.
+ *
+ * The session should be reloaded before appending more events to it.
+ */
+export class StaleSessionError extends Error {}
+
+/**
+ * Thrown when listing sessions with a page token that was not returned by
+ * `listSessions` for the same ordering.
+ */
+export class InvalidPageTokenError extends Error {}
+
 /**
  * Base class for session services.
  *
@@ -96,6 +241,24 @@ export interface ListSessionsResponse {
  */
 // TODO - b/425992518: can held session internally to make the API simpler.
 export abstract class BaseSessionService {
+  private cleanupTimer?: ReturnType<typeof setInterval>;
+
+  /**
+   * @param options The options of the session service, e.g. the time to live
+   *     of the sessions.
+   */
+  constructor(protected readonly options: SessionServiceOptions = {}) {
+    if (options.cleanupIntervalMs) {
+      this.cleanupTimer = setInterval(() => {
+        this.purgeExpiredSessions().catch((e: unknown) => {
+          logger.warn('Failed to purge the expired sessions:', e);
+        });
+      }, options.cleanupIntervalMs);
+      // Does not keep the Node.js process alive for the cleanup only.
+      (this.cleanupTimer as {unref?: () => void}).unref?.();
+    }
+  }
+
   /**
    * Creates a new session.
    *
@@ -130,23 +293,391 @@ export abstract class BaseSessionService {
    */
   abstract deleteSession(request: DeleteSessionRequest): Promise<void>;
 
+  /**
+   * Rewinds a session to before the given event.
+   *
+   * The event and all the events after it are removed, and the session state
+   * is recomputed from the initial state and the state deltas of the remaining
+   * events. The app and user state are shared with other sessions and are not
+   * reverted.
+   *
+   * @param request The request to rewind a session.
+   * @return A promise that resolves to the rewound session.
+   */
+  rewindSession({sessionId}: RewindSessionRequest): Promise<Session> {
+    return Promise.reject(new Error(`Failed to rewind session ${
+        sessionId}: rewindSession is not supported by ${
+        this.constructor.name}.`));
+  }
+
+  /**
+   * Forks a session into a new session, with the events up to and including
+   * the given event.
+   *
+   * @param request The request to fork a session.
+   * @return A promise that resolves to the new session.
+   */
+  forkSession({sessionId}: ForkSessionRequest): Promise<Session> {
+    return Promise.reject(new Error(`Failed to fork session ${
+        sessionId}: forkSession is not supported by ${
+        this.constructor.name}.`));
+  }
+
+  /**
+   * Deletes the sessions that have not been updated within their time to live.
+   *
+   * The artifacts of the expired sessions are deleted from the configured
+   * artifact service, and the sessions are added to the configured memory
+   * service before they are deleted.
+   *
+   * @param request The request to purge the expired sessions.
+   * @return A promise that resolves to the number of purged sessions.
+   */
+  purgeExpiredSessions({appName}: PurgeExpiredSessionsRequest = {}):
+      Promise<number> {
+    const scope = appName === undefined ? '' : ` of app ${appName}`;
+    return Promise.reject(new Error(
+        `Failed to purge the expired sessions${scope}: purgeExpiredSessions ` +
+        `is not supported by ${this.constructor.name}.`));
+  }
+
+  /**
+   * Stops purging the expired sessions in the background.
+   */
+  stopCleanup(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = undefined;
+    }
+  }
+
   /**
    * Appends an event to a session.
    *
    * @param request The request to append an event.
    * @return A promise that resolves to the event that was appended.
+   * @throws StateValidationError If the state delta of the event does not
+   *     match the state schema of the app.
    */
   async appendEvent({session, event}: AppendEventRequest): Promise<Event> {
     if (event.partial) {
       return event;
     }
 
+    this.validateEventState(session, event);
     this.updateSessionState({session, event});
     session.events.push(event);
 
     return event;
   }
 
+  /**
+   * Filters, orders and paginates the sessions of a user as requested.
+   *
+   * The page token holds the ordering key of the last session of the page, so
+   * that the next page starts after it even if sessions are created or deleted
+   * in the meantime.
+   *
+   * @param sessions The sessions of the user, with their state, their events
+   *     if requested, and the time of their creation.
+   * @param request The request to list sessions.
+   * @return The requested page of sessions.
+   */
+  protected paginateSessions(
+      sessions: Array<{session: Session, createTime: number}>,
+      request: ListSessionsRequest): ListSessionsResponse {
+    const {pageSize, orderBy, descending, stateFilter} = request;
+    const cursor = this.getPageCursor(request);
+    const direction = descending ? -1 : 1;
+    const matchingSessions =
+        sessions
+            .filter(
+                ({session}) => this.matchesStateFilter(session, stateFilter))
+            .map(entry => ({...entry, key: getSortKey(entry, orderBy)}))
+            .sort((a, b) => direction * compareSortKeys(a.key, b.key))
+            .filter(
+                ({key}) =>
+                    !cursor || direction * compareSortKeys(key, cursor) > 0);
+
+    const page =
+        pageSize ? matchingSessions.slice(0, pageSize) : matchingSessions;
+
+    return this.createSessionsPage(
+        page, page.length < matchingSessions.length, request);
+  }
+
+  /**
+   * Returns whether the state of the session has the given values for the
+   * given keys.
+   *
+   * @param session The session, with its app and user state.
+   * @param stateFilter The values of the state keys to match.
+   */
+  protected matchesStateFilter(
+      session: Pick<Session, 'state'>,
+      stateFilter?: Record<string, unknown>): boolean {
+    return Object.entries(stateFilter ?? {})
+        .every(
+            ([key, value]) =>
+                JSON.stringify(session.state[key]) === JSON.stringify(value));
+  }
+
+  /**
+   * Returns the ordering key of the last session of the previous page, or
+   * undefined for the first page.
+   *
+   * @param request The request to list sessions.
+   * @throws Error If the page size is not a positive integer.
+   * @throws InvalidPageTokenError If the page token is invalid for the
+   *     requested ordering.
+   */
+  protected getPageCursor({pageSize, pageToken, orderBy}: ListSessionsRequest):
+      Array<number|string>|undefined {
+    if (pageSize !== undefined &&
+        (!Number.isInteger(pageSize) || pageSize <= 0)) {
+      throw new Error(`Invalid page size: ${pageSize}`);
+    }
+    if (pageToken === undefined) {
+      return undefined;
+    }
+
+    let cursor: unknown;
+    try {
+      cursor = JSON.parse(base64Decode(pageToken)).after;
+    } catch {
+      cursor = undefined;
+    }
+    const numberCount = orderBy === 'lastUpdateTime' ? 2 : 1;
+    if (!Array.isArray(cursor) || cursor.length !== numberCount + 1 ||
+        !cursor.slice(0, numberCount).every(Number.isFinite) ||
+        typeof cursor[numberCount] !== 'string') {
+      throw new InvalidPageTokenError(`Invalid page token: ${pageToken}`);
+    }
+
+    return cursor;
+  }
+
+  /**
+   * Creates a page of the listed sessions, with only their metadata unless
+   * their state and events are requested.
+   *
+   * @param sessions The sessions of the page, in order, with the time of their
+   *     creation.
+   * @param hasNextPage Whether more sessions follow the page.
+   * @param request The request to list sessions.
+   * @return The page of sessions.
+   */
+  protected createSessionsPage(
+      sessions: Array<{session: Session, createTime: number}>,
+      hasNextPage: boolean,
+      {orderBy, includeStateAndEvents}: ListSessionsRequest,
+      ): ListSessionsResponse {
+    const lastSession = sessions[sessions.length - 1];
+
+    return {
+      sessions: sessions.map(
+          ({session}) => includeStateAndEvents ?
+              session :
+              createSession({
+                id: session.id,
+                appName: session.appName,
+                userId: session.userId,
+                state: {},
+                events: [],
+                lastUpdateTime: session.lastUpdateTime,
+              })),
+      nextPageToken: hasNextPage && lastSession ?
+          base64Encode(
+              JSON.stringify({after: getSortKey(lastSession, orderBy)})) :
+          undefined,
+    };
+  }
+
+  /**
+   * Validates the state delta of the event against the state schema of the
+   * app of the session, if any. Must be called before the event is stored.
+   *
+   * @param session The session to append the event to.
+   * @param event The event to append.
+   * @throws StateValidationError If the state delta does not match the state
+   *     schema.
+   */
+  protected validateEventState(session: Session, event: Event): void {
+    const stateSchema = this.options.appStateSchemas?.[session.appName];
+    if (stateSchema && event.actions?.stateDelta) {
+      validateStateDelta(
+          stateSchema, event.actions.stateDelta,
+          `event author "${event.author}"`);
+    }
+  }
+
+  /**
+   * Checks that the session has not been modified in the storage since it was
+   * loaded.
+   *
+   * @param session The session to append an event to.
+   * @param storedLastUpdateTime The last update time of the stored session.
+   * @throws StaleSessionError If the stored session has been modified.
+   */
+  protected checkSessionNotStale(
+      session: Session, storedLastUpdateTime: number): void {
+    if (session.lastUpdateTime !== storedLastUpdateTime) {
+      throw new StaleSessionError(`Session ${
+          session.id} has been modified since it was loaded. Reload the session and try again.`);
+    }
+  }
+
+  /**
+   * Returns the time to live of the sessions of the given app in milliseconds,
+   * or undefined if the sessions never expire.
+   */
+  protected getSessionTtl(appName: string): number|undefined {
+    return this.options.appTtlMs?.[appName] ?? this.options.ttlMs;
+  }
+
+  /**
+   * Returns whether the session has not been updated within its time to live.
+   *
+   * @param session The app name and the last update time of the session.
+   * @param now The current time in milliseconds.
+   */
+  protected isSessionExpired(
+      session: Pick<Session, 'appName'|'lastUpdateTime'>,
+      now: number = Date.now()): boolean {
+    const ttl = this.getSessionTtl(session.appName);
+
+    return ttl !== undefined && now - session.lastUpdateTime > ttl;
+  }
+
+  /**
+   * Cleans up the resources of an expired session before it is deleted. The
+   * session is added to the configured memory service, and its artifacts are
+   * deleted from the configured artifact service. The user scoped artifacts
+   * are shared with other sessions and are not deleted.
+   *
+   * @param session The expired session, with its events.
+   */
+  protected async cleanUpExpiredSession(session: Session): Promise<void> {
+    const {memoryService, artifactService} = this.options;
+    if (memoryService) {
+      await memoryService.addSessionToMemory(session);
+    }
+    if (!artifactService) {
+      return;
+    }
+
+    const artifactKey = {
+      appName: session.appName,
+      userId: session.userId,
+      sessionId: session.id,
+    };
+    const filenames = await artifactService.listArtifactKeys(artifactKey);
+    for (const filename of filenames) {
+      if (!filename.startsWith(State.USER_PREFIX)) {
+        await artifactService.deleteArtifact({...artifactKey, filename});
+      }
+    }
+  }
+
+  /**
+   * Reverts the artifacts changed by the removed events of a session to the
+   * versions of the remaining events. The artifacts created by the removed
+   * events are deleted. The user scoped artifacts are shared with other
+   * sessions and are not reverted.
+   *
+   * @param params The session, its remaining and removed events, and the
+   *     artifact service to revert the artifacts in.
+   */
+  protected async revertArtifactDeltas({
+    session,
+    keptEvents,
+    removedEvents,
+    artifactService,
+  }: {
+    session: Session; keptEvents: Event[]; removedEvents: Event[];
+    artifactService: BaseArtifactService;
+  }): Promise<void> {
+    const keptVersions = getArtifactVersions(keptEvents);
+    const changedFilenames = Object.keys(getArtifactVersions(removedEvents));
+    const artifactKey = {
+      appName: session.appName,
+      userId: session.userId,
+      sessionId: session.id,
+    };
+
+    for (const filename of changedFilenames) {
+      if (filename.startsWith(State.USER_PREFIX)) {
+        continue;
+      }
+
+      const version = keptVersions[filename];
+      if (version === undefined) {
+        await artifactService.deleteArtifact({...artifactKey, filename});
+        continue;
+      }
+
+      const artifact = await artifactService.loadArtifact(
+          {...artifactKey, filename, version});
+      if (artifact) {
+        await artifactService.saveArtifact(
+            {...artifactKey, filename, artifact});
+      }
+    }
+  }
+
+  /**
+   * Copies the artifacts of the given events from a session to another, up to
+   * the versions referenced by the events. The user scoped artifacts are
+   * shared with other sessions and are not copied.
+   *
+   * @param params The source and target sessions, the copied events, and the
+   *     artifact service to copy the artifacts in.
+   */
+  protected async copyArtifacts({
+    session,
+    newSession,
+    events,
+    artifactService,
+  }: {
+    session: Session; newSession: Session; events: Event[];
+    artifactService: BaseArtifactService;
+  }): Promise<void> {
+    for (const [filename, lastVersion] of Object.entries(
+             getArtifactVersions(events))) {
+      if (filename.startsWith(State.USER_PREFIX)) {
+        continue;
+      }
+
+      const versions = await artifactService.listVersions({
+        appName: session.appName,
+        userId: session.userId,
+        sessionId: session.id,
+        filename,
+      });
+      for (const version of versions.sort((a, b) => a - b)) {
+        if (version > lastVersion) {
+          break;
+        }
+        const artifact = await artifactService.loadArtifact({
+          appName: session.appName,
+          userId: session.userId,
+          sessionId: session.id,
+          filename,
+          version,
+        });
+        if (artifact) {
+          await artifactService.saveArtifact({
+            appName: newSession.appName,
+            userId: newSession.userId,
+            sessionId: newSession.id,
+            filename,
+            artifact,
+          });
+        }
+      }
+    }
+  }
+
   /**
    * Updates the session state based on the event.
    *
@@ -164,3 +695,38 @@ export abstract class BaseSessionService {
     }
   }
 }
+
+/**
+ * Returns the key the sessions are ordered by. The sessions are ordered by
+ * their creation by default, and the ties are broken by their ID.
+ */
+function getSortKey(
+    {session, createTime}: {session: Session, createTime: number},
+    orderBy?: 'lastUpdateTime'): Array<number|string> {
+  return orderBy === 'lastUpdateTime' ?
+      [session.lastUpdateTime, createTime, session.id] :
+      [createTime, session.id];
+}
+
+function compareSortKeys(
+    a: Array<number|string>, b: Array<number|string>): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) {
+      return a[i] < b[i] ? -1 : 1;
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * Returns the latest version of each artifact changed by the given events.
+ */
+function getArtifactVersions(events: Event[]): Record<string, number> {
+  const versions: Record<string, number> = {};
+  for (const event of events) {
+    Object.assign(versions, event.actions?.artifactDelta ?? {});
+  }
+
+  return versions;
+}
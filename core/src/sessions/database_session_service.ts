@@ -0,0 +1,635 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type Database from 'better-sqlite3';
+
+import {Event} from '../events/event.js';
+import {randomUUID} from '../utils/env_aware_utils.js';
+import {logger} from '../utils/logger.js';
+
+import {AppendEventRequest, BaseSessionService, CreateSessionRequest, DeleteSessionRequest, ForkSessionRequest, GetSessionConfig, GetSessionRequest, ListSessionsRequest, ListSessionsResponse, PurgeExpiredSessionsRequest, RewindSessionRequest, SessionServiceOptions} from './base_session_service.js';
+import {createSession, findEventIndex, Session} from './session.js';
+import {mergeState, replayStateDeltas, splitStateDelta} from './state_util.js';
+
+const SQLITE_URL_PREFIX = 'sqlite://';
+
+/**
+ * The schema of the session tables. Only portable SQL is used so that the
+ * same schema can back other SQL databases, e.g. PostgreSQL.
+ */
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS sessions (
+  app_name VARCHAR(128) NOT NULL,
+  user_id VARCHAR(128) NOT NULL,
+  id VARCHAR(128) NOT NULL,
+  state TEXT NOT NULL,
+  initial_state TEXT NOT NULL,
+  create_time DOUBLE PRECISION NOT NULL,
+  update_time DOUBLE PRECISION NOT NULL,
+  PRIMARY KEY (app_name, user_id, id)
+);
+
+CREATE TABLE IF NOT EXISTS events (
+  app_name VARCHAR(128) NOT NULL,
+  user_id VARCHAR(128) NOT NULL,
+  session_id VARCHAR(128) NOT NULL,
+  id VARCHAR(128) NOT NULL,
+  position INTEGER NOT NULL,
+  invocation_id VARCHAR(256) NOT NULL,
+  author VARCHAR(256) NOT NULL,
+  timestamp DOUBLE PRECISION NOT NULL,
+  event_data TEXT NOT NULL,
+  PRIMARY KEY (app_name, user_id, session_id, id),
+  FOREIGN KEY (app_name, user_id, session_id)
+    REFERENCES sessions (app_name, user_id, id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS events_by_position
+  ON events (app_name, user_id, session_id, position);
+
+CREATE TABLE IF NOT EXISTS app_states (
+  app_name VARCHAR(128) NOT NULL,
+  state TEXT NOT NULL,
+  update_time DOUBLE PRECISION NOT NULL,
+  PRIMARY KEY (app_name)
+);
+
+CREATE TABLE IF NOT EXISTS user_states (
+  app_name VARCHAR(128) NOT NULL,
+  user_id VARCHAR(128) NOT NULL,
+  state TEXT NOT NULL,
+  update_time DOUBLE PRECISION NOT NULL,
+  PRIMARY KEY (app_name, user_id)
+);
+`;
+
+interface SessionRow {
+  app_name: string;
+  user_id: string;
+  id: string;
+  state: string;
+  /** The session state the session was created with. */
+  initial_state: string;
+  create_time: number;
+  update_time: number;
+}
+
+interface EventRow {
+  event_data: string;
+}
+
+interface StateRow {
+  state: string;
+}
+
+/**
+ * A session service backed by a SQL database.
+ *
+ * Sessions and their events are stored in the `sessions` and `events` tables.
+ * The `app:` and `user:` prefixed state is stored in the `app_states` and
+ * `user_states` tables without the prefix, and merged back into the session
+ * state when the session is read. The `temp:` prefixed state is never stored.
+ *
+ * Only SQLite is supported for now, e.g. `sqlite:///path/to/sessions.db` or
+ * `sqlite://` for an in-memory database. SQLite is accessed with the
+ * `better-sqlite3` package, an optional peer dependency that is loaded when
+ * the database is first used.
+ */
+export class DatabaseSessionService extends BaseSessionService {
+  private readonly filename: string;
+  private database?: Database.Database;
+  private databasePromise?: Promise<Database.Database>;
+
+  /**
+   * @param dbUrl The URL of the database, e.g. `sqlite:///sessions.db`.
+   * @param options The options of the session service.
+   */
+  constructor(dbUrl: string, options?: SessionServiceOptions) {
+    super(options);
+    this.filename = getSqliteFilename(dbUrl);
+  }
+
+  async createSession({appName, userId, state, sessionId}:
+                          CreateSessionRequest): Promise<Session> {
+    await this.openDatabase();
+    const id = sessionId?.trim() || randomUUID();
+    const deltas = splitStateDelta(state ?? {});
+    const now = Date.now();
+
+    this.db.transaction(() => {
+      if (this.getSessionRow(appName, userId, id)) {
+        throw new Error(`Session with id ${id} already exists.`);
+      }
+
+      this.updateAppState(appName, deltas.app, now);
+      this.updateUserState(appName, userId, deltas.user, now);
+      const sessionState = JSON.stringify(deltas.session);
+      this.db
+          .prepare(
+              `INSERT INTO sessions
+                 (app_name, user_id, id, state, initial_state, create_time,
+                  update_time)
+               VALUES (?, ?, ?, ?, ?, ?, ?)`)
+          .run(appName, userId, id, sessionState, sessionState, now, now);
+    })();
+
+    return createSession({
+      id,
+      appName,
+      userId,
+      state: this.mergeState(appName, userId, deltas.session),
+      events: [],
+      lastUpdateTime: now,
+    });
+  }
+
+  async getSession({appName, userId, sessionId, config}: GetSessionRequest):
+      Promise<Session|undefined> {
+    await this.openDatabase();
+    const row = this.getSessionRow(appName, userId, sessionId);
+    if (!row) {
+      return undefined;
+    }
+    if (this.isSessionExpired({appName, lastUpdateTime: row.update_time})) {
+      await this.deleteExpiredSession(row);
+      return undefined;
+    }
+
+    return this.readSession(row, config);
+  }
+
+  /**
+   * Lists the sessions of a user.
+   *
+   * The sessions are ordered, paginated and filtered by their expiry in the
+   * query. The state filter applies to the state merged with the app and user
+   * state, so it is applied to the rows as they are read, until the page is
+   * full.
+   */
+  async listSessions(request: ListSessionsRequest):
+      Promise<ListSessionsResponse> {
+    const {appName, userId, pageSize, orderBy, descending, stateFilter} =
+        request;
+    const cursor = this.getPageCursor(request);
+    await this.openDatabase();
+
+    const columns = orderBy === 'lastUpdateTime' ?
+        ['update_time', 'create_time', 'id'] :
+        ['create_time', 'id'];
+    const conditions = ['app_name = ?', 'user_id = ?'];
+    const params: Array<number|string> = [appName, userId];
+    const ttl = this.getSessionTtl(appName);
+    if (ttl !== undefined) {
+      conditions.push('update_time >= ?');
+      params.push(Date.now() - ttl);
+    }
+    if (cursor) {
+      conditions.push(`(${columns.join(', ')}) ${descending ? '<' : '>'} (${
+          columns.map(() => '?').join(', ')})`);
+      params.push(...cursor);
+    }
+    const order = columns.map(c => `${c} ${descending ? 'DESC' : 'ASC'}`);
+    // One more row is read to know whether there is a next page.
+    const limit = pageSize && !stateFilter ? ` LIMIT ${pageSize + 1}` : '';
+    const rows = this.db
+                     .prepare(`SELECT * FROM sessions
+                               WHERE ${conditions.join(' AND ')}
+                               ORDER BY ${order.join(', ')}${limit}`)
+                     .iterate(...params) as IterableIterator<SessionRow>;
+
+    const appState = this.getAppState(appName);
+    const userState = this.getUserState(appName, userId);
+    const pageRows: Array<{row: SessionRow, session: Session}> = [];
+    let hasNextPage = false;
+    for (const row of rows) {
+      const session = createSession({
+        id: row.id,
+        appName: row.app_name,
+        userId: row.user_id,
+        state: mergeState(JSON.parse(row.state), appState, userState),
+        events: [],
+        lastUpdateTime: row.update_time,
+      });
+      if (!this.matchesStateFilter(session, stateFilter)) {
+        continue;
+      }
+      if (pageSize && pageRows.length === pageSize) {
+        hasNextPage = true;
+        break;
+      }
+      pageRows.push({row, session});
+    }
+
+    // The events are read once the rows are read, as the database connection
+    // cannot run other queries while iterating.
+    return this.createSessionsPage(
+        pageRows.map(({row, session}) => ({
+                       session: request.includeStateAndEvents ?
+                           this.readSession(row) :
+                           session,
+                       createTime: row.create_time,
+                     })),
+        hasNextPage, request);
+  }
+
+  async deleteSession({appName, userId, sessionId}: DeleteSessionRequest):
+      Promise<void> {
+    await this.openDatabase();
+    // The events of the session are deleted by the foreign key cascade.
+    this.db
+        .prepare(
+            'DELETE FROM sessions WHERE app_name = ? AND user_id = ? AND id = ?')
+        .run(appName, userId, sessionId);
+  }
+
+  override async purgeExpiredSessions({appName}:
+                                          PurgeExpiredSessionsRequest = {}):
+      Promise<number> {
+    await this.openDatabase();
+    const now = Date.now();
+    const appNames = appName !== undefined ?
+        [appName] :
+        (this.db.prepare('SELECT DISTINCT app_name FROM sessions').all() as
+         Array<{app_name: string}>)
+            .map(row => row.app_name);
+
+    let purgedCount = 0;
+    for (const name of appNames) {
+      const ttl = this.getSessionTtl(name);
+      if (ttl === undefined) {
+        continue;
+      }
+
+      const rows = this.db
+                       .prepare(
+                           `SELECT * FROM sessions
+                            WHERE app_name = ? AND update_time < ?`)
+                       .all(name, now - ttl) as SessionRow[];
+      for (const row of rows) {
+        await this.deleteExpiredSession(row);
+      }
+      purgedCount += rows.length;
+    }
+
+    return purgedCount;
+  }
+
+  override async rewindSession({
+    appName,
+    userId,
+    sessionId,
+    eventId,
+    artifactService,
+  }: RewindSessionRequest): Promise<Session> {
+    const session = await this.getSession({appName, userId, sessionId});
+    if (!session) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+    const index = findEventIndex(session, eventId);
+    const keptEvents = session.events.slice(0, index);
+
+    if (artifactService) {
+      await this.revertArtifactDeltas({
+        session,
+        keptEvents,
+        removedEvents: session.events.slice(index),
+        artifactService,
+      });
+    }
+
+    this.db.transaction(() => {
+      const row = this.getSessionRow(appName, userId, sessionId);
+      if (!row) {
+        throw new Error(`Session not found: ${sessionId}`);
+      }
+      const sessionState =
+          splitStateDelta(
+              replayStateDeltas(JSON.parse(row.initial_state), keptEvents))
+              .session;
+
+      this.db
+          .prepare(
+              `DELETE FROM events
+               WHERE app_name = ? AND user_id = ? AND session_id = ?
+                 AND position >= (
+                   SELECT position FROM events
+                   WHERE app_name = ? AND user_id = ? AND session_id = ?
+                     AND id = ?)`)
+          .run(
+              appName, userId, sessionId, appName, userId, sessionId, eventId);
+      // Always changes the update time, so that the sessions loaded before
+      // the rewind are detected as stale.
+      this.db
+          .prepare(
+              `UPDATE sessions SET state = ?, update_time = ?
+               WHERE app_name = ? AND user_id = ? AND id = ?`)
+          .run(
+              JSON.stringify(sessionState),
+              Math.max(Date.now(), row.update_time + 1), appName, userId,
+              sessionId);
+    })();
+
+    return this.readSession(this.getSessionRow(appName, userId, sessionId)!);
+  }
+
+  override async forkSession({
+    appName,
+    userId,
+    sessionId,
+    eventId,
+    newSessionId,
+    artifactService,
+  }: ForkSessionRequest): Promise<Session> {
+    const session = await this.getSession({appName, userId, sessionId});
+    if (!session) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+    const events = eventId === undefined ?
+        session.events :
+        session.events.slice(0, findEventIndex(session, eventId) + 1);
+    const id = newSessionId?.trim() || randomUUID();
+    if (this.getSessionRow(appName, userId, id)) {
+      throw new Error(`Session with id ${id} already exists.`);
+    }
+
+    if (artifactService) {
+      await this.copyArtifacts({
+        session,
+        newSession: createSession({id, appName, userId}),
+        events,
+        artifactService,
+      });
+    }
+
+    const now = Date.now();
+    this.db.transaction(() => {
+      const row = this.getSessionRow(appName, userId, sessionId);
+      if (!row) {
+        throw new Error(`Session not found: ${sessionId}`);
+      }
+      if (this.getSessionRow(appName, userId, id)) {
+        throw new Error(`Session with id ${id} already exists.`);
+      }
+      const sessionState =
+          splitStateDelta(
+              replayStateDeltas(JSON.parse(row.initial_state), events))
+              .session;
+
+      this.db
+          .prepare(
+              `INSERT INTO sessions
+                 (app_name, user_id, id, state, initial_state, create_time,
+                  update_time)
+               VALUES (?, ?, ?, ?, ?, ?, ?)`)
+          .run(
+              appName, userId, id, JSON.stringify(sessionState),
+              row.initial_state, now, now);
+      const insertEvent = this.db.prepare(
+          `INSERT INTO events
+             (app_name, user_id, session_id, id, position, invocation_id,
+              author, timestamp, event_data)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`);
+      for (const [position, event] of events.entries()) {
+        insertEvent.run(
+            appName, userId, id, event.id, position, event.invocationId,
+            event.author ?? '', event.timestamp, JSON.stringify(event));
+      }
+    })();
+
+    return this.readSession(this.getSessionRow(appName, userId, id)!);
+  }
+
+  override async appendEvent({session, event}: AppendEventRequest):
+      Promise<Event> {
+    if (event.partial) {
+      return event;
+    }
+    this.validateEventState(session, event);
+    await this.openDatabase();
+
+    const appName = session.appName;
+    const userId = session.userId;
+    const sessionId = session.id;
+
+    this.db.transaction(() => {
+      const row = this.getSessionRow(appName, userId, sessionId);
+      if (!row) {
+        logger.warn(`Failed to append event to session ${
+            sessionId}: session not found in the database`);
+        return;
+      }
+      this.checkSessionNotStale(session, row.update_time);
+
+      const deltas = splitStateDelta(event.actions?.stateDelta ?? {});
+      this.updateAppState(appName, deltas.app, event.timestamp);
+      this.updateUserState(appName, userId, deltas.user, event.timestamp);
+
+      const sessionState = {...JSON.parse(row.state), ...deltas.session};
+      this.db
+          .prepare(
+              `UPDATE sessions SET state = ?, update_time = ?
+               WHERE app_name = ? AND user_id = ? AND id = ?`)
+          .run(
+              JSON.stringify(sessionState), event.timestamp, appName, userId,
+              sessionId);
+
+      this.db
+          .prepare(
+              `INSERT INTO events
+                 (app_name, user_id, session_id, id, position, invocation_id,
+                  author, timestamp, event_data)
+               SELECT ?, ?, ?, ?, COALESCE(MAX(position), -1) + 1, ?, ?, ?, ?
+               FROM events
+               WHERE app_name = ? AND user_id = ? AND session_id = ?`)
+          .run(
+              appName, userId, sessionId, event.id, event.invocationId,
+              event.author ?? '', event.timestamp, JSON.stringify(event),
+              appName, userId, sessionId);
+    })();
+
+    await super.appendEvent({session, event});
+    session.lastUpdateTime = event.timestamp;
+
+    return event;
+  }
+
+  /**
+   * Closes the underlying database connection.
+   */
+  close(): void {
+    this.stopCleanup();
+    this.database?.close();
+  }
+
+  /**
+   * Loads the SQLite driver and opens the database on first use.
+   */
+  private async openDatabase(): Promise<void> {
+    this.databasePromise ??= loadSqlite().then(Sqlite => {
+      const db = new Sqlite(this.filename);
+      db.pragma('foreign_keys = ON');
+      db.exec(SCHEMA);
+      return db;
+    });
+    this.database = await this.databasePromise;
+  }
+
+  /**
+   * The database, which is opened by `openDatabase` before it is used.
+   */
+  private get db(): Database.Database {
+    if (!this.database) {
+      throw new Error('The database is not open.');
+    }
+    return this.database;
+  }
+
+  private readSession(row: SessionRow, config?: GetSessionConfig): Session {
+    const conditions = ['app_name = ?', 'user_id = ?', 'session_id = ?'];
+    const params: unknown[] = [row.app_name, row.user_id, row.id];
+    if (config?.afterTimestamp) {
+      conditions.push('timestamp >= ?');
+      params.push(config.afterTimestamp);
+    }
+    let query = `SELECT event_data FROM events WHERE ${
+        conditions.join(' AND ')} ORDER BY position DESC`;
+    if (config?.numRecentEvents) {
+      query += ' LIMIT ?';
+      params.push(config.numRecentEvents);
+    }
+
+    const eventRows = this.db.prepare(query).all(...params) as EventRow[];
+    const events = eventRows.reverse().map(
+        eventRow => JSON.parse(eventRow.event_data) as Event);
+
+    return createSession({
+      id: row.id,
+      appName: row.app_name,
+      userId: row.user_id,
+      state: this.mergeState(row.app_name, row.user_id, JSON.parse(row.state)),
+      events,
+      lastUpdateTime: row.update_time,
+    });
+  }
+
+  private async deleteExpiredSession(row: SessionRow): Promise<void> {
+    await this.cleanUpExpiredSession(this.readSession(row));
+    await this.deleteSession(
+        {appName: row.app_name, userId: row.user_id, sessionId: row.id});
+  }
+
+  private getSessionRow(appName: string, userId: string, sessionId: string):
+      SessionRow|undefined {
+    const row =
+        this.db
+            .prepare(
+                'SELECT * FROM sessions WHERE app_name = ? AND user_id = ? AND id = ?')
+            .get(appName, userId, sessionId);
+
+    return row as SessionRow | undefined;
+  }
+
+  private getAppState(appName: string): Record<string, unknown> {
+    const row =
+        this.db.prepare('SELECT state FROM app_states WHERE app_name = ?')
+            .get(appName) as StateRow | undefined;
+
+    return row ? JSON.parse(row.state) : {};
+  }
+
+  private getUserState(appName: string, userId: string):
+      Record<string, unknown> {
+    const row =
+        this.db
+            .prepare(
+                'SELECT state FROM user_states WHERE app_name = ? AND user_id = ?')
+            .get(appName, userId) as StateRow | undefined;
+
+    return row ? JSON.parse(row.state) : {};
+  }
+
+  private updateAppState(
+      appName: string, delta: Record<string, unknown>, updateTime: number) {
+    if (Object.keys(delta).length === 0) {
+      return;
+    }
+
+    const state = {...this.getAppState(appName), ...delta};
+    this.db
+        .prepare(
+            `INSERT INTO app_states (app_name, state, update_time)
+             VALUES (?, ?, ?)
+             ON CONFLICT (app_name) DO UPDATE
+             SET state = excluded.state, update_time = excluded.update_time`)
+        .run(appName, JSON.stringify(state), updateTime);
+  }
+
+  private updateUserState(
+      appName: string, userId: string, delta: Record<string, unknown>,
+      updateTime: number) {
+    if (Object.keys(delta).length === 0) {
+      return;
+    }
+
+    const state = {...this.getUserState(appName, userId), ...delta};
+    this.db
+        .prepare(
+            `INSERT INTO user_states (app_name, user_id, state, update_time)
+             VALUES (?, ?, ?, ?)
+             ON CONFLICT (app_name, user_id) DO UPDATE
+             SET state = excluded.state, update_time = excluded.update_time`)
+        .run(appName, userId, JSON.stringify(state), updateTime);
+  }
+
+  private mergeState(
+      appName: string,
+      userId: string,
+      sessionState: Record<string, unknown>,
+      ): Record<string, unknown> {
+    return mergeState(
+        sessionState, this.getAppState(appName),
+        this.getUserState(appName, userId));
+  }
+}
+
+/**
+ * Loads the `better-sqlite3` package, which is an optional peer dependency.
+ */
+async function loadSqlite(): Promise<typeof Database> {
+  try {
+    return (await import('better-sqlite3')).default;
+  } catch (e: unknown) {
+    const code = (e as NodeJS.ErrnoException).code;
+    if (code === 'ERR_MODULE_NOT_FOUND' || code === 'MODULE_NOT_FOUND') {
+      throw new Error(
+          'DatabaseSessionService requires the better-sqlite3 package. ' +
+          'Install it with `npm install better-sqlite3`.');
+    }
+    throw e;
+  }
+}
+
+/**
+ * Returns the SQLite filename of the given database URL.
+ *
+ * Follows the SQLAlchemy URL convention: `sqlite:///relative/path.db`,
+ * `sqlite:////absolute/path.db` and `sqlite://` for an in-memory database.
+ */
+function getSqliteFilename(dbUrl: string): string {
+  if (!dbUrl.startsWith(SQLITE_URL_PREFIX)) {
+    throw new Error(`Unsupported database URL: ${dbUrl}`);
+  }
+
+  const path = dbUrl.slice(SQLITE_URL_PREFIX.length);
+  if (!path || path === '/' || path === '/:memory:') {
+    return ':memory:';
+  }
+  if (!path.startsWith('/')) {
+    throw new Error(`Invalid SQLite database URL: ${dbUrl}`);
+  }
+
+  return path.slice(1);
+}
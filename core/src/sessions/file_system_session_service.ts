@@ -0,0 +1,500 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import {Event} from '../events/event.js';
+import {randomUUID} from '../utils/env_aware_utils.js';
+import {withFileLock} from '../utils/file_lock.js';
+import {decodePathSegment, encodePathSegment, readDirIfExists, readJsonFile, writeJsonFile} from '../utils/fs_utils.js';
+import {logger} from '../utils/logger.js';
+
+import {AppendEventRequest, BaseSessionService, CreateSessionRequest, DeleteSessionRequest, ForkSessionRequest, GetSessionRequest, ListSessionsRequest, ListSessionsResponse, PurgeExpiredSessionsRequest, RewindSessionRequest, SessionServiceOptions} from './base_session_service.js';
+import {createSession, findEventIndex, Session} from './session.js';
+import {mergeState, replayStateDeltas, splitStateDelta} from './state_util.js';
+
+const LOCK_FILE = '.lock';
+const APP_STATE_FILE = 'app_state.json';
+const USER_STATE_FILE = 'user_state.json';
+const SESSION_FILE = 'session.json';
+const EVENTS_FILE = 'events.jsonl';
+
+/**
+ * The snapshot of a session stored in the session file.
+ */
+interface SessionSnapshot {
+  id: string;
+  appName: string;
+  userId: string;
+  /** The state of the session, without the app, user and temp state. */
+  state: Record<string, unknown>;
+  /** The state of the session it was created with. */
+  initialState?: Record<string, unknown>;
+  createTime: number;
+  lastUpdateTime: number;
+}
+
+/**
+ * A session service that persists sessions on the local file system.
+ *
+ * The files are laid out under the root directory as:
+ *
+ *   <appName>/app_state.json
+ *   <appName>/users/<userId>/user_state.json
+ *   <appName>/users/<userId>/sessions/<sessionId>/session.json
+ *   <appName>/users/<userId>/sessions/<sessionId>/events.jsonl
+ *
+ * The `app:` and `user:` prefixed state is stored in the app and user state
+ * files without the prefix, and merged back into the session state when the
+ * session is read. The `temp:` prefixed state is never stored.
+ *
+ * All the reads and writes of an app are guarded by a lock file, so that
+ * multiple processes can share the same root directory.
+ */
+export class FileSystemSessionService extends BaseSessionService {
+  /**
+   * @param rootDir The directory to store the sessions in.
+   * @param options The options of the session service.
+   */
+  constructor(
+      private readonly rootDir: string, options?: SessionServiceOptions) {
+    super(options);
+  }
+
+  async createSession({appName, userId, state, sessionId}:
+                          CreateSessionRequest): Promise<Session> {
+    const id = sessionId?.trim() || randomUUID();
+    const deltas = splitStateDelta(state ?? {});
+    const now = Date.now();
+
+    return this.withAppLock(appName, async () => {
+      const sessionDir = this.getSessionDir(appName, userId, id);
+      if (await this.readSessionSnapshot(sessionDir)) {
+        throw new Error(`Session with id ${id} already exists.`);
+      }
+
+      await this.updateState(this.getAppStateFile(appName), deltas.app);
+      await this.updateState(
+          this.getUserStateFile(appName, userId), deltas.user);
+
+      await fs.mkdir(sessionDir, {recursive: true});
+      await fs.writeFile(path.join(sessionDir, EVENTS_FILE), '');
+      await writeJsonFile(path.join(sessionDir, SESSION_FILE), {
+        id,
+        appName,
+        userId,
+        state: deltas.session,
+        initialState: deltas.session,
+        createTime: now,
+        lastUpdateTime: now,
+      });
+
+      return createSession({
+        id,
+        appName,
+        userId,
+        state: await this.mergeState(appName, userId, deltas.session),
+        events: [],
+        lastUpdateTime: now,
+      });
+    });
+  }
+
+  async getSession({appName, userId, sessionId, config}: GetSessionRequest):
+      Promise<Session|undefined> {
+    let expiredSession: Session|undefined;
+    const session = await this.withAppLock(appName, async () => {
+      const sessionDir = this.getSessionDir(appName, userId, sessionId);
+      const snapshot = await this.readSessionSnapshot(sessionDir);
+      if (!snapshot) {
+        return undefined;
+      }
+      if (this.isSessionExpired(snapshot)) {
+        expiredSession = await this.deleteExpiredSession(sessionDir, snapshot);
+        return undefined;
+      }
+
+      let events = await readEvents(path.join(sessionDir, EVENTS_FILE));
+      if (config) {
+        if (config.numRecentEvents) {
+          events = events.slice(-config.numRecentEvents);
+        }
+        if (config.afterTimestamp) {
+          events = events.filter(
+              event => event.timestamp >= config.afterTimestamp!);
+        }
+      }
+
+      return createSession({
+        id: snapshot.id,
+        appName,
+        userId,
+        state: await this.mergeState(appName, userId, snapshot.state),
+        events,
+        lastUpdateTime: snapshot.lastUpdateTime,
+      });
+    });
+
+    if (expiredSession) {
+      await this.cleanUpExpiredSession(expiredSession);
+    }
+
+    return session;
+  }
+
+  async listSessions(request: ListSessionsRequest):
+      Promise<ListSessionsResponse> {
+    const {appName, userId} = request;
+    return this.withAppLock(appName, async () => {
+      const sessionsDir = this.getSessionsDir(appName, userId);
+      const snapshots: Array<{sessionDir: string, snapshot: SessionSnapshot}> =
+          [];
+      for (const entry of await readDirIfExists(sessionsDir)) {
+        const sessionDir = path.join(sessionsDir, entry);
+        const snapshot = await this.readSessionSnapshot(sessionDir);
+        if (snapshot && !this.isSessionExpired(snapshot)) {
+          snapshots.push({sessionDir, snapshot});
+        }
+      }
+
+      const sessions: Array<{session: Session, createTime: number}> = [];
+      for (const {sessionDir, snapshot} of snapshots) {
+        const session = createSession({
+          id: snapshot.id,
+          appName: snapshot.appName,
+          userId: snapshot.userId,
+          state: await this.mergeState(appName, userId, snapshot.state),
+          events: request.includeStateAndEvents ?
+              await readEvents(path.join(sessionDir, EVENTS_FILE)) :
+              [],
+          lastUpdateTime: snapshot.lastUpdateTime,
+        });
+        sessions.push({session, createTime: snapshot.createTime});
+      }
+
+      return this.paginateSessions(sessions, request);
+    });
+  }
+
+  async deleteSession({appName, userId, sessionId}: DeleteSessionRequest):
+      Promise<void> {
+    await this.withAppLock(appName, async () => {
+      await fs.rm(
+          this.getSessionDir(appName, userId, sessionId),
+          {recursive: true, force: true});
+    });
+  }
+
+  override async purgeExpiredSessions({appName}:
+                                          PurgeExpiredSessionsRequest = {}):
+      Promise<number> {
+    const appNames = appName !== undefined ?
+        [appName] :
+        (await readDirIfExists(this.rootDir)).map(decodePathSegment);
+
+    const expiredSessions: Session[] = [];
+    for (const name of appNames) {
+      if (this.getSessionTtl(name) === undefined) {
+        continue;
+      }
+
+      await this.withAppLock(name, async () => {
+        const now = Date.now();
+        const usersDir = path.join(this.getAppDir(name), 'users');
+        for (const userEntry of await readDirIfExists(usersDir)) {
+          const sessionsDir = path.join(usersDir, userEntry, 'sessions');
+          for (const sessionEntry of await readDirIfExists(sessionsDir)) {
+            const sessionDir = path.join(sessionsDir, sessionEntry);
+            const snapshot = await this.readSessionSnapshot(sessionDir);
+            if (snapshot && this.isSessionExpired(snapshot, now)) {
+              expiredSessions.push(
+                  await this.deleteExpiredSession(sessionDir, snapshot));
+            }
+          }
+        }
+      });
+    }
+
+    // The expired sessions are cleaned up without holding the app lock, as
+    // the memory and artifact services may be slow.
+    for (const session of expiredSessions) {
+      await this.cleanUpExpiredSession(session);
+    }
+
+    return expiredSessions.length;
+  }
+
+  override async rewindSession({
+    appName,
+    userId,
+    sessionId,
+    eventId,
+    artifactService,
+  }: RewindSessionRequest): Promise<Session> {
+    const session = await this.getSession({appName, userId, sessionId});
+    if (!session) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+    const index = findEventIndex(session, eventId);
+    const keptEvents = session.events.slice(0, index);
+
+    // The artifacts are reverted without holding the app lock.
+    if (artifactService) {
+      await this.revertArtifactDeltas({
+        session,
+        keptEvents,
+        removedEvents: session.events.slice(index),
+        artifactService,
+      });
+    }
+
+    return this.withAppLock(appName, async () => {
+      const sessionDir = this.getSessionDir(appName, userId, sessionId);
+      const snapshot = await this.readSessionSnapshot(sessionDir);
+      if (!snapshot) {
+        throw new Error(`Session not found: ${sessionId}`);
+      }
+
+      await writeEvents(path.join(sessionDir, EVENTS_FILE), keptEvents);
+      const newSnapshot: SessionSnapshot = {
+        ...snapshot,
+        state: splitStateDelta(replayStateDeltas(
+                                   snapshot.initialState ?? {}, keptEvents))
+                   .session,
+        // Always changes the last update time, so that the sessions loaded
+        // before the rewind are detected as stale.
+        lastUpdateTime: Math.max(Date.now(), snapshot.lastUpdateTime + 1),
+      };
+      await writeJsonFile(path.join(sessionDir, SESSION_FILE), newSnapshot);
+
+      return this.readSession(newSnapshot, keptEvents);
+    });
+  }
+
+  override async forkSession({
+    appName,
+    userId,
+    sessionId,
+    eventId,
+    newSessionId,
+    artifactService,
+  }: ForkSessionRequest): Promise<Session> {
+    const session = await this.getSession({appName, userId, sessionId});
+    if (!session) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+    const events = eventId === undefined ?
+        session.events :
+        session.events.slice(0, findEventIndex(session, eventId) + 1);
+    const id = newSessionId?.trim() || randomUUID();
+    const newSessionDir = this.getSessionDir(appName, userId, id);
+    if (await this.withAppLock(
+            appName, () => this.readSessionSnapshot(newSessionDir))) {
+      throw new Error(`Session with id ${id} already exists.`);
+    }
+
+    // The artifacts are copied without holding the app lock.
+    if (artifactService) {
+      await this.copyArtifacts({
+        session,
+        newSession: createSession({id, appName, userId}),
+        events,
+        artifactService,
+      });
+    }
+
+    return this.withAppLock(appName, async () => {
+      const snapshot = await this.readSessionSnapshot(
+          this.getSessionDir(appName, userId, sessionId));
+      if (!snapshot) {
+        throw new Error(`Session not found: ${sessionId}`);
+      }
+      if (await this.readSessionSnapshot(newSessionDir)) {
+        throw new Error(`Session with id ${id} already exists.`);
+      }
+
+      const now = Date.now();
+      const initialState = snapshot.initialState ?? {};
+      const newSnapshot: SessionSnapshot = {
+        id,
+        appName,
+        userId,
+        state: splitStateDelta(replayStateDeltas(initialState, events)).session,
+        initialState,
+        createTime: now,
+        lastUpdateTime: now,
+      };
+      await fs.mkdir(newSessionDir, {recursive: true});
+      await writeEvents(path.join(newSessionDir, EVENTS_FILE), events);
+      await writeJsonFile(path.join(newSessionDir, SESSION_FILE), newSnapshot);
+
+      return this.readSession(newSnapshot, events);
+    });
+  }
+
+  override async appendEvent({session, event}: AppendEventRequest):
+      Promise<Event> {
+    if (event.partial) {
+      return event;
+    }
+    this.validateEventState(session, event);
+
+    const appName = session.appName;
+    const userId = session.userId;
+    const sessionId = session.id;
+
+    await this.withAppLock(appName, async () => {
+      const sessionDir = this.getSessionDir(appName, userId, sessionId);
+      const snapshot = await this.readSessionSnapshot(sessionDir);
+      if (!snapshot) {
+        logger.warn(`Failed to append event to session ${
+            sessionId}: session not found in ${this.rootDir}`);
+        return;
+      }
+      this.checkSessionNotStale(session, snapshot.lastUpdateTime);
+
+      const deltas = splitStateDelta(event.actions?.stateDelta ?? {});
+      await this.updateState(this.getAppStateFile(appName), deltas.app);
+      await this.updateState(
+          this.getUserStateFile(appName, userId), deltas.user);
+
+      await fs.appendFile(
+          path.join(sessionDir, EVENTS_FILE), JSON.stringify(event) + '\n');
+      await writeJsonFile(path.join(sessionDir, SESSION_FILE), {
+        ...snapshot,
+        state: {...snapshot.state, ...deltas.session},
+        lastUpdateTime: event.timestamp,
+      });
+    });
+
+    await super.appendEvent({session, event});
+    session.lastUpdateTime = event.timestamp;
+
+    return event;
+  }
+
+  /**
+   * Creates the session of a snapshot. Must be called with the app lock held.
+   */
+  private async readSession(snapshot: SessionSnapshot, events: Event[]):
+      Promise<Session> {
+    return createSession({
+      id: snapshot.id,
+      appName: snapshot.appName,
+      userId: snapshot.userId,
+      state: await this.mergeState(
+          snapshot.appName, snapshot.userId, snapshot.state),
+      events,
+      lastUpdateTime: snapshot.lastUpdateTime,
+    });
+  }
+
+  /**
+   * Deletes an expired session. Must be called with the app lock held.
+   *
+   * @return The deleted session, to be cleaned up once the app lock is
+   *     released.
+   */
+  private async deleteExpiredSession(
+      sessionDir: string, snapshot: SessionSnapshot): Promise<Session> {
+    const session = await this.readSession(
+        snapshot, await readEvents(path.join(sessionDir, EVENTS_FILE)));
+    await fs.rm(sessionDir, {recursive: true, force: true});
+
+    return session;
+  }
+
+  private async withAppLock<T>(appName: string, fn: () => Promise<T>):
+      Promise<T> {
+    const appDir = this.getAppDir(appName);
+    await fs.mkdir(appDir, {recursive: true});
+
+    return withFileLock(path.join(appDir, LOCK_FILE), fn);
+  }
+
+  private getAppDir(appName: string): string {
+    return path.join(this.rootDir, encodePathSegment(appName));
+  }
+
+  private getAppStateFile(appName: string): string {
+    return path.join(this.getAppDir(appName), APP_STATE_FILE);
+  }
+
+  private getUserDir(appName: string, userId: string): string {
+    return path.join(
+        this.getAppDir(appName), 'users', encodePathSegment(userId));
+  }
+
+  private getUserStateFile(appName: string, userId: string): string {
+    return path.join(this.getUserDir(appName, userId), USER_STATE_FILE);
+  }
+
+  private getSessionsDir(appName: string, userId: string): string {
+    return path.join(this.getUserDir(appName, userId), 'sessions');
+  }
+
+  private getSessionDir(appName: string, userId: string, sessionId: string):
+      string {
+    return path.join(
+        this.getSessionsDir(appName, userId), encodePathSegment(sessionId));
+  }
+
+  private async readSessionSnapshot(sessionDir: string):
+      Promise<SessionSnapshot|undefined> {
+    return readJsonFile<SessionSnapshot>(path.join(sessionDir, SESSION_FILE));
+  }
+
+  private async updateState(
+      stateFile: string, delta: Record<string, unknown>): Promise<void> {
+    if (Object.keys(delta).length === 0) {
+      return;
+    }
+
+    const state = await readJsonFile<Record<string, unknown>>(stateFile);
+    await fs.mkdir(path.dirname(stateFile), {recursive: true});
+    await writeJsonFile(stateFile, {...state, ...delta});
+  }
+
+  private async mergeState(
+      appName: string,
+      userId: string,
+      sessionState: Record<string, unknown>,
+      ): Promise<Record<string, unknown>> {
+    const appState =
+        await readJsonFile<Record<string, unknown>>(
+            this.getAppStateFile(appName)) ??
+        {};
+    const userState =
+        await readJsonFile<Record<string, unknown>>(
+            this.getUserStateFile(appName, userId)) ??
+        {};
+
+    return mergeState(sessionState, appState, userState);
+  }
+}
+
+async function readEvents(eventsFile: string): Promise<Event[]> {
+  let content: string;
+  try {
+    content = await fs.readFile(eventsFile, 'utf-8');
+  } catch (e: unknown) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw e;
+  }
+
+  return content.split('\n')
+      .filter(line => line.trim())
+      .map(line => JSON.parse(line) as Event);
+}
+
+async function writeEvents(eventsFile: string, events: Event[]):
+    Promise<void> {
+  await fs.writeFile(
+      eventsFile, events.map(event => JSON.stringify(event) + '\n').join(''));
+}
@@ -9,9 +9,10 @@ import {deepClone} from '../utils/deep_clone.js';
 import {randomUUID} from '../utils/env_aware_utils.js';
 import {logger} from '../utils/logger.js';
 
-import {AppendEventRequest, BaseSessionService, CreateSessionRequest, DeleteSessionRequest, GetSessionConfig, GetSessionRequest, ListSessionsRequest, ListSessionsResponse} from './base_session_service.js';
-import {createSession, Session} from './session.js';
+import {AppendEventRequest, BaseSessionService, CreateSessionRequest, DeleteSessionRequest, ForkSessionRequest, GetSessionConfig, GetSessionRequest, ListSessionsRequest, ListSessionsResponse, PurgeExpiredSessionsRequest, RewindSessionRequest} from './base_session_service.js';
+import {createSession, findEventIndex, Session} from './session.js';
 import {State} from './state.js';
+import {replayStateDeltas} from './state_util.js';
 
 /**
  * An in-memory implementation of the session service.
@@ -35,6 +36,16 @@ export class InMemorySessionService extends BaseSessionService {
    */
   private appState: Record<string, Record<string, unknown>> = {};
 
+  /**
+   * A map from the stored session to the state it was created with, used to
+   * recompute the state of rewound and forked sessions.
+   */
+  private readonly initialStates =
+      new WeakMap<Session, Record<string, unknown>>();
+
+  /** A map from the stored session to the time of its creation. */
+  private readonly createTimes = new WeakMap<Session, number>();
+
   createSession({appName, userId, state, sessionId}: CreateSessionRequest):
       Promise<Session> {
     const session = createSession({
@@ -46,14 +57,7 @@ export class InMemorySessionService extends BaseSessionService {
       lastUpdateTime: Date.now(),
     });
 
-    if (!this.sessions[appName]) {
-      this.sessions[appName] = {};
-    }
-    if (!this.sessions[appName][userId]) {
-      this.sessions[appName][userId] = {};
-    }
-
-    this.sessions[appName][userId][session.id] = session;
+    this.storeSession(session, deepClone(session.state));
 
     return Promise.resolve(
         this.mergeState(appName, userId, deepClone(session)));
@@ -67,6 +71,9 @@ export class InMemorySessionService extends BaseSessionService {
     }
 
     const session: Session = this.sessions[appName][userId][sessionId];
+    if (this.isSessionExpired(session)) {
+      return this.deleteExpiredSession(session).then(() => undefined);
+    }
     const copiedSession = deepClone(session);
 
     if (config) {
@@ -91,25 +98,30 @@ export class InMemorySessionService extends BaseSessionService {
     return Promise.resolve(this.mergeState(appName, userId, copiedSession));
   }
 
-  listSessions({appName, userId}: ListSessionsRequest):
+  async listSessions(request: ListSessionsRequest):
       Promise<ListSessionsResponse> {
-    if (!this.sessions[appName] || !this.sessions[appName][userId]) {
-      return Promise.resolve({sessions: []});
-    }
-
-    const sessionsWithoutEvents: Session[] = [];
-    for (const session of Object.values(this.sessions[appName][userId])) {
-      sessionsWithoutEvents.push(createSession({
+    const {appName, userId} = request;
+    const sessions: Array<{session: Session, createTime: number}> = [];
+    for (const session of Object.values(
+             this.sessions[appName]?.[userId] ?? {})) {
+      if (this.isSessionExpired(session)) {
+        continue;
+      }
+      const copiedSession = createSession({
         id: session.id,
         appName: session.appName,
         userId: session.userId,
-        state: {},
-        events: [],
+        state: deepClone(session.state),
+        events: request.includeStateAndEvents ? deepClone(session.events) : [],
         lastUpdateTime: session.lastUpdateTime,
-      }));
+      });
+      sessions.push({
+        session: this.mergeState(appName, userId, copiedSession),
+        createTime: this.createTimes.get(session) ?? 0,
+      });
     }
 
-    return Promise.resolve({sessions: sessionsWithoutEvents});
+    return this.paginateSessions(sessions, request);
   }
 
   async deleteSession({appName, userId, sessionId}: DeleteSessionRequest):
@@ -123,14 +135,114 @@ export class InMemorySessionService extends BaseSessionService {
     delete this.sessions[appName][userId][sessionId];
   }
 
+  override async purgeExpiredSessions({appName}:
+                                          PurgeExpiredSessionsRequest = {}):
+      Promise<number> {
+    const now = Date.now();
+    const expiredSessions: Session[] = [];
+    const appNames = appName === undefined ? Object.keys(this.sessions) :
+                                             [appName];
+    for (const name of appNames) {
+      for (const userSessions of Object.values(this.sessions[name] ?? {})) {
+        for (const session of Object.values(userSessions)) {
+          if (this.isSessionExpired(session, now)) {
+            expiredSessions.push(session);
+          }
+        }
+      }
+    }
+
+    let purgedCount = 0;
+    for (const session of expiredSessions) {
+      if (await this.deleteExpiredSession(session)) {
+        purgedCount++;
+      }
+    }
+
+    return purgedCount;
+  }
+
+  override async rewindSession({
+    appName,
+    userId,
+    sessionId,
+    eventId,
+    artifactService,
+  }: RewindSessionRequest): Promise<Session> {
+    const storageSession = this.getStorageSession(appName, userId, sessionId);
+    const index = findEventIndex(storageSession, eventId);
+    const keptEvents = storageSession.events.slice(0, index);
+    const removedEvents = storageSession.events.slice(index);
+
+    if (artifactService) {
+      await this.revertArtifactDeltas({
+        session: storageSession,
+        keptEvents,
+        removedEvents,
+        artifactService,
+      });
+    }
+
+    storageSession.events = keptEvents;
+    storageSession.state = replayStateDeltas(
+        this.initialStates.get(storageSession) ?? {}, keptEvents);
+    // Always changes the last update time, so that the sessions loaded before
+    // the rewind are detected as stale.
+    storageSession.lastUpdateTime =
+        Math.max(Date.now(), storageSession.lastUpdateTime + 1);
+
+    return this.mergeState(appName, userId, deepClone(storageSession));
+  }
+
+  override async forkSession({
+    appName,
+    userId,
+    sessionId,
+    eventId,
+    newSessionId,
+    artifactService,
+  }: ForkSessionRequest): Promise<Session> {
+    const storageSession = this.getStorageSession(appName, userId, sessionId);
+    const events = eventId === undefined ?
+        storageSession.events :
+        storageSession.events.slice(
+            0, findEventIndex(storageSession, eventId) + 1);
+    const initialState = this.initialStates.get(storageSession) ?? {};
+
+    const newSession = createSession({
+      id: newSessionId || randomUUID(),
+      appName,
+      userId,
+      state: replayStateDeltas(initialState, events),
+      events: deepClone(events),
+      lastUpdateTime: Date.now(),
+    });
+    if (this.sessions[appName][userId][newSession.id]) {
+      throw new Error(`Session with id ${newSession.id} already exists.`);
+    }
+
+    if (artifactService) {
+      await this.copyArtifacts(
+          {session: storageSession, newSession, events, artifactService});
+    }
+    this.storeSession(newSession, deepClone(initialState));
+
+    return this.mergeState(appName, userId, deepClone(newSession));
+  }
+
   override async appendEvent({session, event}: AppendEventRequest):
       Promise<Event> {
-    await super.appendEvent({session, event});
-    session.lastUpdateTime = event.timestamp;
-
     const appName = session.appName;
     const userId = session.userId;
     const sessionId = session.id;
+    const storageSession = this.sessions[appName]?.[userId]?.[sessionId];
+
+    if (storageSession) {
+      this.checkSessionNotStale(session, storageSession.lastUpdateTime);
+    }
+
+    await super.appendEvent({session, event});
+    session.lastUpdateTime = event.timestamp;
 
     const warning = (message: string) => {
       logger.warn(`Failed to append event to session ${sessionId}: ${message}`);
@@ -146,7 +258,7 @@ export class InMemorySessionService extends BaseSessionService {
       return event;
     }
 
-    if (!this.sessions[appName][userId][sessionId]) {
+    if (!storageSession) {
       warning(`sessionId ${sessionId} not in sessions[appName][userId]`);
       return event;
     }
@@ -169,7 +281,6 @@ export class InMemorySessionService extends BaseSessionService {
       }
     }
 
-    const storageSession: Session = this.sessions[appName][userId][sessionId];
     await super.appendEvent({session: storageSession, event});
 
     storageSession.lastUpdateTime = event.timestamp;
@@ -177,6 +288,53 @@ export class InMemorySessionService extends BaseSessionService {
     return event;
   }
 
+  /**
+   * Deletes an expired session and cleans it up.
+   *
+   * @return false if the session was already deleted, e.g. by a concurrent
+   *     purge, in which case it is not cleaned up again.
+   */
+  private async deleteExpiredSession(storageSession: Session):
+      Promise<boolean> {
+    const {appName, userId, id} = storageSession;
+    if (this.sessions[appName]?.[userId]?.[id] !== storageSession) {
+      return false;
+    }
+
+    // Deletes the session first, so that it is not accessed while it is
+    // cleaned up.
+    delete this.sessions[appName][userId][id];
+    await this.cleanUpExpiredSession(
+        this.mergeState(appName, userId, deepClone(storageSession)));
+
+    return true;
+  }
+
+  private storeSession(session: Session, initialState: Record<string, unknown>):
+      void {
+    const {appName, userId} = session;
+    if (!this.sessions[appName]) {
+      this.sessions[appName] = {};
+    }
+    if (!this.sessions[appName][userId]) {
+      this.sessions[appName][userId] = {};
+    }
+
+    this.sessions[appName][userId][session.id] = session;
+    this.initialStates.set(session, initialState);
+    this.createTimes.set(session, Date.now());
+  }
+
+  private getStorageSession(
+      appName: string, userId: string, sessionId: string): Session {
+    const session = this.sessions[appName]?.[userId]?.[sessionId];
+    if (!session) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+
+    return session;
+  }
+
   private mergeState(
       appName: string,
       userId: string,
@@ -61,3 +61,20 @@ export function createSession(params: Partial<Session>&{
     lastUpdateTime: params.lastUpdateTime || 0,
   };
 }
+
+/**
+ * Returns the index of the event with the given ID in the session.
+ *
+ * @param session The session to search the event in.
+ * @param eventId The ID of the event.
+ * @returns The index of the event.
+ * @throws Error if the event is not found in the session.
+ */
+export function findEventIndex(session: Session, eventId: string): number {
+  const index = session.events.findIndex((event) => event.id === eventId);
+  if (index < 0) {
+    throw new Error(`Event ${eventId} not found in session ${session.id}.`);
+  }
+
+  return index;
+}
@@ -0,0 +1,364 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {Part} from '@google/genai';
+
+import {BaseArtifactService} from '../artifacts/base_artifact_service.js';
+import {Event} from '../events/event.js';
+import {deepClone} from '../utils/deep_clone.js';
+import {bytesToBase64} from '../utils/env_aware_utils.js';
+import {logger} from '../utils/logger.js';
+
+import {BaseSessionService} from './base_session_service.js';
+import {Session} from './session.js';
+import {State} from './state.js';
+
+/**
+ * The current version of the session export format. The version is bumped
+ * whenever a change to the format is not backward compatible.
+ */
+export const SESSION_EXPORT_VERSION = 1;
+
+/**
+ * An artifact version referenced by the events of an exported session.
+ */
+export interface ExportedArtifact {
+  /** The filename of the artifact. */
+  filename: string;
+  /** The version of the artifact in the exported session. */
+  version: number;
+  /**
+   * The content of the artifact version. Not set if the artifacts were not
+   * exported, or for the user scoped artifacts, which are shared with other
+   * sessions.
+   */
+  artifact?: Part;
+}
+
+/**
+ * A session in the portable JSON format, used to move sessions between
+ * session services and environments.
+ *
+ * The events are stored as is, except that the `inlineData.data` of the parts
+ * is always a base64-encoded string. The artifacts changed by the events, as
+ * recorded in their `artifactDelta`, are listed in `artifacts`.
+ */
+export interface ExportedSession {
+  /** The version of the export format, see `SESSION_EXPORT_VERSION`. */
+  version: number;
+  /** The ID of the session. */
+  id: string;
+  /** The name of the app. */
+  appName: string;
+  /** The ID of the user. */
+  userId: string;
+  /**
+   * The state of the session, including the app and user state. Only the
+   * session scoped state is imported, see `importSession`.
+   */
+  state: Record<string, unknown>;
+  /** The events of the session. */
+  events: Event[];
+  /** The artifact versions referenced by the events. */
+  artifacts: ExportedArtifact[];
+  /** The last update time of the session. */
+  lastUpdateTime: number;
+}
+
+/**
+ * The parameters for `exportSession`.
+ */
+export interface ExportSessionRequest {
+  /** The session to export. */
+  session: Session;
+  /**
+   * The artifact service to export the artifacts of the session from. Only
+   * the references to the artifacts are exported if not provided.
+   */
+  artifactService?: BaseArtifactService;
+}
+
+/**
+ * The parameters for `importSession`.
+ */
+export interface ImportSessionRequest {
+  /** The exported session to import. */
+  exportedSession: ExportedSession;
+  /** The session service to create the session in. */
+  sessionService: BaseSessionService;
+  /**
+   * The artifact service to import the exported artifacts into. The
+   * artifacts are not imported if not provided.
+   */
+  artifactService?: BaseArtifactService;
+  /** The name of the app. Defaults to the app of the exported session. */
+  appName?: string;
+  /** The ID of the user. Defaults to the user of the exported session. */
+  userId?: string;
+  /** The ID of the session. Defaults to the ID of the exported session. */
+  sessionId?: string;
+}
+
+/**
+ * Exports a session to the portable JSON format.
+ *
+ * @param request The request to export a session.
+ * @return A promise that resolves to the exported session.
+ */
+export async function exportSession({session, artifactService}:
+                                        ExportSessionRequest):
+    Promise<ExportedSession> {
+  const artifacts: ExportedArtifact[] = [];
+  for (const [filename, lastVersion] of Object.entries(
+           getArtifactVersions(session.events))) {
+    if (!artifactService || filename.startsWith(State.USER_PREFIX)) {
+      artifacts.push({filename, version: lastVersion});
+      continue;
+    }
+
+    // All the versions up to the referenced one are exported, so that the
+    // versions are kept when the session is imported.
+    const versions = await artifactService.listVersions({
+      appName: session.appName,
+      userId: session.userId,
+      sessionId: session.id,
+      filename,
+    });
+    for (const version of versions.sort((a, b) => a - b)) {
+      if (version > lastVersion) {
+        break;
+      }
+      const artifact = await artifactService.loadArtifact({
+        appName: session.appName,
+        userId: session.userId,
+        sessionId: session.id,
+        filename,
+        version,
+      });
+      artifacts.push({
+        filename,
+        version,
+        artifact: artifact ? encodePart(artifact) : undefined,
+      });
+    }
+  }
+
+  return {
+    version: SESSION_EXPORT_VERSION,
+    id: session.id,
+    appName: session.appName,
+    userId: session.userId,
+    state: deepClone(session.state),
+    events: session.events.map(encodeEvent),
+    artifacts,
+    lastUpdateTime: session.lastUpdateTime,
+  };
+}
+
+/**
+ * Imports a session from the portable JSON format.
+ *
+ * The session is created with its session scoped state, and the events are
+ * appended to it in order, so that the app and user state deltas of the events
+ * are applied in the target session service. The app and user state of the
+ * exported session that were not set by its events, e.g. set by other sessions
+ * of the user, are not imported: they are shared with the other sessions of
+ * the target app and user, which they would overwrite.
+ *
+ * The versions of the imported artifacts may differ in the target artifact
+ * service, in which case the `artifactDelta` of the events are updated to the
+ * new versions.
+ *
+ * @param request The request to import a session.
+ * @return A promise that resolves to the imported session.
+ */
+export async function importSession({
+  exportedSession,
+  sessionService,
+  artifactService,
+  appName,
+  userId,
+  sessionId,
+}: ImportSessionRequest): Promise<Session> {
+  validateExportedSession(exportedSession);
+
+  const sessionState: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(exportedSession.state ?? {})) {
+    if (!key.startsWith(State.APP_PREFIX) &&
+        !key.startsWith(State.USER_PREFIX) &&
+        !key.startsWith(State.TEMP_PREFIX)) {
+      sessionState[key] = value;
+    }
+  }
+
+  const session = await sessionService.createSession({
+    appName: appName ?? exportedSession.appName,
+    userId: userId ?? exportedSession.userId,
+    sessionId: sessionId ?? exportedSession.id,
+    state: sessionState,
+  });
+
+  // A map from the filename to a map from the exported version to the
+  // imported version of the artifact.
+  const importedVersions: Record<string, Record<number, number>> = {};
+  try {
+    if (artifactService) {
+      const artifacts = [...(exportedSession.artifacts ?? [])].sort(
+          (a, b) => a.version - b.version);
+      for (const {filename, version, artifact} of artifacts) {
+        if (!artifact || filename.startsWith(State.USER_PREFIX)) {
+          continue;
+        }
+        importedVersions[filename] = importedVersions[filename] ?? {};
+        importedVersions[filename][version] =
+            await artifactService.saveArtifact({
+              appName: session.appName,
+              userId: session.userId,
+              sessionId: session.id,
+              filename,
+              artifact,
+            });
+      }
+    }
+
+    for (const exportedEvent of exportedSession.events) {
+      const event = deepClone(exportedEvent);
+      const artifactDelta = event.actions?.artifactDelta ?? {};
+      for (const [filename, version] of Object.entries(artifactDelta)) {
+        const importedVersion = importedVersions[filename]?.[version];
+        if (importedVersion !== undefined) {
+          artifactDelta[filename] = importedVersion;
+        }
+      }
+
+      await sessionService.appendEvent({session, event});
+    }
+  } catch (e) {
+    // The partially imported session is deleted, so that the import can be
+    // retried with the same session ID.
+    await deleteImportedSession({
+      session,
+      sessionService,
+      artifactService,
+      filenames: Object.keys(importedVersions),
+    });
+    throw e;
+  }
+
+  return session;
+}
+
+/**
+ * Deletes a partially imported session and the artifacts saved for it. The
+ * errors are logged rather than thrown, so that the error of the import is
+ * not hidden.
+ */
+async function deleteImportedSession({
+  session,
+  sessionService,
+  artifactService,
+  filenames,
+}: {
+  session: Session; sessionService: BaseSessionService;
+  artifactService?: BaseArtifactService;
+  filenames: string[];
+}): Promise<void> {
+  const artifactKey = {
+    appName: session.appName,
+    userId: session.userId,
+    sessionId: session.id,
+  };
+  try {
+    for (const filename of filenames) {
+      await artifactService?.deleteArtifact({...artifactKey, filename});
+    }
+    await sessionService.deleteSession(artifactKey);
+  } catch (e) {
+    logger.error(`Failed to delete the partially imported session ${
+        session.id}:`, e);
+  }
+}
+
+/**
+ * Throws if the given value is not a session in a supported export format.
+ *
+ * @param exportedSession The value to validate, e.g. a parsed request body.
+ */
+export function validateExportedSession(exportedSession: ExportedSession):
+    void {
+  if (!exportedSession || typeof exportedSession !== 'object') {
+    throw new Error('Invalid exported session: not an object.');
+  }
+  if (exportedSession.version !== SESSION_EXPORT_VERSION) {
+    throw new Error(`Unsupported session export version: ${
+        exportedSession.version}. Expected ${SESSION_EXPORT_VERSION}.`);
+  }
+  if (!exportedSession.appName || !exportedSession.userId ||
+      !exportedSession.id) {
+    throw new Error(
+        'Invalid exported session: id, appName and userId are required.');
+  }
+  if (!Array.isArray(exportedSession.events) ||
+      !exportedSession.events.every(isObject)) {
+    throw new Error(
+        'Invalid exported session: events must be an array of objects.');
+  }
+  if (exportedSession.state !== undefined && !isObject(exportedSession.state)) {
+    throw new Error('Invalid exported session: state must be an object.');
+  }
+  if (exportedSession.artifacts !== undefined &&
+      (!Array.isArray(exportedSession.artifacts) ||
+       !exportedSession.artifacts.every(
+           artifact => isObject(artifact) &&
+               typeof artifact.filename === 'string' &&
+               Number.isInteger(artifact.version)))) {
+    throw new Error(
+        'Invalid exported session: artifacts must be an array of artifact ' +
+        'versions.');
+  }
+}
+
+function isObject(value: unknown): value is object {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Returns the latest version of each artifact changed by the given events.
+ */
+function getArtifactVersions(events: Event[]): Record<string, number> {
+  const versions: Record<string, number> = {};
+  for (const event of events) {
+    Object.assign(versions, event.actions?.artifactDelta ?? {});
+  }
+
+  return versions;
+}
+
+function encodeEvent(event: Event): Event {
+  if (!event.content?.parts) {
+    return deepClone(event);
+  }
+
+  return deepClone({
+    ...event,
+    content: {...event.content, parts: event.content.parts.map(encodePart)},
+  });
+}
+
+/**
+ * Returns a copy of the part with the inline data encoded as a base64 string.
+ */
+function encodePart(part: Part): Part {
+  const data: unknown = part.inlineData?.data;
+  if (!(data instanceof Uint8Array)) {
+    return deepClone(part);
+  }
+
+  return deepClone({
+    ...part,
+    inlineData: {...part.inlineData, data: bytesToBase64(data)},
+  });
+}
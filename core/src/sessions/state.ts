@@ -18,6 +18,12 @@ export class State {
       private value: Record<string, unknown> = {},
       /** The delta change to the current value that hasn't been committed. */
       private delta: Record<string, unknown> = {},
+      /**
+       * Validates the written values, e.g. against the state schema of the
+       * root agent. Throws if a value is invalid.
+       */
+      private readonly validate: (delta: Record<string, unknown>) => void =
+          () => {},
   ) {}
 
   /**
@@ -45,8 +51,10 @@ export class State {
    *
    * @param key The key to set the value for.
    * @param value The value to set.
+   * @throws StateValidationError If the value does not match the state schema.
    */
   set(key: string, value: unknown) {
+    this.validate({[key]: value});
     this.value[key] = value;
     this.delta[key] = value;
   }
@@ -69,8 +77,10 @@ export class State {
    * Updates the state dict with the given delta.
    *
    * @param delta The delta to update the state with.
+   * @throws StateValidationError If a value does not match the state schema.
    */
   update(delta: Record<string, unknown>) {
+    this.validate(delta);
     this.delta = {...this.delta, ...delta};
     this.value = {...this.value, ...delta};
   }
@@ -0,0 +1,139 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {AnyZodObject, z, ZodTypeAny} from 'zod';
+
+import {State} from './state.js';
+
+/**
+ * The zod schemas of the session state, per scope.
+ *
+ * The keys of each schema are the state keys without their scope prefix, e.g.
+ * the `theme` key of the `app` schema validates the `app:theme` state key.
+ * The keys that are not declared in a schema are not validated, unless the
+ * schema is strict.
+ */
+export interface StateSchema {
+  /** The schema of the `app:` prefixed state. */
+  app?: AnyZodObject;
+  /** The schema of the `user:` prefixed state. */
+  user?: AnyZodObject;
+  /** The schema of the unprefixed, session scoped state. */
+  session?: AnyZodObject;
+  /** The schema of the `temp:` prefixed state. */
+  temp?: AnyZodObject;
+}
+
+/**
+ * Thrown when a value written to the state does not match the state schema.
+ */
+export class StateValidationError extends Error {
+  constructor(
+      message: string,
+      /** The state key the invalid value was written to. */
+      readonly key: string,
+      /** The tool, callback or event author that wrote the invalid value. */
+      readonly source?: string,
+  ) {
+    super(message);
+  }
+}
+
+type PrefixedValues<P extends string, T> = T extends AnyZodObject ?
+    {[K in keyof z.infer<T>&string as `${P}${K}`]: z.infer<T>[K]} :
+    unknown;
+
+/**
+ * The values of the state declared by the given state schema, keyed by their
+ * prefixed state keys.
+ */
+export type StateValues<S extends StateSchema> =
+    PrefixedValues<typeof State.APP_PREFIX, S['app']>&
+    PrefixedValues<typeof State.USER_PREFIX, S['user']>&
+    PrefixedValues<'', S['session']>&
+    PrefixedValues<typeof State.TEMP_PREFIX, S['temp']>;
+
+/**
+ * A state with the accessors typed by the values of a state schema.
+ */
+export type TypedState<V> = Omit<State, 'get'|'set'|'update'>&{
+  get<K extends keyof V&string>(key: K, defaultValue?: V[K]): V[K] | undefined;
+  set<K extends keyof V&string>(key: K, value: V[K]): void;
+  update(delta: Partial<V>): void;
+};
+
+/**
+ * Returns the given state with the accessors typed by the state schema, e.g.
+ * `asTypedState<typeof stateSchema>(toolContext.state)`.
+ *
+ * Only the types are changed, the values are validated by the schema declared
+ * on the root agent, or in the `appStateSchemas` of the session service.
+ *
+ * @param state The state to type.
+ * @return The same state, with typed accessors.
+ */
+export function asTypedState<S extends StateSchema>(state: State):
+    TypedState<StateValues<S>> {
+  return state as unknown as TypedState<StateValues<S>>;
+}
+
+/**
+ * Validates the values of a state delta against the state schema.
+ *
+ * @param schema The state schema to validate against.
+ * @param delta The state delta to validate.
+ * @param source The tool, callback or event author that wrote the delta, to
+ *     report in the error.
+ * @throws StateValidationError If a value does not match the schema.
+ */
+export function validateStateDelta(
+    schema: StateSchema, delta: Record<string, unknown>, source?: string):
+    void {
+  const writtenBy = source ? ` written by ${source}` : '';
+
+  for (const [key, value] of Object.entries(delta)) {
+    const [objectSchema, name] = getScopeSchema(schema, key);
+    if (!objectSchema) {
+      continue;
+    }
+
+    const fieldSchema = objectSchema.shape[name] as ZodTypeAny | undefined;
+    if (!fieldSchema) {
+      if (objectSchema._def.unknownKeys === 'strict') {
+        throw new StateValidationError(
+            `Unknown state key "${key}"${writtenBy}.`, key, source);
+      }
+      continue;
+    }
+
+    const result = fieldSchema.safeParse(value);
+    if (!result.success) {
+      const issues = result.error.issues.map(issue => issue.message).join('; ');
+      throw new StateValidationError(
+          `Invalid value for state key "${key}"${writtenBy}: ${issues}`, key,
+          source);
+    }
+  }
+}
+
+/**
+ * Returns the schema of the scope of the given state key, and the key without
+ * its scope prefix.
+ */
+function getScopeSchema(schema: StateSchema, key: string):
+    [AnyZodObject | undefined, string] {
+  if (key.startsWith(State.APP_PREFIX)) {
+    return [schema.app, key.slice(State.APP_PREFIX.length)];
+  }
+  if (key.startsWith(State.USER_PREFIX)) {
+    return [schema.user, key.slice(State.USER_PREFIX.length)];
+  }
+  if (key.startsWith(State.TEMP_PREFIX)) {
+    return [schema.temp, key.slice(State.TEMP_PREFIX.length)];
+  }
+
+  return [schema.session, key];
+}
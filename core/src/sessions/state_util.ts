@@ -0,0 +1,98 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {Event} from '../events/event.js';
+
+import {State} from './state.js';
+
+/**
+ * The state deltas split by the scope they are stored in.
+ */
+export interface StateDeltas {
+  /** The `app:` prefixed state, without the prefix. */
+  app: Record<string, unknown>;
+  /** The `user:` prefixed state, without the prefix. */
+  user: Record<string, unknown>;
+  /** The state of the session. */
+  session: Record<string, unknown>;
+}
+
+/**
+ * Splits the state delta into the app, user and session scopes, dropping the
+ * `temp:` prefixed state.
+ *
+ * @param delta The state delta to split.
+ * @return The state deltas of each scope.
+ */
+export function splitStateDelta(delta: Record<string, unknown>): StateDeltas {
+  const deltas: StateDeltas = {app: {}, user: {}, session: {}};
+
+  for (const [key, value] of Object.entries(delta)) {
+    if (key.startsWith(State.APP_PREFIX)) {
+      deltas.app[key.slice(State.APP_PREFIX.length)] = value;
+    } else if (key.startsWith(State.USER_PREFIX)) {
+      deltas.user[key.slice(State.USER_PREFIX.length)] = value;
+    } else if (!key.startsWith(State.TEMP_PREFIX)) {
+      deltas.session[key] = value;
+    }
+  }
+
+  return deltas;
+}
+
+/**
+ * Merges the app and user state into the session state, adding back the
+ * `app:` and `user:` prefixes.
+ *
+ * @param sessionState The state of the session.
+ * @param appState The state of the app.
+ * @param userState The state of the user.
+ * @return The merged state.
+ */
+export function mergeState(
+    sessionState: Record<string, unknown>,
+    appState: Record<string, unknown>,
+    userState: Record<string, unknown>,
+    ): Record<string, unknown> {
+  const mergedState: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(sessionState)) {
+    if (!key.startsWith(State.TEMP_PREFIX)) {
+      mergedState[key] = value;
+    }
+  }
+  for (const [key, value] of Object.entries(appState)) {
+    mergedState[State.APP_PREFIX + key] = value;
+  }
+  for (const [key, value] of Object.entries(userState)) {
+    mergedState[State.USER_PREFIX + key] = value;
+  }
+
+  return mergedState;
+}
+
+/**
+ * Returns the session state after applying the state deltas of the given
+ * events to the initial state. The `temp:` prefixed state is dropped.
+ *
+ * @param initialState The state the session is created with.
+ * @param events The events of the session.
+ * @return The state of the session.
+ */
+export function replayStateDeltas(
+    initialState: Record<string, unknown>,
+    events: Event[]): Record<string, unknown> {
+  const state = {...initialState};
+  for (const event of events) {
+    for (const [key, value] of Object.entries(
+             event.actions?.stateDelta ?? {})) {
+      if (!key.startsWith(State.TEMP_PREFIX)) {
+        state[key] = value;
+      }
+    }
+  }
+
+  return state;
+}
@@ -7,7 +7,7 @@
 import {Part} from '@google/genai';
 
 import {InvocationContext} from '../agents/invocation_context.js';
-import {BaseArtifactService, DeleteArtifactRequest, ListArtifactKeysRequest, ListVersionsRequest, LoadArtifactRequest, SaveArtifactRequest,} from '../artifacts/base_artifact_service.js';
+import {ArtifactStream, ArtifactVersion, BaseArtifactService, DeleteArtifactRequest, GetArtifactVersionRequest, ListArtifactKeysRequest, ListArtifactVersionsRequest, ListVersionsRequest, LoadArtifactRequest, LoadArtifactStreamRequest, SaveArtifactRequest, SaveArtifactStreamRequest,} from '../artifacts/base_artifact_service.js';
 
 import {ToolContext} from './tool_context.js';
 
@@ -52,4 +52,44 @@ export class ForwardingArtifactService implements BaseArtifactService {
     return this.toolContext.invocationContext.artifactService.listVersions(
         request);
   }
+
+  async getArtifactVersion(request: GetArtifactVersionRequest):
+      Promise<ArtifactVersion|undefined> {
+    if (!this.toolContext.invocationContext.artifactService) {
+      throw new Error('Artifact service is not initialized.');
+    }
+
+    return this.toolContext.invocationContext.artifactService
+        .getArtifactVersion(request);
+  }
+
+  async listArtifactVersions(request: ListArtifactVersionsRequest):
+      Promise<ArtifactVersion[]> {
+    if (!this.toolContext.invocationContext.artifactService) {
+      throw new Error('Artifact service is not initialized.');
+    }
+
+    return this.toolContext.invocationContext.artifactService
+        .listArtifactVersions(request);
+  }
+
+  async saveArtifactStream(request: SaveArtifactStreamRequest):
+      Promise<number> {
+    if (!this.toolContext.invocationContext.artifactService) {
+      throw new Error('Artifact service is not initialized.');
+    }
+
+    return this.toolContext.invocationContext.artifactService
+        .saveArtifactStream(request);
+  }
+
+  async loadArtifactStream(request: LoadArtifactStreamRequest):
+      Promise<ArtifactStream|undefined> {
+    if (!this.toolContext.invocationContext.artifactService) {
+      throw new Error('Artifact service is not initialized.');
+    }
+
+    return this.toolContext.invocationContext.artifactService
+        .loadArtifactStream(request);
+  }
 }
@@ -0,0 +1,153 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {FunctionDeclaration, Part, Type} from '@google/genai';
+
+import {getArtifactText} from '../artifacts/artifact_util.js';
+import {appendInstructions} from '../models/llm_request.js';
+
+import {BaseTool, RunAsyncToolRequest, ToolProcessLlmRequest} from './base_tool.js';
+
+/**
+ * The mime types of the binary artifacts that are sent to the model as inline
+ * data. The other binary artifacts are described instead.
+ */
+const INLINE_MIME_TYPE_PREFIXES = ['image/', 'application/pdf'];
+
+/**
+ * A tool that lets the model discover and read the artifacts of the session.
+ *
+ * The names of the available artifacts are listed in the system instruction.
+ * When the model calls the tool, the content of the requested artifacts is
+ * added to the next LLM request, rather than to the function response, so that
+ * images and PDF files are sent to the model as inline parts.
+ */
+export class LoadArtifactsTool extends BaseTool {
+  constructor() {
+    super({
+      name: 'load_artifacts',
+      description: 'Loads the artifacts and adds them to the session.',
+    });
+  }
+
+  override _getDeclaration(): FunctionDeclaration {
+    return {
+      name: this.name,
+      description: this.description,
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          artifact_names: {
+            type: Type.ARRAY,
+            items: {type: Type.STRING},
+          },
+        },
+      },
+    };
+  }
+
+  runAsync({args}: RunAsyncToolRequest): Promise<unknown> {
+    const artifactNames = getArtifactNames(args['artifact_names']);
+
+    return Promise.resolve({
+      artifact_names: artifactNames,
+      status:
+          'The content of the artifacts is added to the next request. Do not call this tool again for the same artifacts.',
+    });
+  }
+
+  override async processLlmRequest({toolContext, llmRequest}:
+                                       ToolProcessLlmRequest):
+      Promise<void> {
+    await super.processLlmRequest({toolContext, llmRequest});
+
+    if (!toolContext.invocationContext.artifactService) {
+      return;
+    }
+
+    const artifactNames = await toolContext.listArtifacts();
+    if (artifactNames.length === 0) {
+      return;
+    }
+
+    appendInstructions(llmRequest, [
+      `You have a list of artifacts:\n${JSON.stringify(artifactNames)}`,
+      `When the user asks questions about any of the artifacts, you should call the \`${
+          this.name}\` function to load the artifact. Do not generate any text other than the function call.`,
+    ]);
+
+    const lastContent = llmRequest.contents[llmRequest.contents.length - 1];
+    for (const part of lastContent?.parts ?? []) {
+      if (part.functionResponse?.name !== this.name) {
+        continue;
+      }
+
+      const requestedNames =
+          getArtifactNames(part.functionResponse.response?.['artifact_names']);
+      for (const artifactName of requestedNames) {
+        const artifact = await toolContext.loadArtifact(artifactName);
+        llmRequest.contents.push({
+          role: 'user',
+          parts: artifact ?
+              [
+                {text: `Artifact ${artifactName} is:`},
+                toLlmPart(artifactName, artifact),
+              ] :
+              [{text: `Artifact ${artifactName} was not found.`}],
+        });
+      }
+    }
+  }
+}
+
+/**
+ * A global instance of LoadArtifactsTool.
+ */
+export const LOAD_ARTIFACTS = new LoadArtifactsTool();
+
+/**
+ * Returns the artifact names given by the model, skipping the values that are
+ * not strings.
+ *
+ * @param value The artifact names argument of the function call.
+ * @return The artifact names, or an empty array if the value is not an array.
+ */
+function getArtifactNames(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.filter((name): name is string => typeof name === 'string');
+}
+
+/**
+ * Converts an artifact to the part sent to the model, depending on its mime
+ * type.
+ *
+ * @param artifactName The name of the artifact.
+ * @param artifact The artifact to convert.
+ * @return The text of the text artifacts, the inline data of the images and
+ *     PDF files, and a description of the other binary artifacts.
+ */
+function toLlmPart(artifactName: string, artifact: Part): Part {
+  const inlineData = artifact.inlineData;
+  if (!inlineData) {
+    return artifact;
+  }
+
+  const mimeType = inlineData.mimeType ?? '';
+  if (INLINE_MIME_TYPE_PREFIXES.some(prefix => mimeType.startsWith(prefix))) {
+    return artifact;
+  }
+  const text = getArtifactText(artifact);
+  if (text !== undefined) {
+    return {text};
+  }
+
+  return {
+    text: `[Binary artifact ${artifactName} of type ${
+        mimeType || 'unknown'} can not be shown.]`,
+  };
+}
@@ -35,19 +35,27 @@ export class ToolContext extends CallbackContext {
    *     call.
    * @param params.toolConfirmation The tool confirmation of the current tool
    *     call.
+   * @param params.toolName The name of the current tool, reported in the state
+   *     validation errors.
    */
   constructor({
     invocationContext,
     eventActions,
     functionCallId,
     toolConfirmation,
+    toolName,
   }: {
     invocationContext: InvocationContext,
     eventActions?: EventActions,
     functionCallId?: string,
     toolConfirmation?: ToolConfirmation,
+    toolName?: string,
   }) {
-    super({invocationContext, eventActions});
+    super({
+      invocationContext,
+      eventActions,
+      stateSource: toolName ? `tool "${toolName}"` : undefined,
+    });
     this.functionCallId = functionCallId;
     this.toolConfirmation = toolConfirmation;
   }
@@ -61,6 +61,38 @@ export function base64Decode(data: string): string {
   return Buffer.from(data, 'base64').toString();
 }
 
+/**
+ * Encodes the given bytes to base64.
+ *
+ * @param bytes The bytes to encode.
+ * @return The base64-encoded string.
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  if (isBrowser()) {
+    let binary = '';
+    for (const byte of bytes) {
+      binary += String.fromCharCode(byte);
+    }
+    return window.btoa(binary);
+  }
+
+  return Buffer.from(bytes).toString('base64');
+}
+
+/**
+ * Decodes the given base64 string to bytes.
+ *
+ * @param data The base64-encoded string.
+ * @return The decoded bytes.
+ */
+export function base64ToBytes(data: string): Uint8Array {
+  if (isBrowser()) {
+    return Uint8Array.from(window.atob(data), char => char.charCodeAt(0));
+  }
+
+  return new Uint8Array(Buffer.from(data, 'base64'));
+}
+
 /**
  * Checks if the given string is base64-encoded.
  *
@@ -0,0 +1,203 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import {randomUUID} from './env_aware_utils.js';
+
+const LOCK_RETRY_INTERVAL_MS = 10;
+const LOCK_TIMEOUT_MS = 10000;
+
+/**
+ * The age after which a lock is considered abandoned and can be taken over,
+ * even if the process that holds it looks alive, e.g. when its PID was reused.
+ */
+const LOCK_STALE_MS = 30000;
+
+/**
+ * The interval at which the modification time of the owner file of a held
+ * lock is refreshed, so that a lock held for a long time never looks
+ * abandoned.
+ */
+const LOCK_REFRESH_INTERVAL_MS = LOCK_STALE_MS / 3;
+
+/**
+ * Runs the given function while holding an exclusive lock on the given lock
+ * path.
+ *
+ * The lock is a directory that holds a single owner file, named after the PID
+ * of its owner and a unique ID. The lock directory is created with its owner
+ * file by renaming a prepared directory, which fails if the lock is held, so
+ * it is safe against concurrent access from multiple processes on the same
+ * machine. The lock of a process that is no longer running, or whose owner
+ * file was not refreshed for a while, is taken over.
+ *
+ * @param lockPath The path of the lock directory.
+ * @param fn The function to run while holding the lock.
+ * @return A promise that resolves to the result of the function.
+ */
+export async function withFileLock<T>(
+    lockPath: string, fn: () => Promise<T>): Promise<T> {
+  const owner = `${process.pid}-${randomUUID()}`;
+  await acquireLock(lockPath, owner);
+  const refreshTimer = setInterval(() => {
+    const now = new Date();
+    fs.utimes(path.join(lockPath, owner), now, now).catch(() => {});
+  }, LOCK_REFRESH_INTERVAL_MS);
+  refreshTimer.unref?.();
+  try {
+    return await fn();
+  } finally {
+    clearInterval(refreshTimer);
+    await releaseLock(lockPath, owner);
+  }
+}
+
+async function acquireLock(lockPath: string, owner: string): Promise<void> {
+  const startTime = Date.now();
+  const candidatePath = `${lockPath}.${owner}.tmp`;
+  await fs.mkdir(candidatePath);
+
+  try {
+    await fs.writeFile(path.join(candidatePath, owner), '');
+    while (true) {
+      try {
+        await fs.rename(candidatePath, lockPath);
+        return;
+      } catch (e: unknown) {
+        const code = (e as NodeJS.ErrnoException).code;
+        if (code !== 'EEXIST' && code !== 'ENOTEMPTY') {
+          throw e;
+        }
+      }
+
+      const currentOwner = await readOwner(lockPath);
+      if (currentOwner === undefined) {
+        // The lock is being released or taken over.
+        await removeEmptyLock(lockPath);
+        continue;
+      }
+      if (await isLockStale(lockPath, currentOwner)) {
+        await takeOverLock(lockPath, currentOwner);
+        continue;
+      }
+
+      if (Date.now() - startTime > LOCK_TIMEOUT_MS) {
+        throw new Error(`Timed out waiting for the lock ${lockPath}.`);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_INTERVAL_MS));
+    }
+  } finally {
+    await fs.rm(candidatePath, {recursive: true, force: true});
+  }
+}
+
+/**
+ * Removes the lock directory, unless it was taken over by another owner.
+ */
+async function releaseLock(lockPath: string, owner: string): Promise<void> {
+  if (await removeOwnerFile(lockPath, owner)) {
+    await removeEmptyLock(lockPath);
+  }
+}
+
+/**
+ * Returns whether the lock of the given owner is abandoned.
+ */
+async function isLockStale(lockPath: string, owner: string): Promise<boolean> {
+  let mtimeMs: number;
+  try {
+    mtimeMs = (await fs.stat(path.join(lockPath, owner))).mtimeMs;
+  } catch (e: unknown) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+      return false;
+    }
+    throw e;
+  }
+
+  const pid = Number(owner.split('-')[0]);
+  if (!isProcessAlive(pid)) {
+    return true;
+  }
+
+  return Date.now() - mtimeMs > LOCK_STALE_MS;
+}
+
+/**
+ * Takes over an abandoned lock.
+ *
+ * The owner file of the stale owner is removed, which only one of the waiters
+ * can do. As the owner IDs are unique, the owner file of a lock taken over in
+ * the meantime is never removed. The empty lock directory is then removed, or
+ * replaced by the next waiter that acquires the lock.
+ */
+async function takeOverLock(lockPath: string, staleOwner: string):
+    Promise<void> {
+  if (await removeOwnerFile(lockPath, staleOwner)) {
+    await removeEmptyLock(lockPath);
+  }
+}
+
+/**
+ * Removes the owner file of the lock, and returns whether it existed.
+ */
+async function removeOwnerFile(lockPath: string, owner: string):
+    Promise<boolean> {
+  try {
+    await fs.unlink(path.join(lockPath, owner));
+    return true;
+  } catch (e: unknown) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+      return false;
+    }
+    throw e;
+  }
+}
+
+/**
+ * Removes the lock directory if it has no owner file. An empty lock directory
+ * is not held by anyone, so it is safe to remove.
+ */
+async function removeEmptyLock(lockPath: string): Promise<void> {
+  try {
+    await fs.rmdir(lockPath);
+  } catch (e: unknown) {
+    const code = (e as NodeJS.ErrnoException).code;
+    if (code !== 'ENOENT' && code !== 'ENOTEMPTY' && code !== 'EEXIST') {
+      throw e;
+    }
+  }
+}
+
+/**
+ * Returns the owner of the lock, or undefined if the lock does not exist or
+ * has no owner file.
+ */
+async function readOwner(lockPath: string): Promise<string|undefined> {
+  try {
+    return (await fs.readdir(lockPath))[0];
+  } catch (e: unknown) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw e;
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  if (!Number.isInteger(pid) || pid <= 0) {
+    return false;
+  }
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (e: unknown) {
+    // The process exists but belongs to another user.
+    return (e as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'fs/promises';
+
+import {randomUUID} from './env_aware_utils.js';
+
+/**
+ * Encodes the given name to be used as a single path segment.
+ */
+export function encodePathSegment(name: string): string {
+  return encodeURIComponent(name).replace(/\./g, '%2E');
+}
+
+/**
+ * Decodes a path segment encoded by `encodePathSegment`.
+ */
+export function decodePathSegment(segment: string): string {
+  return decodeURIComponent(segment);
+}
+
+/**
+ * Returns the entries of the directory, or an empty list if it does not exist.
+ */
+export async function readDirIfExists(dirPath: string): Promise<string[]> {
+  try {
+    return await fs.readdir(dirPath);
+  } catch (e: unknown) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw e;
+  }
+}
+
+/**
+ * Reads and parses the JSON file, or returns undefined if it does not exist.
+ */
+export async function readJsonFile<T>(filePath: string): Promise<T|undefined> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8')) as T;
+  } catch (e: unknown) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw e;
+  }
+}
+
+/**
+ * Writes the file atomically, so that a crash never leaves a partially written
+ * file behind.
+ */
+export async function writeFileAtomic(
+    filePath: string, data: string|Uint8Array): Promise<void> {
+  const tempFile = `${filePath}.${randomUUID()}.tmp`;
+  await fs.writeFile(tempFile, data);
+  await fs.rename(tempFile, filePath);
+}
+
+/**
+ * Writes the JSON file atomically.
+ */
+export async function writeJsonFile(filePath: string, data: unknown):
+    Promise<void> {
+  await writeFileAtomic(filePath, JSON.stringify(data));
+}
@@ -6,6 +6,7 @@
 
 import { getContents } from '../../src/agents/content_processor_utils.js';
 import { createEvent } from '../../src/events/event.js';
+import { createEventActions } from '../../src/events/event_actions.js';
 
 describe('getContents', () => {
   it('should handle object responses in convertForeignEvent', () => {
@@ -85,4 +86,46 @@ describe('getContents', () => {
     // It should fall back to String(obj) which is usually [object Object] for plain objects.
     expect(textPart?.text).toContain('[object Object]');
   });
+
+  it('should replace the compacted events with their summaries', () => {
+    const textEvent = (author: string, text: string, timestamp: number) =>
+        createEvent({
+          author,
+          timestamp,
+          content: {role: author === 'user' ? 'user' : 'model', parts: [{text}]},
+        });
+    const compactionEvent =
+        (startTimestamp: number, endTimestamp: number, summary: string) =>
+            createEvent({
+              author: 'user',
+              timestamp: endTimestamp,
+              actions: createEventActions({
+                compaction: {
+                  startTimestamp,
+                  endTimestamp,
+                  compactedContent: {role: 'model', parts: [{text: summary}]},
+                },
+              }),
+            });
+    const events = [
+      textEvent('user', 'first question', 1),
+      textEvent('current_agent', 'first answer', 2),
+      textEvent('user', 'second question', 3),
+      textEvent('current_agent', 'second answer', 4),
+      compactionEvent(1, 4, 'first summary'),
+      textEvent('user', 'third question', 5),
+      textEvent('current_agent', 'third answer', 6),
+      compactionEvent(3, 6, 'second summary'),
+      textEvent('user', 'fourth question', 7),
+    ];
+
+    const contents = getContents(events, 'current_agent');
+
+    expect(contents.map(content => content.parts?.map(p => p.text).join(' ')))
+        .toEqual([
+          'For context: [model] said: first summary',
+          'For context: [model] said: second summary',
+          'fourth question',
+        ]);
+  });
 });
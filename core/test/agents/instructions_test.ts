@@ -0,0 +1,147 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {BaseLlm, BaseLlmConnection, createSession, InMemoryArtifactService, injectSessionState, InvocationContext, LlmAgent, LlmRequest, LlmResponse, PluginManager, ReadonlyContext} from '@google/adk';
+import {createModelContent, createUserContent, Part} from '@google/genai';
+
+const APP_NAME = 'test_app';
+const USER_ID = 'test_user';
+const SESSION_ID = 'test_session';
+
+class RecordingLlm extends BaseLlm {
+  readonly requests: LlmRequest[] = [];
+
+  constructor() {
+    super({model: 'gemini-2.0-flash'});
+  }
+
+  async *
+      generateContentAsync(llmRequest: LlmRequest):
+          AsyncGenerator<LlmResponse, void, void> {
+    this.requests.push(llmRequest);
+    yield {content: createModelContent('Done.')};
+  }
+
+  connect(): Promise<BaseLlmConnection> {
+    throw new Error('Not supported by the recording llm.');
+  }
+}
+
+describe('injectSessionState', () => {
+  let artifactService: InMemoryArtifactService;
+  let readonlyContext: ReadonlyContext;
+
+  beforeEach(() => {
+    artifactService = new InMemoryArtifactService();
+    readonlyContext = new ReadonlyContext(new InvocationContext({
+      invocationId: 'invocation_1',
+      session: createSession({
+        id: SESSION_ID,
+        appName: APP_NAME,
+        userId: USER_ID,
+        state: {'topic': 'artifacts'},
+      }),
+      agent: new LlmAgent({name: 'root_agent'}),
+      pluginManager: new PluginManager(),
+      artifactService,
+    }));
+  });
+
+  async function saveArtifact(filename: string, artifact: Part) {
+    await artifactService.saveArtifact({
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: SESSION_ID,
+      filename,
+      artifact,
+    });
+  }
+
+  function toInlineData(mimeType: string, data: string): Part {
+    return {inlineData: {mimeType, data: Buffer.from(data).toString('base64')}};
+  }
+
+  it('injects the state and the text artifacts', async () => {
+    await saveArtifact('notes.txt', {text: 'first notes'});
+    await saveArtifact('notes.txt', toInlineData('text/plain', 'last notes'));
+
+    expect(await injectSessionState(
+               'Topic: {topic}. Notes: {artifact.notes.txt}. ' +
+                   'First notes: {artifact.notes.txt@0}.',
+               readonlyContext))
+        .toBe(
+            'Topic: artifacts. Notes: last notes. First notes: first notes.');
+  });
+
+  it('pretty-prints the JSON artifacts', async () => {
+    await saveArtifact(
+        'config.json', toInlineData('application/json', '{"a":[1,2]}'));
+
+    expect(await injectSessionState('{artifact.config.json}', readonlyContext))
+        .toBe('{\n  "a": [\n    1,\n    2\n  ]\n}');
+  });
+
+  it('describes or rejects the binary artifacts', async () => {
+    await saveArtifact(
+        'image.png', {inlineData: {mimeType: 'image/png', data: 'AAECAw=='}});
+
+    expect(await injectSessionState('{artifact.image.png}', readonlyContext))
+        .toBe('[Binary artifact image.png: image/png, 4 bytes]');
+    await expect(injectSessionState(
+                     '{artifact.image.png}', readonlyContext,
+                     {rejectBinaryArtifacts: true}))
+        .rejects.toThrow(
+            'Artifact image.png of type image/png can not be injected in the instruction.');
+  });
+
+  it('truncates the long artifacts', async () => {
+    await saveArtifact('long.txt', {text: 'abcdefghij'});
+
+    expect(await injectSessionState(
+               '{artifact.long.txt}', readonlyContext, {maxArtifactLength: 4}))
+        .toBe('abcd\n[... truncated 6 characters]');
+  });
+
+  it('handles the missing artifacts', async () => {
+    await saveArtifact('notes.txt', {text: 'notes'});
+
+    expect(await injectSessionState(
+               '[{artifact.missing.txt?}]', readonlyContext))
+        .toBe('[]');
+    await expect(
+        injectSessionState('{artifact.notes.txt@1}', readonlyContext))
+        .rejects.toThrow('Artifact notes.txt@1 not found.');
+  });
+
+  it('injects the artifacts with the options of the agent', async () => {
+    await saveArtifact('long.txt', {text: 'abcdefghij'});
+    const llm = new RecordingLlm();
+    const agent = new LlmAgent({
+      name: 'root_agent',
+      model: llm,
+      instruction: 'Notes: {artifact.long.txt}',
+      injectSessionStateOptions: {maxArtifactLength: 4},
+    });
+    const invocationContext = new InvocationContext({
+      invocationId: 'invocation_1',
+      session:
+          createSession({id: SESSION_ID, appName: APP_NAME, userId: USER_ID}),
+      agent,
+      userContent: createUserContent('hello'),
+      pluginManager: new PluginManager(),
+      artifactService,
+    });
+
+    const events = [];
+    for await (const event of agent.runAsync(invocationContext)) {
+      events.push(event);
+    }
+
+    expect(events.length).toBe(1);
+    expect(llm.requests[0].config?.systemInstruction)
+        .toContain('Notes: abcd\n[... truncated 6 characters]');
+  });
+});
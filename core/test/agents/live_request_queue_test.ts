@@ -148,4 +148,31 @@ describe('LiveRequestQueue', () => {
        expect(await queue.get()).toEqual({close: true});
        expect(await queue.get()).toEqual({close: true});
      });
+
+  it('should not consume requests for an aborted get', async () => {
+    const queue = new LiveRequestQueue();
+    const abortController = new AbortController();
+    const abortedGet = queue.get(abortController.signal);
+    const pendingGet = queue.get();
+
+    abortController.abort();
+    await expect(abortedGet).rejects.toBeDefined();
+
+    const request = {content: createUserContent('req1')};
+    queue.send(request);
+    expect(await pendingGet).toEqual(request);
+  });
+
+  it('should reject immediately when the signal is already aborted',
+     async () => {
+       const queue = new LiveRequestQueue();
+       queue.send({content: createUserContent('req1')});
+       const abortController = new AbortController();
+       abortController.abort();
+
+       await expect(queue.get(abortController.signal)).rejects.toBeDefined();
+       expect(await queue.get()).toEqual({
+         content: createUserContent('req1'),
+       });
+     });
 });
@@ -0,0 +1,442 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {BaseLlm, BaseLlmConnection, createEvent, createSession, Event, FunctionTool, getFunctionCalls, getFunctionResponses, InvocationContext, LiveRequestQueue, LlmAgent, LlmResponse, PluginManager} from '@google/adk';
+import {Blob, Content, createUserContent} from '@google/genai';
+import {z} from 'zod';
+
+class ScriptedLlmConnection implements BaseLlmConnection {
+  history: Content[] = [];
+  sentContents: Content[] = [];
+  sentBlobs: Blob[] = [];
+  activitySignals: string[] = [];
+  closed = false;
+  closeCount = 0;
+  private resolveClosed!: () => void;
+  private readonly closedPromise = new Promise<void>((resolve) => {
+    this.resolveClosed = resolve;
+  });
+
+  constructor(private readonly responses: LlmResponse[]) {}
+
+  async sendHistory(history: Content[]): Promise<void> {
+    this.history = history;
+  }
+
+  async sendContent(content: Content): Promise<void> {
+    this.sentContents.push(content);
+  }
+
+  async sendRealtime(blob: Blob): Promise<void> {
+    if (blob.mimeType === 'audio/invalid') {
+      throw new Error('Invalid audio.');
+    }
+    this.sentBlobs.push(blob);
+  }
+
+  async sendActivityStart(): Promise<void> {
+    this.activitySignals.push('start');
+  }
+
+  async sendActivityEnd(): Promise<void> {
+    this.activitySignals.push('end');
+  }
+
+  async * receive(): AsyncGenerator<LlmResponse, void, void> {
+    for (const response of this.responses) {
+      yield response;
+    }
+    await this.closedPromise;
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    this.closeCount++;
+    this.resolveClosed();
+  }
+}
+
+class ScriptedLlm extends BaseLlm {
+  readonly connections: ScriptedLlmConnection[] = [];
+
+  constructor(
+      private readonly responses: LlmResponse[], model = 'scripted-llm') {
+    super({model});
+  }
+
+  generateContentAsync(): AsyncGenerator<LlmResponse, void, void> {
+    throw new Error('Not supported by the scripted llm.');
+  }
+
+  async connect(): Promise<BaseLlmConnection> {
+    const connection = new ScriptedLlmConnection(this.responses);
+    this.connections.push(connection);
+    return connection;
+  }
+}
+
+function createLiveContext(
+    agent: LlmAgent, liveRequestQueue: LiveRequestQueue): InvocationContext {
+  return new InvocationContext({
+    invocationId: 'inv_123',
+    agent,
+    session: createSession({
+      id: 'session_123',
+      appName: 'test_app',
+      userId: 'test_user',
+      events: [{
+        id: 'event_1',
+        invocationId: 'inv_123',
+        author: 'user',
+        content: createUserContent('Hello'),
+        actions: {
+          stateDelta: {},
+          artifactDelta: {},
+          requestedAuthConfigs: {},
+          requestedToolConfirmations: {},
+        },
+        timestamp: 1,
+      }],
+    }),
+    liveRequestQueue,
+    transcriptionCache: [],
+    runConfig: {},
+    pluginManager: new PluginManager(),
+  });
+}
+
+/**
+ * Runs the agent live and closes the queue once `shouldClose` returns true for
+ * a received event.
+ */
+async function runLiveUntil(
+    agent: LlmAgent,
+    liveRequestQueue: LiveRequestQueue,
+    shouldClose: (event: Event) => boolean,
+    ): Promise<Event[]> {
+  const events: Event[] = [];
+  const context = createLiveContext(agent, liveRequestQueue);
+  for await (const event of agent.runLive(context)) {
+    events.push(event);
+    if (shouldClose(event)) {
+      liveRequestQueue.close();
+    }
+  }
+  return events;
+}
+
+describe('LlmAgent.runLive', () => {
+  it('forwards live requests to the model connection', async () => {
+    const llm = new ScriptedLlm([]);
+    const agent = new LlmAgent({name: 'live_agent', model: llm});
+    const liveRequestQueue = new LiveRequestQueue();
+    const blob = {data: 'YXVkaW8=', mimeType: 'audio/pcm'};
+
+    liveRequestQueue.sendActivityStart();
+    liveRequestQueue.sendRealtime(blob);
+    liveRequestQueue.sendActivityEnd();
+    liveRequestQueue.sendContent(createUserContent('How are you?'));
+    liveRequestQueue.close();
+
+    const context = createLiveContext(agent, liveRequestQueue);
+    const events: Event[] = [];
+    for await (const event of agent.runLive(context)) {
+      events.push(event);
+    }
+
+    expect(events).toEqual([]);
+    expect(llm.connections.length).toBe(1);
+    const connection = llm.connections[0];
+    expect(connection.history).toEqual([createUserContent('Hello')]);
+    expect(connection.activitySignals).toEqual(['start', 'end']);
+    expect(connection.sentBlobs).toEqual([blob]);
+    expect(connection.sentContents).toEqual([
+      createUserContent('How are you?'),
+    ]);
+    expect(connection.closeCount).toBe(1);
+    expect(context.transcriptionCache).toEqual([{role: 'user', data: blob}]);
+  });
+
+  it('closes the connection once when sending fails', async () => {
+    const llm = new ScriptedLlm([]);
+    const agent = new LlmAgent({name: 'live_agent', model: llm});
+    const liveRequestQueue = new LiveRequestQueue();
+    liveRequestQueue.sendRealtime(
+        {data: 'YXVkaW8=', mimeType: 'audio/invalid'});
+
+    const events: Event[] = [];
+    for await (const event of agent.runLive(
+        createLiveContext(agent, liveRequestQueue))) {
+      events.push(event);
+    }
+
+    expect(events).toEqual([]);
+    expect(llm.connections[0].closeCount).toBe(1);
+  });
+
+  it('handles function calls and sends the responses back', async () => {
+    const llm = new ScriptedLlm([
+      {
+        content: {
+          role: 'model',
+          parts: [{
+            functionCall:
+                {id: 'call_1', name: 'get_weather', args: {city: 'Paris'}},
+          }],
+        },
+      },
+      {turnComplete: true},
+    ]);
+    const agent = new LlmAgent({
+      name: 'live_agent',
+      model: llm,
+      tools: [new FunctionTool({
+        name: 'get_weather',
+        description: 'Gets the weather of a city.',
+        parameters: z.object({city: z.string()}),
+        execute: async ({city}) => ({weather: `Sunny in ${city}`}),
+      })],
+    });
+    const liveRequestQueue = new LiveRequestQueue();
+
+    const events = await runLiveUntil(
+        agent, liveRequestQueue, (event) => !!event.turnComplete);
+
+    expect(events.length).toBe(3);
+    expect(getFunctionCalls(events[0])[0].name).toBe('get_weather');
+    expect(getFunctionResponses(events[1])[0]).toEqual({
+      id: 'call_1',
+      name: 'get_weather',
+      response: {weather: 'Sunny in Paris'},
+    });
+    expect(events[2].turnComplete).toBe(true);
+    expect(llm.connections[0].sentContents).toEqual([events[1].content]);
+  });
+
+  it('yields transcription events', async () => {
+    const llm = new ScriptedLlm([
+      {inputTranscription: {text: 'Hi', finished: false}, partial: true},
+      {inputTranscription: {text: 'Hi there', finished: true}, partial: false},
+      {outputTranscription: {text: 'Hello!', finished: true}, partial: false},
+    ]);
+    const agent = new LlmAgent({name: 'live_agent', model: llm});
+    const liveRequestQueue = new LiveRequestQueue();
+
+    const events = await runLiveUntil(
+        agent, liveRequestQueue, (event) => !!event.outputTranscription);
+
+    expect(events.map((event) => event.partial)).toEqual([true, false, false]);
+    expect(events[1].inputTranscription).toEqual({
+      text: 'Hi there',
+      finished: true,
+    });
+    expect(events[2].outputTranscription).toEqual({
+      text: 'Hello!',
+      finished: true,
+    });
+    expect(events.every((event) => event.author === 'live_agent')).toBe(true);
+  });
+
+  it('transfers the live conversation to another agent', async () => {
+    const subAgentLlm = new ScriptedLlm([
+      {content: {role: 'model', parts: [{text: 'Hello from sub agent'}]}},
+    ]);
+    const subAgent = new LlmAgent({
+      name: 'sub_agent',
+      description: 'Handles the greetings.',
+      model: subAgentLlm,
+    });
+    const rootLlm = new ScriptedLlm([{
+      content: {
+        role: 'model',
+        parts: [{
+          functionCall: {
+            id: 'call_1',
+            name: 'transfer_to_agent',
+            args: {agentName: 'sub_agent'},
+          },
+        }],
+      },
+    }]);
+    const rootAgent = new LlmAgent({
+      name: 'root_agent',
+      model: rootLlm,
+      subAgents: [subAgent],
+    });
+    const liveRequestQueue = new LiveRequestQueue();
+
+    const events = await runLiveUntil(
+        rootAgent, liveRequestQueue, (event) => event.author === 'sub_agent');
+
+    expect(events.map((event) => event.author)).toEqual([
+      'root_agent',
+      'root_agent',
+      'sub_agent',
+    ]);
+    expect(events[1].actions.transferToAgent).toBe('sub_agent');
+    expect(rootLlm.connections[0].closed).toBe(true);
+    // The transfer function response is not sent back to the root model.
+    expect(rootLlm.connections[0].sentContents).toEqual([]);
+    expect(subAgentLlm.connections.length).toBe(1);
+    expect(subAgentLlm.connections[0].closed).toBe(true);
+  });
+});
+
+describe('LlmAgent.runAsync with CFC', () => {
+  function createCfcContext(agent: LlmAgent): InvocationContext {
+    return new InvocationContext({
+      invocationId: 'inv_123',
+      agent,
+      session: createSession({
+        id: 'session_123',
+        appName: 'test_app',
+        events: [createEvent({
+          invocationId: 'inv_123',
+          author: 'user',
+          content: createUserContent('Double 2, then double it again.'),
+        })],
+      }),
+      runConfig: {supportCfc: true},
+      pluginManager: new PluginManager(),
+    });
+  }
+
+  it('executes the chained function calls within the live connection',
+     async () => {
+       const llm = new ScriptedLlm(
+           [
+             {
+               content: {
+                 role: 'model',
+                 parts: [{
+                   functionCall:
+                       {id: 'call_1', name: 'double', args: {value: 2}},
+                 }],
+               },
+             },
+             {
+               content: {
+                 role: 'model',
+                 parts: [{
+                   functionCall:
+                       {id: 'call_2', name: 'double', args: {value: 4}},
+                 }],
+               },
+             },
+             {
+               content: {role: 'model', parts: [{text: 'The result'}]},
+               partial: true,
+             },
+             {content: {role: 'model', parts: [{text: 'The result is 8.'}]}},
+             {turnComplete: true},
+           ],
+           'gemini-2.0-flash-live-001');
+       let toolCallCount = 0;
+       const afterModelResponses: LlmResponse[] = [];
+       const agent = new LlmAgent({
+         name: 'cfc_agent',
+         model: llm,
+         afterModelCallback: async ({response}) => {
+           afterModelResponses.push(response);
+           return undefined;
+         },
+         tools: [new FunctionTool({
+           name: 'double',
+           description: 'Doubles a value.',
+           parameters: z.object({value: z.number()}),
+           execute: async ({value}) => {
+             toolCallCount++;
+             return {result: value * 2};
+           },
+         })],
+       });
+
+       const events: Event[] = [];
+       for await (const event of agent.runAsync(createCfcContext(agent))) {
+         events.push(event);
+       }
+
+       expect(toolCallCount).toBe(2);
+       expect(events.length).toBe(5);
+       expect(getFunctionCalls(events[0])[0].id).toBe('call_1');
+       expect(getFunctionResponses(events[1])[0].response).toEqual({
+         result: 4,
+       });
+       expect(getFunctionCalls(events[2])[0].id).toBe('call_2');
+       expect(getFunctionResponses(events[3])[0].response).toEqual({
+         result: 8,
+       });
+       expect(events[4].content?.parts?.[0].text).toBe('The result is 8.');
+       const connection = llm.connections[0];
+       expect(connection.history).toEqual([
+         createUserContent('Double 2, then double it again.'),
+       ]);
+       expect(connection.sentContents).toEqual([
+         events[1].content,
+         events[3].content,
+       ]);
+       expect(connection.closed).toBe(true);
+       expect(afterModelResponses.length).toBe(5);
+       expect(afterModelResponses.some(
+                  (response) => response.content?.parts?.some(
+                      (part) => part.functionResponse)))
+           .toBe(false);
+     });
+
+  it('transfers to another agent from the live connection', async () => {
+    const subAgentLlm = new ScriptedLlm(
+        [
+          {content: {role: 'model', parts: [{text: 'Hello from sub agent'}]}},
+          {turnComplete: true},
+        ],
+        'gemini-2.0-flash-live-001');
+    const rootLlm = new ScriptedLlm(
+        [{
+          content: {
+            role: 'model',
+            parts: [{
+              functionCall: {
+                id: 'call_1',
+                name: 'transfer_to_agent',
+                args: {agentName: 'sub_agent'},
+              },
+            }],
+          },
+        }],
+        'gemini-2.0-flash-live-001');
+    const agent = new LlmAgent({
+      name: 'cfc_agent',
+      model: rootLlm,
+      subAgents: [new LlmAgent({
+        name: 'sub_agent',
+        description: 'Handles the greetings.',
+        model: subAgentLlm,
+      })],
+    });
+
+    const events: Event[] = [];
+    for await (const event of agent.runAsync(createCfcContext(agent))) {
+      events.push(event);
+    }
+
+    expect(events.map((event) => event.author)).toEqual([
+      'cfc_agent',
+      'cfc_agent',
+      'sub_agent',
+    ]);
+    expect(events[1].actions.transferToAgent).toBe('sub_agent');
+    expect(rootLlm.connections[0].closed).toBe(true);
+    expect(rootLlm.connections[0].sentContents).toEqual([]);
+    expect(events[2].content?.parts?.[0].text).toBe('Hello from sub agent');
+  });
+
+  it('throws for models other than Gemini 2', async () => {
+    const agent = new LlmAgent({name: 'cfc_agent', model: new ScriptedLlm([])});
+
+    await expect(agent.runAsync(createCfcContext(agent)).next())
+        .rejects.toThrow('CFC is not supported for model: scripted-llm');
+  });
+});
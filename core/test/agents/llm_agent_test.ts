@@ -20,6 +20,12 @@ class MockLlmConnection implements BaseLlmConnection {
   }): Promise<void> {
     return Promise.resolve();
   }
+  sendActivityStart(): Promise<void> {
+    return Promise.resolve();
+  }
+  sendActivityEnd(): Promise<void> {
+    return Promise.resolve();
+  }
   async * receive(): AsyncGenerator<LlmResponse, void, void> {
     // No-op for mock.
   }
@@ -0,0 +1,267 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {BaseAgent, BaseLlm, BaseLlmConnection, createEvent, createEventActions, createSession, Event, InvocationContext, LiveRequestQueue, LlmAgent, LlmRequest, LlmResponse, LoopAgent, ParallelAgent, PluginManager, SequentialAgent} from '@google/adk';
+import {Content, createUserContent} from '@google/genai';
+
+class ScriptedLlmConnection implements BaseLlmConnection {
+  sentContents: Content[] = [];
+  closed = false;
+  private resolveClosed!: () => void;
+  private readonly closedPromise = new Promise<void>((resolve) => {
+    this.resolveClosed = resolve;
+  });
+
+  constructor(private readonly responses: LlmResponse[]) {}
+
+  async sendHistory(): Promise<void> {}
+
+  async sendContent(content: Content): Promise<void> {
+    this.sentContents.push(content);
+  }
+
+  async sendRealtime(): Promise<void> {}
+
+  async sendActivityStart(): Promise<void> {}
+
+  async sendActivityEnd(): Promise<void> {}
+
+  async * receive(): AsyncGenerator<LlmResponse, void, void> {
+    for (const response of this.responses) {
+      yield response;
+    }
+    await this.closedPromise;
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    this.resolveClosed();
+  }
+}
+
+class ScriptedLlm extends BaseLlm {
+  readonly connections: ScriptedLlmConnection[] = [];
+  readonly requests: LlmRequest[] = [];
+
+  constructor(private readonly responses: LlmResponse[]) {
+    super({model: 'scripted-llm'});
+  }
+
+  generateContentAsync(): AsyncGenerator<LlmResponse, void, void> {
+    throw new Error('Not supported by the scripted llm.');
+  }
+
+  async connect(llmRequest: LlmRequest): Promise<BaseLlmConnection> {
+    const connection = new ScriptedLlmConnection(this.responses);
+    this.requests.push(llmRequest);
+    this.connections.push(connection);
+    return connection;
+  }
+}
+
+/** Echoes the content of every live request it receives as an event. */
+class EchoLiveAgent extends BaseAgent {
+  protected override runAsyncImpl(): AsyncGenerator<Event, void, void> {
+    throw new Error('Not implemented');
+  }
+
+  protected override async *
+      runLiveImpl(context: InvocationContext):
+          AsyncGenerator<Event, void, void> {
+    for await (const request of context.liveRequestQueue!) {
+      if (request.content) {
+        yield createEvent({
+          invocationId: context.invocationId,
+          author: this.name,
+          branch: context.branch,
+          content: request.content,
+        });
+      }
+    }
+  }
+}
+
+/** Escalates on its second live run, then never ends on its own. */
+class EscalatingLiveAgent extends BaseAgent {
+  runCount = 0;
+
+  protected override runAsyncImpl(): AsyncGenerator<Event, void, void> {
+    throw new Error('Not implemented');
+  }
+
+  protected override async *
+      runLiveImpl(context: InvocationContext):
+          AsyncGenerator<Event, void, void> {
+    this.runCount++;
+    yield createEvent({
+      invocationId: context.invocationId,
+      author: this.name,
+      actions: createEventActions({escalate: this.runCount === 2}),
+    });
+    if (this.runCount === 2) {
+      await new Promise<void>(() => {});
+    }
+  }
+}
+
+function createLiveContext(
+    agent: BaseAgent, liveRequestQueue: LiveRequestQueue): InvocationContext {
+  return new InvocationContext({
+    invocationId: 'inv_123',
+    agent,
+    session: createSession({id: 'session_123', appName: 'test_app'}),
+    liveRequestQueue,
+    transcriptionCache: [],
+    runConfig: {},
+    pluginManager: new PluginManager(),
+  });
+}
+
+describe('SequentialAgent.runLive', () => {
+  it('hands off to the next sub-agent on task completion', async () => {
+    const firstLlm = new ScriptedLlm([{
+      content: {
+        role: 'model',
+        parts: [{functionCall: {id: 'call_1', name: 'task_completed'}}],
+      },
+    }]);
+    const secondLlm = new ScriptedLlm([
+      {content: {role: 'model', parts: [{text: 'Second agent here'}]}},
+    ]);
+    const agent = new SequentialAgent({
+      name: 'sequential',
+      subAgents: [
+        new LlmAgent({name: 'first', model: firstLlm}),
+        new LlmAgent({name: 'second', model: secondLlm}),
+      ],
+    });
+    const liveRequestQueue = new LiveRequestQueue();
+
+    const events: Event[] = [];
+    for await (const event of agent.runLive(
+        createLiveContext(agent, liveRequestQueue))) {
+      events.push(event);
+      if (event.author === 'second') {
+        liveRequestQueue.close();
+      }
+    }
+
+    expect(events.map((event) => event.author)).toEqual([
+      'first',
+      'first',
+      'second',
+    ]);
+    expect(firstLlm.requests[0].toolsDict['task_completed']).toBeDefined();
+    expect(firstLlm.connections[0].closed).toBe(true);
+    expect(firstLlm.connections[0].sentContents).toEqual([]);
+    expect(secondLlm.connections.length).toBe(1);
+  });
+
+  it('stops once the live request queue is closed', async () => {
+    const firstLlm = new ScriptedLlm([
+      {content: {role: 'model', parts: [{text: 'First agent here'}]}},
+    ]);
+    const secondLlm = new ScriptedLlm([]);
+    const agent = new SequentialAgent({
+      name: 'sequential',
+      subAgents: [
+        new LlmAgent({
+          name: 'first',
+          model: firstLlm,
+          instruction: async () => 'Greet the user.',
+        }),
+        new LlmAgent({name: 'second', model: secondLlm}),
+      ],
+    });
+    const liveRequestQueue = new LiveRequestQueue();
+
+    const events: Event[] = [];
+    for await (const event of agent.runLive(
+        createLiveContext(agent, liveRequestQueue))) {
+      events.push(event);
+      liveRequestQueue.close();
+    }
+
+    expect(events.map((event) => event.author)).toEqual(['first']);
+    expect(firstLlm.requests[0].config?.systemInstruction)
+        .toContain('Greet the user.If you finished the user\'s request');
+    expect(secondLlm.connections).toEqual([]);
+  });
+});
+
+describe('LoopAgent.runLive', () => {
+  it('stops the loop when a sub-agent escalates', async () => {
+    const subAgent = new EscalatingLiveAgent({name: 'escalating'});
+    const agent = new LoopAgent({
+      name: 'loop',
+      subAgents: [subAgent],
+      maxIterations: 5,
+    });
+
+    const events: Event[] = [];
+    for await (const event of agent.runLive(
+        createLiveContext(agent, new LiveRequestQueue()))) {
+      events.push(event);
+    }
+
+    expect(events.map((event) => event.actions.escalate)).toEqual([
+      false,
+      true,
+    ]);
+    expect(subAgent.runCount).toBe(2);
+  });
+
+  it('stops the loop once the live request queue is closed', async () => {
+    const llm = new ScriptedLlm([
+      {content: {role: 'model', parts: [{text: 'Hello'}]}},
+    ]);
+    const agent = new LoopAgent({
+      name: 'loop',
+      subAgents: [new LlmAgent({name: 'looping', model: llm})],
+    });
+    const liveRequestQueue = new LiveRequestQueue();
+
+    const events: Event[] = [];
+    for await (const event of agent.runLive(
+        createLiveContext(agent, liveRequestQueue))) {
+      events.push(event);
+      liveRequestQueue.close();
+    }
+
+    expect(events.length).toBe(1);
+    expect(llm.connections.length).toBe(1);
+    expect(llm.connections[0].closed).toBe(true);
+  });
+});
+
+describe('ParallelAgent.runLive', () => {
+  it('runs the sub-agents live in isolated branches', async () => {
+    const agent = new ParallelAgent({
+      name: 'parallel',
+      subAgents: [
+        new EchoLiveAgent({name: 'echo_1'}),
+        new EchoLiveAgent({name: 'echo_2'}),
+      ],
+    });
+    const liveRequestQueue = new LiveRequestQueue();
+    liveRequestQueue.sendContent(createUserContent('Hello'));
+    liveRequestQueue.close();
+
+    const events: Event[] = [];
+    for await (const event of agent.runLive(
+        createLiveContext(agent, liveRequestQueue))) {
+      events.push(event);
+    }
+
+    expect(events.map((event) => event.branch).sort()).toEqual([
+      'parallel.echo_1',
+      'parallel.echo_2',
+    ]);
+    expect(events.every(
+               (event) => event.content?.parts?.[0].text === 'Hello'))
+        .toBe(true);
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {FileSystemArtifactService} from '@google/adk';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {pathToFileURL} from 'url';
+
+const APP_NAME = 'test_app';
+const USER_ID = 'test_user';
+const SESSION_ID = 'test_session';
+
+describe('FileSystemArtifactService', () => {
+  let rootDir: string;
+  let artifactService: FileSystemArtifactService;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'adk-artifacts-'));
+    artifactService = new FileSystemArtifactService(rootDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, {recursive: true, force: true});
+  });
+
+  it('saves and loads versioned artifacts', async () => {
+    const artifactKey = {
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: SESSION_ID,
+      filename: 'report.txt',
+    };
+
+    expect(await artifactService.saveArtifact(
+               {...artifactKey, artifact: {text: 'first'}}))
+        .toBe(0);
+    expect(await artifactService.saveArtifact(
+               {...artifactKey, artifact: {text: 'second'}}))
+        .toBe(1);
+
+    expect(await artifactService.listVersions(artifactKey)).toEqual([0, 1]);
+    expect(await artifactService.loadArtifact(artifactKey)).toEqual({
+      text: 'second',
+    });
+    expect(await new FileSystemArtifactService(rootDir).loadArtifact(
+               {...artifactKey, version: 0}))
+        .toEqual({text: 'first'});
+    expect(await artifactService.loadArtifact({...artifactKey, version: 2}))
+        .toBeUndefined();
+  });
+
+  it('preserves the mime type and the content of binary artifacts',
+     async () => {
+       const data = Buffer.from([0, 1, 2, 255]);
+       const artifactKey = {
+         appName: APP_NAME,
+         userId: USER_ID,
+         sessionId: SESSION_ID,
+         filename: 'image.png',
+       };
+
+       await artifactService.saveArtifact({
+         ...artifactKey,
+         artifact: {
+           inlineData: {mimeType: 'image/png', data: data.toString('base64')},
+         },
+       });
+
+       expect(await artifactService.loadArtifact(artifactKey)).toEqual({
+         inlineData: {mimeType: 'image/png', data: data.toString('base64')},
+       });
+       expect(fs.readFileSync(path.join(
+                  rootDir, APP_NAME, 'users', USER_ID, 'sessions', SESSION_ID,
+                  'artifacts', 'image%2Epng', 'versions', '0')))
+           .toEqual(data);
+     });
+
+  it('shares the user namespaced artifacts between sessions', async () => {
+    await artifactService.saveArtifact({
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: SESSION_ID,
+      filename: 'user:profile.txt',
+      artifact: {text: 'profile'},
+    });
+    await artifactService.saveArtifact({
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: SESSION_ID,
+      filename: 'notes.txt',
+      artifact: {text: 'notes'},
+    });
+
+    expect(await artifactService.listArtifactKeys({
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: SESSION_ID,
+    })).toEqual(['notes.txt', 'user:profile.txt']);
+    expect(await artifactService.listArtifactKeys({
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: 'other_session',
+    })).toEqual(['user:profile.txt']);
+    expect(await artifactService.loadArtifact({
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: 'other_session',
+      filename: 'user:profile.txt',
+    })).toEqual({text: 'profile'});
+  });
+
+  it('deletes all the versions of an artifact', async () => {
+    const artifactKey = {
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: SESSION_ID,
+      filename: 'report.txt',
+    };
+    await artifactService.saveArtifact(
+        {...artifactKey, artifact: {text: 'first'}});
+
+    await artifactService.deleteArtifact(artifactKey);
+
+    expect(await artifactService.listVersions(artifactKey)).toEqual([]);
+    expect(await artifactService.listArtifactKeys(artifactKey)).toEqual([]);
+    expect(await artifactService.saveArtifact(
+               {...artifactKey, artifact: {text: 'new'}}))
+        .toBe(0);
+  });
+
+  it('assigns distinct versions to concurrent saves', async () => {
+    const artifactKey = {
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: SESSION_ID,
+      filename: 'report.txt',
+    };
+
+    const versions = await Promise.all(Array.from(
+        {length: 5},
+        (_, i) => new FileSystemArtifactService(rootDir).saveArtifact(
+            {...artifactKey, artifact: {text: `version ${i}`}})));
+
+    expect(versions.sort()).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('records the metadata of each version', async () => {
+    const artifactKey = {
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: SESSION_ID,
+      filename: 'image.png',
+    };
+    await artifactService.saveArtifact({
+      ...artifactKey,
+      artifact: {text: 'héllo'},
+      customMetadata: {author: 'tool'},
+    });
+    await artifactService.saveArtifact({
+      ...artifactKey,
+      artifact: {
+        inlineData: {
+          mimeType: 'image/png',
+          data: Buffer.from([1, 2, 3]).toString('base64'),
+        },
+      },
+    });
+
+    const versions =
+        await new FileSystemArtifactService(rootDir).listArtifactVersions(
+            artifactKey);
+
+    expect(versions).toEqual([
+      {
+        version: 0,
+        createTime: expect.any(Number),
+        mimeType: 'text/plain',
+        sizeBytes: 6,
+        canonicalUri: pathToFileURL(path.join(
+                                        rootDir, APP_NAME, 'users', USER_ID,
+                                        'sessions', SESSION_ID, 'artifacts',
+                                        'image%2Epng', 'versions', '0'))
+                          .href,
+        customMetadata: {author: 'tool'},
+      },
+      expect.objectContaining(
+          {version: 1, mimeType: 'image/png', sizeBytes: 3}),
+    ]);
+    expect(await artifactService.getArtifactVersion(artifactKey))
+        .toEqual(versions[1]);
+    expect(await artifactService.getArtifactVersion(
+               {...artifactKey, version: 2}))
+        .toBeUndefined();
+  });
+
+  it('saves and loads the artifacts as streams', async () => {
+    const artifactKey = {
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: SESSION_ID,
+      filename: 'report.txt',
+    };
+    const encoder = new TextEncoder();
+    const content = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode('hello '));
+        controller.enqueue(encoder.encode('world'));
+        controller.close();
+      },
+    });
+
+    expect(await artifactService.saveArtifactStream(
+               {...artifactKey, content, mimeType: 'text/plain'}))
+        .toBe(0);
+
+    const fullStream = await artifactService.loadArtifactStream(artifactKey);
+    const rangeStream = await artifactService.loadArtifactStream(
+        {...artifactKey, start: 6, end: 100});
+    const emptyStream = await artifactService.loadArtifactStream(
+        {...artifactKey, start: 20});
+    expect(fullStream?.artifactVersion)
+        .toEqual(
+            expect.objectContaining({mimeType: 'text/plain', sizeBytes: 11}));
+    expect(await new Response(fullStream!.content).text()).toBe('hello world');
+    expect(await new Response(rangeStream!.content).text()).toBe('world');
+    expect(await new Response(emptyStream!.content).text()).toBe('');
+    expect(fs.readdirSync(path.join(
+               rootDir, APP_NAME, 'users', USER_ID, 'sessions', SESSION_ID,
+               'artifacts', 'report%2Etxt', 'versions')))
+        .toEqual(['0']);
+  });
+});
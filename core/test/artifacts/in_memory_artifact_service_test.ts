@@ -0,0 +1,121 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {InMemoryArtifactService} from '@google/adk';
+import {Readable} from 'stream';
+
+const APP_NAME = 'test_app';
+const USER_ID = 'test_user';
+const SESSION_ID = 'test_session';
+
+describe('InMemoryArtifactService', () => {
+  let artifactService: InMemoryArtifactService;
+
+  beforeEach(() => {
+    artifactService = new InMemoryArtifactService();
+  });
+
+  it('records the metadata of each version', async () => {
+    const artifactKey = {
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: SESSION_ID,
+      filename: 'report.txt',
+    };
+    await artifactService.saveArtifact({
+      ...artifactKey,
+      artifact: {text: 'héllo'},
+      customMetadata: {author: 'tool'},
+    });
+    await artifactService.saveArtifact({
+      ...artifactKey,
+      artifact: {
+        inlineData: {
+          mimeType: 'application/pdf',
+          data: Buffer.from([1, 2, 3, 4]).toString('base64'),
+        },
+      },
+    });
+
+    expect(await artifactService.listArtifactVersions(artifactKey)).toEqual([
+      {
+        version: 0,
+        createTime: expect.any(Number),
+        mimeType: 'text/plain',
+        sizeBytes: 6,
+        canonicalUri: 'memory://test_app/test_user/test_session/report.txt/0',
+        customMetadata: {author: 'tool'},
+      },
+      {
+        version: 1,
+        createTime: expect.any(Number),
+        mimeType: 'application/pdf',
+        sizeBytes: 4,
+        canonicalUri: 'memory://test_app/test_user/test_session/report.txt/1',
+        customMetadata: undefined,
+      },
+    ]);
+  });
+
+  it('gets the latest or a given version', async () => {
+    const artifactKey = {
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: SESSION_ID,
+      filename: 'user:profile.txt',
+    };
+    await artifactService.saveArtifact(
+        {...artifactKey, artifact: {text: 'first'}});
+    await artifactService.saveArtifact(
+        {...artifactKey, artifact: {text: 'second'}});
+
+    expect(await artifactService.getArtifactVersion(artifactKey))
+        .toEqual(expect.objectContaining({
+          version: 1,
+          canonicalUri: 'memory://test_app/test_user/user/user:profile.txt/1',
+        }));
+    expect(await artifactService.getArtifactVersion(
+               {...artifactKey, version: 0}))
+        .toEqual(expect.objectContaining({version: 0, sizeBytes: 5}));
+    expect(await artifactService.getArtifactVersion(
+               {...artifactKey, version: 2}))
+        .toBeUndefined();
+    expect(await artifactService.listArtifactVersions(
+               {...artifactKey, filename: 'missing.txt'}))
+        .toEqual([]);
+  });
+
+  it('saves and loads the artifacts as streams', async () => {
+    const artifactKey = {
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: SESSION_ID,
+      filename: 'report.csv',
+    };
+
+    const version = await artifactService.saveArtifactStream({
+      ...artifactKey,
+      content: Readable.from([Buffer.from('a,b\n'), Buffer.from('1,2\n')]),
+      mimeType: 'text/csv',
+    });
+    const artifactStream = await artifactService.loadArtifactStream(
+        {...artifactKey, start: 4, end: 7});
+
+    expect(version).toBe(0);
+    expect(await artifactService.loadArtifact(artifactKey)).toEqual({
+      inlineData: {
+        mimeType: 'text/csv',
+        data: Buffer.from('a,b\n1,2\n').toString('base64'),
+      },
+    });
+    expect(artifactStream?.artifactVersion)
+        .toEqual(expect.objectContaining({mimeType: 'text/csv', sizeBytes: 8}));
+    expect(await new Response(artifactStream!.content).text()).toBe('1,2');
+    expect(await artifactService.loadArtifactStream(
+               {...artifactKey, version: 1}))
+        .toBeUndefined();
+  });
+});
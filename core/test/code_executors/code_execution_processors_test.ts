@@ -0,0 +1,178 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {BaseCodeExecutor, BaseLlm, BaseLlmConnection, createEvent, createSession, Event, ExecuteCodeParams, InMemoryArtifactService, InvocationContext, LlmAgent, LlmRequest, LlmResponse, LocalCodeExecutor, PluginManager} from '@google/adk';
+import {createModelContent} from '@google/genai';
+
+class ScriptedLlm extends BaseLlm {
+  readonly requests: LlmRequest[] = [];
+
+  constructor(private readonly responses: LlmResponse[]) {
+    super({model: 'scripted-llm'});
+  }
+
+  async *
+      generateContentAsync(llmRequest: LlmRequest):
+          AsyncGenerator<LlmResponse, void, void> {
+    this.requests.push(llmRequest);
+    yield this.responses[this.requests.length - 1];
+  }
+
+  connect(): Promise<BaseLlmConnection> {
+    throw new Error('Not supported by the scripted llm.');
+  }
+}
+
+class RecordingCodeExecutor extends BaseCodeExecutor {
+  readonly inputs: ExecuteCodeParams[] = [];
+
+  constructor(private readonly stdout: string) {
+    super();
+  }
+
+  async executeCode(params: ExecuteCodeParams) {
+    this.inputs.push(params);
+    return {stdout: this.stdout, stderr: '', outputFiles: []};
+  }
+}
+
+const CSV_DATA = Buffer.from('name,age\nAda,36\n').toString('base64');
+
+function createContext(agent: LlmAgent): InvocationContext {
+  const userContent = {
+    role: 'user',
+    parts: [
+      {text: 'Analyze this file.'},
+      {inlineData: {data: CSV_DATA, mimeType: 'text/csv'}},
+    ],
+  };
+  return new InvocationContext({
+    invocationId: 'inv_123',
+    agent,
+    session: createSession({
+      id: 'session_123',
+      appName: 'test_app',
+      events: [createEvent({
+        invocationId: 'inv_123',
+        author: 'user',
+        content: userContent,
+      })],
+    }),
+    userContent,
+    artifactService: new InMemoryArtifactService(),
+    runConfig: {},
+    pluginManager: new PluginManager(),
+  });
+}
+
+async function runAgent(agent: LlmAgent): Promise<Event[]> {
+  const events: Event[] = [];
+  for await (const event of agent.runAsync(createContext(agent))) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe('CodeExecutionRequestProcessor', () => {
+  it('explores the data files before the model call', async () => {
+    const llm = new ScriptedLlm([{content: createModelContent('Done.')}]);
+    const codeExecutor = new RecordingCodeExecutor('Total rows: 1');
+    codeExecutor.optimizeDataFile = true;
+    const agent = new LlmAgent({name: 'data_agent', model: llm, codeExecutor});
+
+    const events = await runAgent(agent);
+
+    // The data file is handed to the code executor.
+    expect(codeExecutor.inputs.length).toBe(1);
+    const codeExecutionInput = codeExecutor.inputs[0].codeExecutionInput;
+    expect(codeExecutionInput.inputFiles).toEqual([
+      {name: 'data_1_2.csv', content: CSV_DATA, mimeType: 'text/csv'},
+    ]);
+    expect(codeExecutionInput.code)
+        .toContain('data_1_2 = pd.read_csv(\'data_1_2.csv\')');
+    expect(codeExecutionInput.code).toContain('explore_df(data_1_2)');
+
+    // The exploration code and its result are emitted as events.
+    expect(events.length).toBe(3);
+    expect(events[0].content?.parts?.[1].executableCode?.code)
+        .toBe(codeExecutionInput.code);
+    expect(events[1].content?.parts?.[0].codeExecutionResult?.output)
+        .toBe('Code execution result:\nTotal rows: 1\n');
+    expect(events[1].actions.stateDelta['_code_execution_context']).toEqual({
+      processed_input_files: ['data_1_2.csv'],
+    });
+
+    // The model sees a placeholder instead of the inline data, followed by the
+    // exploration code and its result as text.
+    const contents = llm.requests[0].contents;
+    expect(contents[0].parts).toEqual([
+      {text: 'Analyze this file.'},
+      {text: '\nAvailable file: `data_1_2.csv`\n'},
+    ]);
+    expect(contents[1].role).toBe('model');
+    expect(contents[1].parts?.[1].text)
+        .toBe(`\`\`\`tool_code\n${codeExecutionInput.code}\n\`\`\``);
+    expect(contents[2]).toEqual({
+      role: 'user',
+      parts: [{
+        text: '```tool_output\nCode execution result:\nTotal rows: 1\n\n```',
+      }],
+    });
+  });
+
+  it('does not explore the data files when not optimized', async () => {
+    const llm = new ScriptedLlm([{content: createModelContent('Done.')}]);
+    const codeExecutor = new RecordingCodeExecutor('');
+    const agent = new LlmAgent({name: 'data_agent', model: llm, codeExecutor});
+
+    await runAgent(agent);
+
+    expect(codeExecutor.inputs).toEqual([]);
+    expect(llm.requests[0].contents[0].parts?.[1].inlineData?.data)
+        .toBe(CSV_DATA);
+  });
+
+  it('does not explore the data files without Python', async () => {
+    const llm = new ScriptedLlm([{content: createModelContent('Done.')}]);
+    const codeExecutor = new LocalCodeExecutor(
+        {language: 'javascript', optimizeDataFile: true});
+    const agent = new LlmAgent({name: 'data_agent', model: llm, codeExecutor});
+
+    const events = await runAgent(agent);
+
+    expect(events.length).toBe(1);
+    expect(llm.requests[0].contents.length).toBe(1);
+    expect(llm.requests[0].contents[0].parts?.[1].inlineData?.data)
+        .toBe(CSV_DATA);
+  });
+});
+
+describe('CodeExecutionResponseProcessor', () => {
+  it('stops retrying after the maximum consecutive errors', async () => {
+    const codeResponse = '```python\nraise ValueError()\n```';
+    const llm = new ScriptedLlm([
+      {content: createModelContent(codeResponse)},
+      {content: createModelContent(codeResponse)},
+      {content: createModelContent('I could not run the code.')},
+    ]);
+    const codeExecutor = new RecordingCodeExecutor('');
+    codeExecutor.executeCode = async () =>
+        ({stdout: '', stderr: 'ValueError', outputFiles: []});
+    codeExecutor.errorRetryAttempts = 2;
+    const agent = new LlmAgent({name: 'code_agent', model: llm, codeExecutor});
+
+    const events = await runAgent(agent);
+
+    expect(llm.requests.length).toBe(3);
+    expect(events.map((event) => event.content?.parts?.[0])).toEqual([
+      {executableCode: {code: 'raise ValueError()', language: 'PYTHON'}},
+      {codeExecutionResult: {outcome: 'OUTCOME_FAILED', output: 'ValueError'}},
+      {executableCode: {code: 'raise ValueError()', language: 'PYTHON'}},
+      {codeExecutionResult: {outcome: 'OUTCOME_FAILED', output: 'ValueError'}},
+      {text: 'I could not run the code.'},
+    ]);
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {BaseLlm, BaseLlmConnection, createSession, Event, InMemoryArtifactService, InvocationContext, LlmAgent, LlmRequest, LlmResponse, LocalCodeExecutor, PluginManager} from '@google/adk';
+import {createModelContent, createUserContent} from '@google/genai';
+
+class ScriptedLlm extends BaseLlm {
+  readonly requests: LlmRequest[] = [];
+
+  constructor(private readonly responses: LlmResponse[]) {
+    super({model: 'scripted-llm'});
+  }
+
+  async *
+      generateContentAsync(llmRequest: LlmRequest):
+          AsyncGenerator<LlmResponse, void, void> {
+    this.requests.push(llmRequest);
+    yield this.responses[this.requests.length - 1];
+  }
+
+  connect(): Promise<BaseLlmConnection> {
+    throw new Error('Not supported by the scripted llm.');
+  }
+}
+
+function execute(
+    executor: LocalCodeExecutor, code: string, executionId?: string) {
+  return executor.executeCode({
+    invocationContext: {} as InvocationContext,
+    codeExecutionInput: {code, inputFiles: [], executionId},
+  });
+}
+
+describe('LocalCodeExecutor', () => {
+  describe('with Python', () => {
+    it('captures stdout and stderr', async () => {
+      const executor = new LocalCodeExecutor();
+
+      const result = await execute(
+          executor, 'import sys\nprint(1 + 1)\nprint("oops", file=sys.stderr)');
+
+      expect(result).toEqual({
+        stdout: '2\n',
+        stderr: 'oops\n',
+        outputFiles: [],
+      });
+    });
+
+    it('reports exceptions in stderr', async () => {
+      const executor = new LocalCodeExecutor();
+
+      const result = await execute(executor, 'raise ValueError("bad value")');
+
+      expect(result.stderr).toContain('ValueError: bad value');
+    });
+
+    it('keeps the variables between executions when stateful', async () => {
+      const executor = new LocalCodeExecutor({stateful: true});
+
+      await execute(executor, 'x = 41', 'session_1');
+      const result = await execute(executor, 'print(x + 1)', 'session_1');
+      const otherSessionResult =
+          await execute(executor, 'print(x + 1)', 'session_2');
+      await executor.close();
+
+      expect(result.stdout).toBe('42\n');
+      expect(otherSessionResult.stderr).toContain('NameError');
+    });
+
+    it('does not keep the variables when stateless', async () => {
+      const executor = new LocalCodeExecutor();
+
+      await execute(executor, 'x = 41', 'session_1');
+      const result = await execute(executor, 'print(x + 1)', 'session_1');
+
+      expect(result.stderr).toContain('NameError');
+    });
+
+    it('reads the input files and returns the output files', async () => {
+      const executor = new LocalCodeExecutor();
+
+      const result = await executor.executeCode({
+        invocationContext: {} as InvocationContext,
+        codeExecutionInput: {
+          code: 'data = open("input.csv").read()\n' +
+              'open("output.txt", "w").write(data.upper())',
+          inputFiles: [
+            {
+              name: 'input.csv',
+              content: Buffer.from('a,b').toString('base64'),
+              mimeType: 'text/csv',
+            },
+          ],
+        },
+      });
+
+      expect(result.stderr).toBe('');
+      expect(result.outputFiles).toEqual([{
+        name: 'output.txt',
+        content: Buffer.from('A,B').toString('base64'),
+        mimeType: 'text/plain',
+      }]);
+    });
+
+    it('stops the code on timeout', async () => {
+      const executor = new LocalCodeExecutor({timeoutMs: 500});
+
+      const result = await execute(executor, 'while True:\n  pass');
+
+      expect(result.stderr).toBe('Code execution timed out after 500 ms.');
+    });
+
+    it('reports the invalid output of the runtime', async () => {
+      const executor = new LocalCodeExecutor();
+
+      const result =
+          await execute(executor, 'import os\nos.write(3, b"not json\\n")');
+
+      expect(result.stderr)
+          .toBe('Invalid output of the Python runtime: not json');
+    });
+  });
+
+  describe('with JavaScript', () => {
+    it('captures the console output', async () => {
+      const executor = new LocalCodeExecutor({language: 'javascript'});
+
+      const result = await execute(
+          executor, 'console.log("sum:", 1 + 1);\nconsole.error({a: 1});');
+
+      expect(result).toEqual({
+        stdout: 'sum: 2\n',
+        stderr: '{ a: 1 }\n',
+        outputFiles: [],
+      });
+    });
+
+    it('awaits the promises returned by the code', async () => {
+      const executor = new LocalCodeExecutor({language: 'javascript'});
+
+      const result = await execute(
+          executor,
+          '(async () => {\n' +
+              '  await new Promise((resolve) => setTimeout(resolve, 10));\n' +
+              '  console.log("done");\n' +
+              '})();');
+
+      expect(result.stdout).toBe('done\n');
+    });
+
+    it('keeps the variables between executions when stateful', async () => {
+      const executor =
+          new LocalCodeExecutor({language: 'javascript', stateful: true});
+
+      await execute(executor, 'var x = 41;', 'session_1');
+      const result =
+          await execute(executor, 'console.log(x + 1);', 'session_1');
+      await executor.close();
+
+      expect(result.stdout).toBe('42\n');
+    });
+
+    it('returns the written files and denies access outside', async () => {
+      const executor = new LocalCodeExecutor({language: 'javascript'});
+
+      const result = await execute(
+          executor,
+          'writeFile("result.json", JSON.stringify({ok: true}));\n' +
+              'readFile("../outside.txt");');
+
+      expect(result.stderr).toContain('Access denied: ../outside.txt');
+      expect(result.outputFiles).toEqual([{
+        name: 'result.json',
+        content: Buffer.from('{"ok":true}').toString('base64'),
+        mimeType: 'application/json',
+      }]);
+    });
+
+    it('stops the code on timeout', async () => {
+      const executor =
+          new LocalCodeExecutor({language: 'javascript', timeoutMs: 500});
+
+      const result = await execute(executor, 'while (true) {}');
+
+      expect(result.stderr).toBe('Code execution timed out after 500 ms.');
+    });
+
+    it('runs the code outside of the agent process', async () => {
+      const executor = new LocalCodeExecutor({language: 'javascript'});
+
+      const result = await execute(
+          executor,
+          'console.log(setTimeout.constructor("return process")().pid);');
+
+      expect(result.stderr).toBe('');
+      expect(result.stdout).not.toBe(`${process.pid}\n`);
+    });
+
+    it('uses the JavaScript code block delimiters', () => {
+      const executor = new LocalCodeExecutor({language: 'javascript'});
+
+      expect(executor.codeBlockDelimiters).toContainEqual(
+          ['```javascript\n', '\n```']);
+    });
+  });
+
+  it('runs the code blocks of the model responses in LlmAgent', async () => {
+    const llm = new ScriptedLlm([
+      {
+        content: createModelContent(
+            'Let me compute.\n```python\nprint(6 * 7)\n```'),
+      },
+      {content: createModelContent('The answer is 42.')},
+    ]);
+    const agent = new LlmAgent({
+      name: 'code_agent',
+      model: llm,
+      codeExecutor: new LocalCodeExecutor(),
+    });
+    const context = new InvocationContext({
+      invocationId: 'inv_123',
+      agent,
+      session: createSession({id: 'session_123', appName: 'test_app'}),
+      userContent: createUserContent('What is 6 times 7?'),
+      artifactService: new InMemoryArtifactService(),
+      runConfig: {},
+      pluginManager: new PluginManager(),
+    });
+
+    const events: Event[] = [];
+    for await (const event of agent.runAsync(context)) {
+      events.push(event);
+    }
+
+    expect(events.length).toBe(3);
+    expect(events[0].content?.parts?.[1].executableCode?.code)
+        .toBe('print(6 * 7)');
+    expect(events[1].content?.parts?.[0].codeExecutionResult?.output)
+        .toBe('Code execution result:\n42\n\n');
+    expect(events[2].content?.parts?.[0].text).toBe('The answer is 42.');
+  });
+});
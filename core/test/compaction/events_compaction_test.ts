@@ -0,0 +1,152 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {BaseLlm, BaseLlmConnection, createEvent, InMemorySessionService, LlmAgent, LlmEventsSummarizer, LlmRequest, LlmResponse, Runner} from '@google/adk';
+
+const APP_NAME = 'test_app';
+const USER_ID = 'test_user';
+const SESSION_ID = 'test_session';
+
+/**
+ * Answers the agent requests, and summarizes the conversation of the
+ * summarization requests.
+ */
+class FakeLlm extends BaseLlm {
+  readonly agentRequests: LlmRequest[] = [];
+  readonly summaryRequests: LlmRequest[] = [];
+
+  constructor() {
+    super({model: 'fake-llm'});
+  }
+
+  async *
+      generateContentAsync(llmRequest: LlmRequest):
+          AsyncGenerator<LlmResponse, void, void> {
+    const text = llmRequest.contents[0].parts?.[0].text ?? '';
+    if (text.startsWith('The following is a conversation history')) {
+      this.summaryRequests.push(llmRequest);
+      yield {
+        content: {
+          role: 'model',
+          parts: [{text: `summary ${this.summaryRequests.length}`}],
+        },
+      };
+      return;
+    }
+
+    this.agentRequests.push(llmRequest);
+    yield {content: {role: 'model', parts: [{text: 'answer'}]}};
+  }
+
+  connect(): Promise<BaseLlmConnection> {
+    throw new Error('Not supported by the fake llm.');
+  }
+}
+
+describe('LlmEventsSummarizer', () => {
+  it('summarizes the text of the events into a compaction', async () => {
+    const llm = new FakeLlm();
+    const summarizer = new LlmEventsSummarizer({llm});
+    const events = [
+      createEvent({
+        author: 'user',
+        timestamp: 10,
+        content: {role: 'user', parts: [{text: 'hello'}]},
+      }),
+      createEvent({
+        author: 'agent',
+        timestamp: 20,
+        content: {role: 'model', parts: [{text: 'hi'}]},
+      }),
+    ];
+
+    const compactionEvent = await summarizer.maybeSummarizeEvents(events);
+
+    expect(llm.summaryRequests[0].contents[0].parts![0].text)
+        .toContain('user: hello\nagent: hi');
+    expect(compactionEvent!.actions.compaction).toEqual({
+      startTimestamp: 10,
+      endTimestamp: 20,
+      compactedContent: {role: 'model', parts: [{text: 'summary 1'}]},
+    });
+  });
+
+  it('does not summarize events without text', async () => {
+    const llm = new FakeLlm();
+    const summarizer = new LlmEventsSummarizer({llm});
+
+    const compactionEvent =
+        await summarizer.maybeSummarizeEvents([createEvent({author: 'user'})]);
+
+    expect(compactionEvent).toBeUndefined();
+    expect(llm.summaryRequests).toEqual([]);
+  });
+});
+
+describe('Runner events compaction', () => {
+  it('compacts the events with a sliding window', async () => {
+    const llm = new FakeLlm();
+    const sessionService = new InMemorySessionService();
+    await sessionService.createSession(
+        {appName: APP_NAME, userId: USER_ID, sessionId: SESSION_ID});
+    const runner = new Runner({
+      appName: APP_NAME,
+      agent: new LlmAgent({name: 'agent', model: llm}),
+      sessionService,
+      eventsCompactionConfig: {compactionInterval: 2, overlapSize: 1},
+    });
+    const getCompactions = async () => {
+      const session = await sessionService.getSession(
+          {appName: APP_NAME, userId: USER_ID, sessionId: SESSION_ID});
+      return session!.events.filter((event) => event.actions?.compaction)
+          .map((event) => event.actions.compaction!);
+    };
+    const getEvents = async () => {
+      const session = await sessionService.getSession(
+          {appName: APP_NAME, userId: USER_ID, sessionId: SESSION_ID});
+      return session!.events;
+    };
+
+    for (let i = 1; i <= 5; i++) {
+      for await (const event of runner.runAsync({
+        userId: USER_ID,
+        sessionId: SESSION_ID,
+        newMessage: {role: 'user', parts: [{text: `question ${i}`}]},
+      })) {
+        expect(event.author).toBe('agent');
+      }
+
+      if (i === 2) {
+        const events = await getEvents();
+        expect(await getCompactions()).toEqual([{
+          startTimestamp: events[0].timestamp,
+          endTimestamp: events[3].timestamp,
+          compactedContent: {role: 'model', parts: [{text: 'summary 1'}]},
+        }]);
+      }
+      if (i === 3) {
+        expect((await getCompactions()).length).toBe(1);
+      }
+    }
+
+    const compactions = await getCompactions();
+    expect(compactions.length).toBe(2);
+    expect(llm.summaryRequests[1].contents[0].parts![0].text)
+        .toContain(
+            'user: question 2\nagent: answer\nuser: question 3\nagent: answer\nuser: question 4\nagent: answer');
+    expect(llm.summaryRequests[1].contents[0].parts![0].text)
+        .not.toContain('question 1');
+
+    const lastRequestTexts =
+        llm.agentRequests[4].contents.map((content) => content.parts?.map(
+            (part) => part.text).join(' '));
+    expect(lastRequestTexts).toEqual([
+      'For context: [model] said: summary 1',
+      'For context: [model] said: summary 2',
+      'question 5',
+    ]);
+  });
+});
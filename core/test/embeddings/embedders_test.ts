@@ -0,0 +1,90 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {BaseEmbedder, cosineSimilarity, EmbedderRegistry, HashingEmbedder} from '@google/adk';
+
+class ConstantEmbedder extends BaseEmbedder {
+  static override readonly supportedModels = [/constant-.*/];
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(() => [1, 0]);
+  }
+}
+
+describe('HashingEmbedder', () => {
+  it('embeds texts deterministically', async () => {
+    const embedder = new HashingEmbedder();
+
+    const [first, second] =
+        await embedder.embed(['The weather in Paris', 'the WEATHER in paris!']);
+
+    expect(first.length).toBe(256);
+    expect(first).toEqual(second);
+    expect(cosineSimilarity(first, second)).toBeCloseTo(1);
+  });
+
+  it('scores related texts higher than unrelated ones', async () => {
+    const embedder = new HashingEmbedder({model: 'local-hashing-1024'});
+
+    const [query, related, unrelated] = await embedder.embed([
+      'weather forecast for Paris',
+      'what is the weather in Paris',
+      'book a table at a restaurant',
+    ]);
+
+    expect(query.length).toBe(1024);
+    expect(cosineSimilarity(query, related))
+        .toBeGreaterThan(cosineSimilarity(query, unrelated));
+  });
+
+  it('matches the words of texts without word separators', async () => {
+    const embedder = new HashingEmbedder({model: 'local-hashing-1024'});
+
+    const [query, related, unrelated] = await embedder.embed([
+      '天气',
+      '明天北京的天气怎么样？',
+      '帮我预订一家意大利餐厅。',
+    ]);
+
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(0);
+    expect(cosineSimilarity(query, related))
+        .toBeGreaterThan(cosineSimilarity(query, unrelated));
+  });
+
+  it('returns a zero vector for texts without words', async () => {
+    const [embedding] = await new HashingEmbedder().embed(['?!']);
+
+    expect(embedding.every((value) => value === 0)).toBe(true);
+  });
+
+  it('throws for unsupported model names', () => {
+    expect(() => new HashingEmbedder({model: 'other-model'}))
+        .toThrow('Unsupported hashing embedder model: other-model');
+  });
+});
+
+describe('EmbedderRegistry', () => {
+  it('resolves the local hashing embedder by default', () => {
+    const embedder = EmbedderRegistry.newEmbedder('local-hashing-64');
+
+    expect(embedder).toBeInstanceOf(HashingEmbedder);
+    expect((embedder as HashingEmbedder).dimensions).toBe(64);
+  });
+
+  it('resolves registered embedders', () => {
+    EmbedderRegistry.register(ConstantEmbedder);
+
+    const embedder = EmbedderRegistry.newEmbedder('constant-v1');
+
+    expect(embedder).toBeInstanceOf(ConstantEmbedder);
+    expect(embedder.model).toBe('constant-v1');
+  });
+
+  it('throws for unknown models', () => {
+    expect(() => EmbedderRegistry.newEmbedder('unknown-model'))
+        .toThrow('Embedding model unknown-model not found.');
+  });
+});
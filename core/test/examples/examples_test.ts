@@ -0,0 +1,115 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {BaseExampleProvider, BaseLlm, BaseLlmConnection, convertExamplesToText, createSession, Event, Example, InvocationContext, LlmAgent, LlmRequest, LlmResponse, PluginManager} from '@google/adk';
+import {createModelContent, createUserContent} from '@google/genai';
+
+class RecordingLlm extends BaseLlm {
+  readonly requests: LlmRequest[] = [];
+
+  constructor() {
+    super({model: 'gemini-2.0-flash'});
+  }
+
+  async *
+      generateContentAsync(llmRequest: LlmRequest):
+          AsyncGenerator<LlmResponse, void, void> {
+    this.requests.push(llmRequest);
+    yield {content: createModelContent('Done.')};
+  }
+
+  connect(): Promise<BaseLlmConnection> {
+    throw new Error('Not supported by the recording llm.');
+  }
+}
+
+class RecordingExampleProvider extends BaseExampleProvider {
+  readonly queries: string[] = [];
+
+  getExamples(query: string): Example[] {
+    this.queries.push(query);
+    return [WEATHER_EXAMPLE];
+  }
+}
+
+const WEATHER_EXAMPLE: Example = {
+  input: createUserContent('What is the weather in Paris?'),
+  output: [
+    {
+      role: 'model',
+      parts: [{functionCall: {name: 'get_weather', args: {city: 'Paris'}}}],
+    },
+    {
+      role: 'user',
+      parts: [{
+        functionResponse: {name: 'get_weather', response: {weather: 'sunny'}},
+      }],
+    },
+    createModelContent('It is sunny in Paris.'),
+  ],
+};
+
+async function runAgent(agent: LlmAgent): Promise<Event[]> {
+  const context = new InvocationContext({
+    invocationId: 'inv_123',
+    agent,
+    session: createSession({id: 'session_123', appName: 'test_app'}),
+    userContent: createUserContent('How is the weather in Rome?'),
+    runConfig: {},
+    pluginManager: new PluginManager(),
+  });
+  const events: Event[] = [];
+  for await (const event of agent.runAsync(context)) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe('convertExamplesToText', () => {
+  it('formats the examples for the system instruction', () => {
+    const text = convertExamplesToText([WEATHER_EXAMPLE], 'gemini-2.0-flash');
+
+    expect(text).toBe(
+        '<EXAMPLES>\nBegin few-shot\nThe following are examples of user ' +
+        'queries and model responses using the available tools.\n\n' +
+        'EXAMPLE 1:\nBegin example\n[user]\nWhat is the weather in Paris?\n' +
+        '[model]\n```\nget_weather(city=\'Paris\')\n```\n' +
+        '[user]\n```\n{"name":"get_weather","response":{"weather":"sunny"}}' +
+        '\n```\n[model]\nIt is sunny in Paris.\nEnd example\n\n' +
+        'End few-shot\n<EXAMPLES>');
+  });
+});
+
+describe('LlmAgent examples', () => {
+  it('appends static examples to the system instruction', async () => {
+    const llm = new RecordingLlm();
+    const agent = new LlmAgent({
+      name: 'examples_agent',
+      model: llm,
+      instruction: 'You are a weather agent.',
+      examples: [WEATHER_EXAMPLE],
+    });
+
+    await runAgent(agent);
+
+    expect(llm.requests[0].config?.systemInstruction)
+        .toContain(`You are a weather agent.\n\n${
+            convertExamplesToText([WEATHER_EXAMPLE], 'gemini-2.0-flash')}`);
+  });
+
+  it('looks up the provider examples with the user query', async () => {
+    const llm = new RecordingLlm();
+    const provider = new RecordingExampleProvider();
+    const agent =
+        new LlmAgent({name: 'examples_agent', model: llm, examples: provider});
+
+    await runAgent(agent);
+
+    expect(provider.queries).toEqual(['How is the weather in Rome?']);
+    expect(llm.requests[0].config?.systemInstruction)
+        .toContain('EXAMPLE 1:\nBegin example');
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {BaseEmbedder, Example, VectorExampleProvider} from '@google/adk';
+import {createModelContent, createUserContent} from '@google/genai';
+
+class CountingEmbedder extends BaseEmbedder {
+  embeddedTexts: string[] = [];
+  failureCount = 0;
+
+  constructor() {
+    super({model: 'counting'});
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (this.failureCount > 0) {
+      this.failureCount--;
+      throw new Error('Embedding failed.');
+    }
+    this.embeddedTexts.push(...texts);
+    return texts.map((text) => [text.length, 1]);
+  }
+}
+
+function createExample(input: string, output: string): Example {
+  return {
+    input: createUserContent(input),
+    output: [createModelContent(output)],
+  };
+}
+
+const WEATHER_EXAMPLE =
+    createExample('What is the weather in Paris?', 'It is sunny.');
+const TIME_EXAMPLE = createExample('What time is it in Tokyo?', 'It is noon.');
+const BOOKING_EXAMPLE =
+    createExample('Book a table for two tonight.', 'Booked.');
+
+describe('VectorExampleProvider', () => {
+  it('returns the examples most similar to the query', async () => {
+    const provider = new VectorExampleProvider({
+      examples: [BOOKING_EXAMPLE, TIME_EXAMPLE, WEATHER_EXAMPLE],
+      topK: 2,
+    });
+
+    const examples =
+        await provider.getExamples('How is the weather in Paris today?');
+
+    expect(examples.length).toBe(2);
+    expect(examples[0]).toBe(WEATHER_EXAMPLE);
+  });
+
+  it('embeds the examples once, on the first lookup', async () => {
+    const embedder = new CountingEmbedder();
+    const provider =
+        new VectorExampleProvider({examples: [WEATHER_EXAMPLE], embedder});
+
+    expect(embedder.embeddedTexts).toEqual([]);
+
+    await provider.getExamples('first query');
+    provider.addExamples([TIME_EXAMPLE]);
+    await provider.getExamples('second query');
+
+    expect(embedder.embeddedTexts).toEqual([
+      'What is the weather in Paris?',
+      'first query',
+      'What time is it in Tokyo?',
+      'second query',
+    ]);
+  });
+
+  it('embeds the examples once for concurrent lookups', async () => {
+    const embedder = new CountingEmbedder();
+    const provider =
+        new VectorExampleProvider({examples: [WEATHER_EXAMPLE], embedder});
+
+    await Promise.all([
+      provider.getExamples('first query'),
+      provider.getExamples('second query'),
+    ]);
+
+    expect(embedder.embeddedTexts.filter(
+               (text) => text === 'What is the weather in Paris?'))
+        .toEqual(['What is the weather in Paris?']);
+  });
+
+  it('keeps the examples pending when the embedding fails', async () => {
+    const embedder = new CountingEmbedder();
+    embedder.failureCount = 1;
+    const provider =
+        new VectorExampleProvider({examples: [WEATHER_EXAMPLE], embedder});
+
+    await expect(provider.getExamples('query'))
+        .rejects.toThrow('Embedding failed.');
+
+    expect(await provider.getExamples('query')).toEqual([WEATHER_EXAMPLE]);
+  });
+
+  it('returns no examples when empty', async () => {
+    const embedder = new CountingEmbedder();
+    const provider = new VectorExampleProvider({embedder});
+
+    expect(await provider.getExamples('query')).toEqual([]);
+    expect(embedder.embeddedTexts).toEqual([]);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {BaseEmbedder, createEvent, createSession, Session, VectorMemoryService} from '@google/adk';
+
+const APP_NAME = 'test_app';
+const USER_ID = 'test_user';
+
+class CountingEmbedder extends BaseEmbedder {
+  readonly embeddedTexts: string[] = [];
+
+  constructor() {
+    super({model: 'counting'});
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    this.embeddedTexts.push(...texts);
+    return texts.map((text) => [text.includes('weather') ? 1 : 0, 1]);
+  }
+}
+
+function createTestSession(id: string, texts: string[]): Session {
+  return createSession({
+    id,
+    appName: APP_NAME,
+    userId: USER_ID,
+    events: texts.map((text, i) => createEvent({
+                        id: `${id}_event_${i}`,
+                        author: i % 2 ? 'agent' : 'user',
+                        content: {
+                          role: i % 2 ? 'model' : 'user',
+                          parts: [{text}],
+                        },
+                        timestamp: 1000 * (i + 1),
+                      })),
+  });
+}
+
+describe('VectorMemoryService', () => {
+  it('returns the most similar memories with their sources', async () => {
+    const memoryService = new VectorMemoryService();
+    await memoryService.addSessionToMemory(createTestSession('session_1', [
+      'What is the weather forecast for Paris tomorrow?',
+      'Tomorrow in Paris will be sunny and warm.',
+      'Book me a table at an Italian restaurant.',
+    ]));
+
+    const {memories} = await memoryService.searchMemory({
+      appName: APP_NAME,
+      userId: USER_ID,
+      query: 'weather forecast in Paris',
+      topK: 2,
+    });
+
+    expect(memories.length).toBe(2);
+    expect(memories[0]).toEqual({
+      content: {
+        role: 'user',
+        parts: [{text: 'What is the weather forecast for Paris tomorrow?'}],
+      },
+      author: 'user',
+      timestamp: new Date(1000).toISOString(),
+      sessionId: 'session_1',
+      eventId: 'session_1_event_0',
+      score: expect.any(Number),
+    });
+    expect(memories[0].score).toBeGreaterThan(memories[1].score!);
+  });
+
+  it('matches non-English text', async () => {
+    const memoryService = new VectorMemoryService();
+    await memoryService.addSessionToMemory(createTestSession('session_1', [
+      'Ich möchte morgen nach München fahren.',
+      'Il pleut à Paris aujourd’hui.',
+    ]));
+
+    const {memories} = await memoryService.searchMemory({
+      appName: APP_NAME,
+      userId: USER_ID,
+      query: 'München',
+    });
+
+    expect(memories.map((memory) => memory.eventId)).toEqual([
+      'session_1_event_0',
+    ]);
+  });
+
+  it('isolates the memories of each user', async () => {
+    const memoryService = new VectorMemoryService();
+    await memoryService.addSessionToMemory(
+        createTestSession('session_1', ['The weather is nice.']));
+
+    const {memories} = await memoryService.searchMemory({
+      appName: APP_NAME,
+      userId: 'other_user',
+      query: 'weather',
+    });
+
+    expect(memories).toEqual([]);
+  });
+
+  it('does not mix up the users of apps with a slash in their name',
+     async () => {
+       const memoryService = new VectorMemoryService();
+       await memoryService.addSessionToMemory(createSession({
+         id: 'session_1',
+         appName: 'app/a',
+         userId: 'b',
+         events: [createEvent({
+           author: 'user',
+           content: {role: 'user', parts: [{text: 'The weather is nice.'}]},
+         })],
+       }));
+
+       const {memories} = await memoryService.searchMemory({
+         appName: 'app',
+         userId: 'a/b',
+         query: 'weather',
+       });
+
+       expect(memories).toEqual([]);
+     });
+
+  it('embeds only the new chunks of a session added again', async () => {
+    const embedder = new CountingEmbedder();
+    const memoryService = new VectorMemoryService({embedder});
+    const longText = 'weather '.repeat(5).trim();
+
+    await memoryService.addSessionToMemory(
+        createTestSession('session_1', ['hello']));
+    await memoryService.addSessionToMemory(
+        createTestSession('session_1', ['hello', longText]));
+    await new VectorMemoryService({embedder, maxChunkLength: 16})
+        .addSessionToMemory(createTestSession('session_2', [longText]));
+
+    expect(embedder.embeddedTexts).toEqual([
+      'hello',
+      longText,
+      'weather weather',
+      'weather weather',
+      'weather',
+    ]);
+    const {memories} = await memoryService.searchMemory({
+      appName: APP_NAME,
+      userId: USER_ID,
+      query: 'weather',
+    });
+    expect(memories.map((memory) => memory.eventId)).toEqual([
+      'session_1_event_1',
+      'session_1_event_0',
+    ]);
+  });
+});
@@ -10,6 +10,10 @@ class TestLlmConnection implements BaseLlmConnection {
 
   async sendRealtime(blob: Blob): Promise<void> {}
 
+  async sendActivityStart(): Promise<void> {}
+
+  async sendActivityEnd(): Promise<void> {}
+
   async * receive(): AsyncGenerator<LlmResponse, void, void> {}
 
   async close(): Promise<void> {}
@@ -0,0 +1,179 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {BaseLlm, BaseLlmConnection, BuiltInPlanner, CallbackContext, createEvent, createSession, Event, InvocationContext, LlmAgent, LlmRequest, LlmResponse, PlanReActPlanner, PluginManager} from '@google/adk';
+import {createUserContent, Part} from '@google/genai';
+
+class RecordingLlm extends BaseLlm {
+  readonly requests: LlmRequest[] = [];
+
+  constructor(private readonly response: LlmResponse) {
+    super({model: 'recording-llm'});
+  }
+
+  async *
+      generateContentAsync(llmRequest: LlmRequest):
+          AsyncGenerator<LlmResponse, void, void> {
+    this.requests.push(llmRequest);
+    yield this.response;
+  }
+
+  connect(): Promise<BaseLlmConnection> {
+    throw new Error('Not supported by the recording llm.');
+  }
+}
+
+function createContext(agent: LlmAgent): InvocationContext {
+  const userEvent = createEvent({
+    invocationId: 'inv_123',
+    author: 'user',
+    content: createUserContent('What is the weather?'),
+  });
+  const previousModelEvent = createEvent({
+    invocationId: 'inv_000',
+    author: agent.name,
+    content: {
+      role: 'model',
+      parts: [{text: '/*PLANNING*/ Old plan', thought: true}],
+    },
+  });
+  return new InvocationContext({
+    invocationId: 'inv_123',
+    agent,
+    session: createSession({
+      id: 'session_123',
+      appName: 'test_app',
+      events: [previousModelEvent, userEvent],
+    }),
+    runConfig: {},
+    pluginManager: new PluginManager(),
+  });
+}
+
+async function runAgent(agent: LlmAgent): Promise<Event[]> {
+  const events: Event[] = [];
+  for await (const event of agent.runAsync(createContext(agent))) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe('PlanReActPlanner', () => {
+  const planner = new PlanReActPlanner();
+  const callbackContext = {} as CallbackContext;
+
+  it('builds the planning instruction', () => {
+    const instruction =
+        planner.buildPlanningInstruction({} as never, {} as LlmRequest);
+
+    expect(instruction).toContain('/*PLANNING*/');
+    expect(instruction).toContain('/*REPLANNING*/');
+    expect(instruction).toContain('/*FINAL_ANSWER*/');
+  });
+
+  it('marks the planning and reasoning parts as thought', () => {
+    const parts = planner.processPlanningResponse(callbackContext, [
+      {text: '/*PLANNING*/ 1. Get the weather.'},
+      {text: '/*REASONING*/ The weather is sunny.'},
+      {text: 'Plain text.'},
+    ]);
+
+    expect(parts).toEqual([
+      {text: '/*PLANNING*/ 1. Get the weather.', thought: true},
+      {text: '/*REASONING*/ The weather is sunny.', thought: true},
+      {text: 'Plain text.'},
+    ]);
+  });
+
+  it('splits the text at the last final answer tag', () => {
+    const parts = planner.processPlanningResponse(callbackContext, [
+      {text: '/*REASONING*/ Done. /*FINAL_ANSWER*/ It is sunny.'},
+    ]);
+
+    expect(parts).toEqual([
+      {text: '/*REASONING*/ Done. /*FINAL_ANSWER*/', thought: true},
+      {text: ' It is sunny.'},
+    ]);
+  });
+
+  it('keeps only the first group of function calls', () => {
+    const responseParts: Part[] = [
+      {text: '/*ACTION*/'},
+      {functionCall: {name: ''}},
+      {functionCall: {name: 'get_weather'}},
+      {functionCall: {name: 'get_time'}},
+      {text: 'Ignored text.'},
+      {functionCall: {name: 'ignored_call'}},
+    ];
+
+    const parts = planner.processPlanningResponse(
+        callbackContext, responseParts);
+
+    expect(parts).toEqual([
+      {text: '/*ACTION*/', thought: true},
+      {functionCall: {name: 'get_weather'}},
+      {functionCall: {name: 'get_time'}},
+    ]);
+    // The original parts are left untouched.
+    expect(responseParts[0].thought).toBeUndefined();
+  });
+
+  it('returns undefined for empty responses', () => {
+    expect(planner.processPlanningResponse(callbackContext, []))
+        .toBeUndefined();
+  });
+});
+
+describe('LlmAgent with a planner', () => {
+  it('applies the thinking config of the built-in planner', async () => {
+    const llm = new RecordingLlm(
+        {content: {role: 'model', parts: [{text: 'Sunny.'}]}});
+    const agent = new LlmAgent({
+      name: 'planner_agent',
+      model: llm,
+      generateContentConfig: {thinkingConfig: {thinkingBudget: 10}},
+      planner: new BuiltInPlanner({
+        thinkingConfig: {includeThoughts: true, thinkingBudget: 1024},
+      }),
+    });
+
+    const events = await runAgent(agent);
+
+    expect(llm.requests[0].config?.thinkingConfig).toEqual({
+      includeThoughts: true,
+      thinkingBudget: 1024,
+    });
+    expect(events[0].content?.parts).toEqual([{text: 'Sunny.'}]);
+  });
+
+  it('injects the planning instruction and processes the response',
+     async () => {
+       const llm = new RecordingLlm({
+         content: {
+           role: 'model',
+           parts: [{text: '/*PLANNING*/ Check. /*FINAL_ANSWER*/ Sunny.'}],
+         },
+       });
+       const agent = new LlmAgent({
+         name: 'planner_agent',
+         model: llm,
+         planner: new PlanReActPlanner(),
+       });
+
+       const events = await runAgent(agent);
+
+       const request = llm.requests[0];
+       expect(request.config?.systemInstruction).toContain('/*PLANNING*/');
+       expect(request.contents[0].parts).toEqual([
+         {text: '/*PLANNING*/ Old plan'},
+       ]);
+       expect(events.length).toBe(1);
+       expect(events[0].content?.parts).toEqual([
+         {text: '/*PLANNING*/ Check. /*FINAL_ANSWER*/', thought: true},
+         {text: ' Sunny.'},
+       ]);
+     });
+});
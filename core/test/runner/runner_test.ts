@@ -4,8 +4,8 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import {BaseAgent, BasePlugin, createEvent, createSession, Event, InMemoryArtifactService, InMemorySessionService, InvocationContext, LlmAgent, Runner} from '@google/adk';
-import {Content, FunctionCall, FunctionResponse, Part} from '@google/genai';
+import {BaseAgent, BaseCodeExecutor, BasePlugin, BuiltInCodeExecutor, createEvent, createSession, Event, InMemoryArtifactService, InMemorySessionService, InvocationContext, LiveRequestQueue, LlmAgent, LlmAgentConfig, ReadonlyContext, Runner, StaleSessionError, StreamingMode} from '@google/adk';
+import {Content, FunctionCall, FunctionResponse, Modality, Part} from '@google/genai';
 
 const TEST_APP_ID = 'test_app_id';
 const TEST_USER_ID = 'test_user_id';
@@ -60,6 +60,27 @@ class MockLlmAgent extends LlmAgent {
   }
 }
 
+class MockLiveAgent extends BaseAgent {
+  liveContext?: InvocationContext;
+
+  constructor(name: string, private readonly liveEvents: Event[]) {
+    super({name});
+  }
+
+  protected override runAsyncImpl(): AsyncGenerator<Event, void, void> {
+    throw new Error('Not implemented');
+  }
+
+  protected override async *
+      runLiveImpl(context: InvocationContext):
+          AsyncGenerator<Event, void, void> {
+    this.liveContext = context;
+    for (const event of this.liveEvents) {
+      yield {...event, invocationId: context.invocationId};
+    }
+  }
+}
+
 class MockPlugin extends BasePlugin {
   static ON_USER_CALLBACK_MSG =
       'Modified user message ON_USER_CALLBACK_MSG from MockPlugin';
@@ -447,3 +468,325 @@ describe('Runner with plugins', () => {
     expect(plugin.afterRunCallbackCalled).toBe(true);
   });
 });
+
+class MockCodeExecutor extends BaseCodeExecutor {
+  async executeCode() {
+    return {stdout: '', stderr: '', outputFiles: []};
+  }
+}
+
+/** Records the code executor it resolves, then transfers to its sub-agent. */
+class CodeExecutorRecordingAgent extends LlmAgent {
+  resolvedCodeExecutor?: BaseCodeExecutor;
+
+  constructor(config: Omit<LlmAgentConfig, 'model'>) {
+    super({model: 'gemini-2.5-flash', ...config});
+  }
+
+  protected override async *
+      runAsyncImpl(context: InvocationContext):
+          AsyncGenerator<Event, void, void> {
+    this.resolvedCodeExecutor =
+        this.canonicalCodeExecutor(new ReadonlyContext(context));
+    for (const subAgent of this.subAgents) {
+      for await (const event of subAgent.runAsync(context)) {
+        yield event;
+      }
+    }
+  }
+}
+
+describe('Runner code executor', () => {
+  async function runAgent(agent: BaseAgent, codeExecutor?: BaseCodeExecutor) {
+    const sessionService = new InMemorySessionService();
+    await sessionService.createSession({
+      appName: TEST_APP_ID,
+      userId: TEST_USER_ID,
+      sessionId: TEST_SESSION_ID,
+    });
+    const runner =
+        new Runner({appName: TEST_APP_ID, agent, sessionService, codeExecutor});
+    for await (const event of runner.runAsync({
+      userId: TEST_USER_ID,
+      sessionId: TEST_SESSION_ID,
+      newMessage: {role: 'user', parts: [{text: TEST_MESSAGE}]},
+    })) {
+      expect(event).toBeDefined();
+    }
+  }
+
+  it('keeps the code executors of the agents', async () => {
+    const codeExecutor = new MockCodeExecutor();
+    const agent = new CodeExecutorRecordingAgent({name: 'root', codeExecutor});
+
+    await runAgent(agent);
+
+    expect(agent.codeExecutor).toBe(codeExecutor);
+    expect(agent.resolvedCodeExecutor).toBe(codeExecutor);
+  });
+
+  it('uses the default code executor of the runner in the tree', async () => {
+    const defaultCodeExecutor = new MockCodeExecutor();
+    const ownCodeExecutor = new MockCodeExecutor();
+    const subAgent = new CodeExecutorRecordingAgent({
+      name: 'sub_agent',
+      codeExecutor: ownCodeExecutor,
+    });
+    const optedOutAgent = new CodeExecutorRecordingAgent({
+      name: 'opted_out_agent',
+      disallowCodeExecution: true,
+    });
+    const agent = new CodeExecutorRecordingAgent({
+      name: 'root',
+      subAgents: [subAgent, optedOutAgent],
+    });
+
+    await runAgent(agent, defaultCodeExecutor);
+
+    expect(agent.codeExecutor).toBeUndefined();
+    expect(agent.resolvedCodeExecutor).toBe(defaultCodeExecutor);
+    expect(subAgent.resolvedCodeExecutor).toBe(ownCodeExecutor);
+    expect(optedOutAgent.resolvedCodeExecutor).toBeUndefined();
+  });
+
+  it('does not set a code executor by default', async () => {
+    const agent = new CodeExecutorRecordingAgent({name: 'root'});
+
+    await runAgent(agent);
+
+    expect(agent.resolvedCodeExecutor).toBeUndefined();
+  });
+
+  it('throws when an agent both sets and disallows code execution', () => {
+    expect(() => new LlmAgent({
+             name: 'agent',
+             codeExecutor: new BuiltInCodeExecutor(),
+             disallowCodeExecution: true,
+           }))
+        .toThrow(
+            'Invalid config for agent agent: codeExecutor cannot be set when disallowCodeExecution is true.');
+  });
+});
+
+class SlowAgent extends MockAgent {
+  protected override async *
+      runAsyncImpl(context: InvocationContext):
+          AsyncGenerator<Event, void, void> {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    yield* super.runAsyncImpl(context);
+  }
+}
+
+describe('Runner session locks', () => {
+  async function runConcurrently(lockSessions: boolean) {
+    const sessionService = new InMemorySessionService();
+    await sessionService.createSession({
+      appName: TEST_APP_ID,
+      userId: TEST_USER_ID,
+      sessionId: TEST_SESSION_ID,
+    });
+    const runner = new Runner({
+      appName: TEST_APP_ID,
+      agent: new SlowAgent('slow_agent'),
+      sessionService,
+      lockSessions,
+    });
+    const run = async (text: string) => {
+      const events: Event[] = [];
+      for await (const event of runner.runAsync({
+        userId: TEST_USER_ID,
+        sessionId: TEST_SESSION_ID,
+        newMessage: {role: 'user', parts: [{text}]},
+      })) {
+        events.push(event);
+      }
+      return events;
+    };
+
+    const results =
+        await Promise.allSettled([run('first message'), run('second message')]);
+    const session = await sessionService.getSession({
+      appName: TEST_APP_ID,
+      userId: TEST_USER_ID,
+      sessionId: TEST_SESSION_ID,
+    });
+
+    return {results, session: session!};
+  }
+
+  it('rejects concurrent invocations on the same session', async () => {
+    const {results} = await runConcurrently(false);
+
+    const rejected = results.filter((result) => result.status === 'rejected');
+    expect(rejected.length).toBe(1);
+    expect((rejected[0] as PromiseRejectedResult).reason)
+        .toBeInstanceOf(StaleSessionError);
+  });
+
+  it('runs the invocations one at a time with lockSessions', async () => {
+    const {results, session} = await runConcurrently(true);
+
+    expect(results.every((result) => result.status === 'fulfilled')).toBe(true);
+    expect(session.events.map((event) => event.content?.parts?.[0].text))
+        .toEqual([
+          'first message',
+          'Test response',
+          'second message',
+          'Test response',
+        ]);
+  });
+});
+
+describe('Runner.runLive', () => {
+  let plugin: MockPlugin;
+  let sessionService: InMemorySessionService;
+
+  beforeEach(() => {
+    plugin = new MockPlugin();
+    sessionService = new InMemorySessionService();
+  });
+
+  async function runLiveTest(agent: BaseAgent): Promise<{
+    events: Event[],
+    sessionEvents: Event[],
+  }> {
+    const runner = new Runner({
+      appName: TEST_APP_ID,
+      agent,
+      sessionService,
+      plugins: [plugin],
+    });
+    await sessionService.createSession({
+      appName: TEST_APP_ID,
+      userId: TEST_USER_ID,
+      sessionId: TEST_SESSION_ID,
+    });
+    const events: Event[] = [];
+    for await (const event of runner.runLive({
+      userId: TEST_USER_ID,
+      sessionId: TEST_SESSION_ID,
+      liveRequestQueue: new LiveRequestQueue(),
+    })) {
+      events.push(event);
+    }
+    const session = await sessionService.getSession({
+      appName: TEST_APP_ID,
+      userId: TEST_USER_ID,
+      sessionId: TEST_SESSION_ID,
+    });
+    return {events, sessionEvents: session!.events};
+  }
+
+  it('should run the live agent with the live request queue', async () => {
+    const agent = new MockLiveAgent('live_agent', []);
+
+    await runLiveTest(agent);
+
+    const runConfig = agent.liveContext!.runConfig!;
+    expect(agent.liveContext!.liveRequestQueue).toBeDefined();
+    expect(runConfig.streamingMode).toBe(StreamingMode.BIDI);
+    expect(runConfig.responseModalities).toEqual([Modality.AUDIO]);
+    expect(runConfig.inputAudioTranscription).toBeUndefined();
+    expect(plugin.afterRunCallbackCalled).toBe(true);
+  });
+
+  it('should enable transcriptions for live multi-agents', async () => {
+    const agent = new MockLiveAgent('live_agent', []);
+    agent.subAgents.push(new MockAgent('sub_agent', agent));
+
+    await runLiveTest(agent);
+
+    const runConfig = agent.liveContext!.runConfig!;
+    expect(runConfig.inputAudioTranscription).toEqual({});
+    expect(runConfig.outputAudioTranscription).toEqual({});
+  });
+
+  it('should not append partial and audio events', async () => {
+    const textEvent = createEvent({
+      author: 'live_agent',
+      content: {role: 'model', parts: [{text: 'Hello'}]},
+    });
+    const partialEvent = createEvent({
+      author: 'live_agent',
+      content: {role: 'model', parts: [{text: 'Hel'}]},
+      partial: true,
+    });
+    const audioEvent = createEvent({
+      author: 'live_agent',
+      content: {
+        role: 'model',
+        parts: [{inlineData: {data: 'YXVkaW8=', mimeType: 'audio/pcm'}}],
+      },
+    });
+    const agent =
+        new MockLiveAgent('live_agent', [partialEvent, audioEvent, textEvent]);
+
+    const {events, sessionEvents} = await runLiveTest(agent);
+
+    expect(events.map((event) => event.id)).toEqual([
+      partialEvent.id,
+      audioEvent.id,
+      textEvent.id,
+    ]);
+    expect(sessionEvents.map((event) => event.id)).toEqual([textEvent.id]);
+  });
+
+  it('should append tool events after the ongoing transcription',
+     async () => {
+       const partialTranscriptionEvent = createEvent({
+         author: 'live_agent',
+         inputTranscription: {text: 'What is the', finished: false},
+         partial: true,
+       });
+       const functionCallEvent = createEvent({
+         author: 'live_agent',
+         content: {
+           role: 'model',
+           parts: [{functionCall: {id: 'call_1', name: 'get_time', args: {}}}],
+         },
+       });
+       const functionResponseEvent = createEvent({
+         author: 'live_agent',
+         content: {
+           role: 'user',
+           parts: [{
+             functionResponse:
+                 {id: 'call_1', name: 'get_time', response: {time: 'noon'}},
+           }],
+         },
+       });
+       const transcriptionEvent = createEvent({
+         author: 'live_agent',
+         inputTranscription: {text: 'What is the time?', finished: true},
+         partial: false,
+       });
+       const agent = new MockLiveAgent('live_agent', [
+         partialTranscriptionEvent,
+         functionCallEvent,
+         functionResponseEvent,
+         transcriptionEvent,
+       ]);
+
+       const {events, sessionEvents} = await runLiveTest(agent);
+
+       expect(events.length).toBe(4);
+       expect(sessionEvents.map((event) => event.id)).toEqual([
+         transcriptionEvent.id,
+         functionCallEvent.id,
+         functionResponseEvent.id,
+       ]);
+     });
+
+  it('should call beforeRunCallback and stop execution', async () => {
+    plugin.enableBeforeRunCallback = true;
+    const agent = new MockLiveAgent('live_agent', []);
+
+    const {events, sessionEvents} = await runLiveTest(agent);
+
+    expect(events.length).toBe(1);
+    expect(events[0].content?.parts?.[0].text)
+        .toEqual(MockPlugin.BEFORE_RUN_CALLBACK_MSG);
+    expect(sessionEvents.length).toBe(1);
+    expect(agent.liveContext).toBeUndefined();
+  });
+});
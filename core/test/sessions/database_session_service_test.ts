@@ -0,0 +1,426 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {createEvent, DatabaseSessionService, Event, StaleSessionError} from '@google/adk';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const APP_NAME = 'test_app';
+const USER_ID = 'test_user';
+
+function createStateEvent(stateDelta: Record<string, unknown>): Event {
+  return createEvent({
+    invocationId: 'invocation_1',
+    author: 'agent',
+    actions: {
+      stateDelta,
+      artifactDelta: {},
+      requestedAuthConfigs: {},
+      requestedToolConfirmations: {},
+    },
+  });
+}
+
+describe('DatabaseSessionService', () => {
+  let sessionService: DatabaseSessionService;
+
+  beforeEach(() => {
+    sessionService = new DatabaseSessionService('sqlite://');
+  });
+
+  afterEach(() => {
+    sessionService.close();
+  });
+
+  it('creates and gets a session', async () => {
+    const session = await sessionService.createSession({
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: 'session_1',
+      state: {key: 'value'},
+    });
+
+    expect(session.id).toBe('session_1');
+    expect(session.state).toEqual({key: 'value'});
+
+    const storedSession = await sessionService.getSession({
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: 'session_1',
+    });
+
+    expect(storedSession).toEqual(session);
+  });
+
+  it('generates a session id if not provided', async () => {
+    const session =
+        await sessionService.createSession({appName: APP_NAME, userId: USER_ID});
+
+    expect(session.id).toBeTruthy();
+  });
+
+  it('throws when the session already exists', async () => {
+    await sessionService.createSession(
+        {appName: APP_NAME, userId: USER_ID, sessionId: 'session_1'});
+
+    await expect(sessionService.createSession({
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: 'session_1',
+    })).rejects.toThrow('Session with id session_1 already exists.');
+  });
+
+  it('returns undefined for a missing session', async () => {
+    const session = await sessionService.getSession({
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: 'missing',
+    });
+
+    expect(session).toBeUndefined();
+  });
+
+  it('appends events and splits the state by scope', async () => {
+    const session = await sessionService.createSession(
+        {appName: APP_NAME, userId: USER_ID, sessionId: 'session_1'});
+    const event = createEvent({
+      invocationId: 'invocation_1',
+      author: 'agent',
+      content: {role: 'model', parts: [{text: 'hello'}]},
+      actions: {
+        stateDelta: {
+          'key': 'value',
+          'app:app_key': 'app_value',
+          'user:user_key': 'user_value',
+          'temp:temp_key': 'temp_value',
+        },
+        artifactDelta: {},
+        requestedAuthConfigs: {},
+        requestedToolConfirmations: {},
+      },
+    });
+
+    await sessionService.appendEvent({session, event});
+
+    expect(session.events).toEqual([event]);
+
+    const storedSession = await sessionService.getSession({
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: 'session_1',
+    });
+
+    expect(storedSession!.events).toEqual([event]);
+    expect(storedSession!.lastUpdateTime).toBe(event.timestamp);
+    expect(storedSession!.state).toEqual({
+      'key': 'value',
+      'app:app_key': 'app_value',
+      'user:user_key': 'user_value',
+    });
+
+    const otherUserSession = await sessionService.createSession(
+        {appName: APP_NAME, userId: 'other_user', sessionId: 'session_2'});
+
+    expect(otherUserSession.state).toEqual({'app:app_key': 'app_value'});
+  });
+
+  it('does not store partial events', async () => {
+    const session = await sessionService.createSession(
+        {appName: APP_NAME, userId: USER_ID, sessionId: 'session_1'});
+
+    await sessionService.appendEvent(
+        {session, event: createEvent({author: 'agent', partial: true})});
+
+    const storedSession = await sessionService.getSession({
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: 'session_1',
+    });
+
+    expect(storedSession!.events).toEqual([]);
+  });
+
+  it('filters the events by the config', async () => {
+    const session = await sessionService.createSession(
+        {appName: APP_NAME, userId: USER_ID, sessionId: 'session_1'});
+    for (let i = 1; i <= 4; i++) {
+      await sessionService.appendEvent({
+        session,
+        event: createEvent({id: `event_${i}`, author: 'agent', timestamp: i}),
+      });
+    }
+
+    const recentSession = await sessionService.getSession({
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: 'session_1',
+      config: {numRecentEvents: 2},
+    });
+    const laterSession = await sessionService.getSession({
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: 'session_1',
+      config: {afterTimestamp: 2},
+    });
+
+    expect(recentSession!.events.map(e => e.id)).toEqual([
+      'event_3',
+      'event_4',
+    ]);
+    expect(laterSession!.events.map(e => e.id)).toEqual([
+      'event_2',
+      'event_3',
+      'event_4',
+    ]);
+  });
+
+  it('lists and deletes sessions', async () => {
+    await sessionService.createSession(
+        {appName: APP_NAME, userId: USER_ID, sessionId: 'session_1'});
+    const session = await sessionService.createSession(
+        {appName: APP_NAME, userId: USER_ID, sessionId: 'session_2'});
+    await sessionService.appendEvent(
+        {session, event: createEvent({author: 'agent'})});
+
+    const {sessions} =
+        await sessionService.listSessions({appName: APP_NAME, userId: USER_ID});
+
+    expect(sessions.map(s => s.id)).toEqual(['session_1', 'session_2']);
+    expect(sessions[1].events).toEqual([]);
+
+    await sessionService.deleteSession(
+        {appName: APP_NAME, userId: USER_ID, sessionId: 'session_2'});
+
+    const {sessions: remainingSessions} =
+        await sessionService.listSessions({appName: APP_NAME, userId: USER_ID});
+
+    expect(remainingSessions.map(s => s.id)).toEqual(['session_1']);
+  });
+
+  it('paginates and filters the listed sessions', async () => {
+    for (const [sessionId, color] of [
+             ['session_1', 'red'], ['session_2', 'blue'], ['session_3', 'red']]) {
+      await sessionService.createSession(
+          {appName: APP_NAME, userId: USER_ID, sessionId, state: {color}});
+    }
+    const request = {
+      appName: APP_NAME,
+      userId: USER_ID,
+      pageSize: 1,
+      stateFilter: {color: 'red'},
+    };
+
+    const firstPage = await sessionService.listSessions(request);
+    const secondPage = await sessionService.listSessions(
+        {...request, pageToken: firstPage.nextPageToken});
+
+    expect(firstPage.sessions.map(s => s.id)).toEqual(['session_1']);
+    expect(secondPage.sessions.map(s => s.id)).toEqual(['session_3']);
+    expect(secondPage.nextPageToken).toBeUndefined();
+  });
+
+  it('orders the listed sessions by their last update time', async () => {
+    const now = Date.now();
+    for (const [i, sessionId] of ['session_1', 'session_2', 'session_3']
+             .entries()) {
+      const session = await sessionService.createSession(
+          {appName: APP_NAME, userId: USER_ID, sessionId});
+      await sessionService.appendEvent({
+        session,
+        event: createEvent({author: 'agent', timestamp: now + 3 - i}),
+      });
+    }
+    const request = {
+      appName: APP_NAME,
+      userId: USER_ID,
+      pageSize: 2,
+      orderBy: 'lastUpdateTime' as const,
+      descending: true,
+      includeStateAndEvents: true,
+    };
+
+    const firstPage = await sessionService.listSessions(request);
+    await sessionService.deleteSession(
+        {appName: APP_NAME, userId: USER_ID, sessionId: 'session_1'});
+    const secondPage = await sessionService.listSessions(
+        {...request, pageToken: firstPage.nextPageToken});
+
+    expect(firstPage.sessions.map(s => s.id)).toEqual([
+      'session_1',
+      'session_2',
+    ]);
+    expect(firstPage.sessions[0].events.length).toBe(1);
+    expect(secondPage.sessions.map(s => s.id)).toEqual(['session_3']);
+    expect(secondPage.nextPageToken).toBeUndefined();
+  });
+
+  it('persists sessions in the database file', async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'adk-sessions-'));
+    const dbUrl = `sqlite:///${path.join(tempDir, 'sessions.db')}`;
+    try {
+      const firstService = new DatabaseSessionService(dbUrl);
+      const session = await firstService.createSession(
+          {appName: APP_NAME, userId: USER_ID, sessionId: 'session_1'});
+      await firstService.appendEvent({
+        session,
+        event: createEvent({
+          author: 'agent',
+          actions: {
+            stateDelta: {'user:name': 'Alice'},
+            artifactDelta: {},
+            requestedAuthConfigs: {},
+            requestedToolConfirmations: {},
+          },
+        }),
+      });
+      firstService.close();
+
+      const secondService = new DatabaseSessionService(dbUrl);
+      const storedSession = await secondService.getSession({
+        appName: APP_NAME,
+        userId: USER_ID,
+        sessionId: 'session_1',
+      });
+      secondService.close();
+
+      expect(storedSession!.events.length).toBe(1);
+      expect(storedSession!.state).toEqual({'user:name': 'Alice'});
+    } finally {
+      fs.rmSync(tempDir, {recursive: true, force: true});
+    }
+  });
+
+  it('rejects appending to a stale session', async () => {
+    const session = await sessionService.createSession(
+        {appName: APP_NAME, userId: USER_ID, sessionId: 'session_1'});
+    const staleSession = await sessionService.getSession(
+        {appName: APP_NAME, userId: USER_ID, sessionId: 'session_1'});
+    await sessionService.appendEvent(
+        {session, event: createEvent({author: 'agent', timestamp: 1})});
+
+    await expect(sessionService.appendEvent({
+      session: staleSession!,
+      event: createEvent({author: 'agent'}),
+    })).rejects.toThrow(StaleSessionError);
+
+    expect(staleSession!.events).toEqual([]);
+    expect((await sessionService.getSession({
+             appName: APP_NAME,
+             userId: USER_ID,
+             sessionId: 'session_1',
+           }))!.events.length)
+        .toBe(1);
+  });
+
+  it('purges the expired sessions', async () => {
+    const now = Date.now();
+    const expiringService = new DatabaseSessionService('sqlite://', {ttlMs: 100});
+    const session = await expiringService.createSession(
+        {appName: APP_NAME, userId: USER_ID, sessionId: 'session_1'});
+    await expiringService.appendEvent({
+      session,
+      event: createEvent({author: 'agent', timestamp: now - 200}),
+    });
+    await expiringService.createSession(
+        {appName: APP_NAME, userId: USER_ID, sessionId: 'session_2'});
+
+    expect((await expiringService.listSessions(
+                {appName: APP_NAME, userId: USER_ID}))
+               .sessions.map(s => s.id))
+        .toEqual(['session_2']);
+    expect(await expiringService.purgeExpiredSessions()).toBe(1);
+    expect(await expiringService.purgeExpiredSessions()).toBe(0);
+    expiringService.close();
+  });
+
+  it('rewinds a session to before an event', async () => {
+    const session = await sessionService.createSession({
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: 'session_1',
+      state: {initial: 'value'},
+    });
+    for (const [id, count] of [['event_1', 1], ['event_2', 2]] as const) {
+      await sessionService.appendEvent({
+        session,
+        event: createEvent({...createStateEvent({count}), id}),
+      });
+    }
+
+    const rewoundSession = await sessionService.rewindSession({
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: 'session_1',
+      eventId: 'event_2',
+    });
+
+    expect(rewoundSession.events.map(event => event.id)).toEqual(['event_1']);
+    expect(rewoundSession.state).toEqual({initial: 'value', count: 1});
+    expect(await sessionService.getSession({
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: 'session_1',
+    })).toEqual(rewoundSession);
+    await expect(sessionService.appendEvent({
+      session,
+      event: createEvent({author: 'agent'}),
+    })).rejects.toThrow(StaleSessionError);
+  });
+
+  it('forks a session up to an event', async () => {
+    const session = await sessionService.createSession({
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: 'session_1',
+      state: {initial: 'value'},
+    });
+    for (const [id, count] of [['event_1', 1], ['event_2', 2]] as const) {
+      await sessionService.appendEvent({
+        session,
+        event: createEvent({...createStateEvent({count}), id}),
+      });
+    }
+
+    const forkedSession = await sessionService.forkSession({
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: 'session_1',
+      eventId: 'event_1',
+      newSessionId: 'session_2',
+    });
+    await sessionService.appendEvent(
+        {session: forkedSession, event: createStateEvent({count: 3})});
+
+    expect(forkedSession.events.map(event => event.id)).toEqual([
+      'event_1',
+      expect.any(String),
+    ]);
+    expect((await sessionService.getSession({
+             appName: APP_NAME,
+             userId: USER_ID,
+             sessionId: 'session_2',
+           }))!.state)
+        .toEqual({initial: 'value', count: 3});
+    expect((await sessionService.getSession({
+             appName: APP_NAME,
+             userId: USER_ID,
+             sessionId: 'session_1',
+           }))!.events.length)
+        .toBe(2);
+    await expect(sessionService.forkSession({
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: 'session_1',
+      newSessionId: 'session_2',
+    })).rejects.toThrow('Session with id session_2 already exists.');
+  });
+
+  it('throws for unsupported database URLs', () => {
+    expect(() => new DatabaseSessionService('mysql://localhost/db'))
+        .toThrow('Unsupported database URL: mysql://localhost/db');
+  });
+});
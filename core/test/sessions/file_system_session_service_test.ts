@@ -0,0 +1,347 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {BaseMemoryService, createEvent, Event, FileSystemSessionService, Session, StaleSessionError} from '@google/adk';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const APP_NAME = 'test_app';
+const USER_ID = 'test_user';
+
+function createStateEvent(stateDelta: Record<string, unknown>): Event {
+  return createEvent({
+    invocationId: 'invocation_1',
+    author: 'agent',
+    actions: {
+      stateDelta,
+      artifactDelta: {},
+      requestedAuthConfigs: {},
+      requestedToolConfirmations: {},
+    },
+  });
+}
+
+describe('FileSystemSessionService', () => {
+  let rootDir: string;
+  let sessionService: FileSystemSessionService;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'adk-sessions-'));
+    sessionService = new FileSystemSessionService(rootDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, {recursive: true, force: true});
+  });
+
+  it('creates and gets a session', async () => {
+    const session = await sessionService.createSession({
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: 'session_1',
+      state: {key: 'value', 'app:app_key': 'app_value'},
+    });
+
+    expect(session.state).toEqual({key: 'value', 'app:app_key': 'app_value'});
+    expect(fs.existsSync(path.join(
+               rootDir, APP_NAME, 'users', USER_ID, 'sessions', 'session_1',
+               'session.json')))
+        .toBe(true);
+
+    const storedSession = await new FileSystemSessionService(rootDir).getSession(
+        {appName: APP_NAME, userId: USER_ID, sessionId: 'session_1'});
+
+    expect(storedSession).toEqual(session);
+  });
+
+  it('throws when the session already exists', async () => {
+    await sessionService.createSession(
+        {appName: APP_NAME, userId: USER_ID, sessionId: 'session_1'});
+
+    await expect(sessionService.createSession({
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: 'session_1',
+    })).rejects.toThrow('Session with id session_1 already exists.');
+  });
+
+  it('returns undefined for a missing session', async () => {
+    const session = await sessionService.getSession(
+        {appName: APP_NAME, userId: USER_ID, sessionId: 'missing'});
+
+    expect(session).toBeUndefined();
+  });
+
+  it('appends events and splits the state by scope', async () => {
+    const session = await sessionService.createSession(
+        {appName: APP_NAME, userId: USER_ID, sessionId: 'session_1'});
+    const event = createStateEvent({
+      'key': 'value',
+      'app:app_key': 'app_value',
+      'user:user_key': 'user_value',
+      'temp:temp_key': 'temp_value',
+    });
+
+    await sessionService.appendEvent({session, event});
+    await sessionService.appendEvent(
+        {session, event: createEvent({author: 'agent', partial: true})});
+
+    const storedSession = await sessionService.getSession(
+        {appName: APP_NAME, userId: USER_ID, sessionId: 'session_1'});
+
+    expect(storedSession!.events).toEqual([event]);
+    expect(storedSession!.lastUpdateTime).toBe(event.timestamp);
+    expect(storedSession!.state).toEqual({
+      'key': 'value',
+      'app:app_key': 'app_value',
+      'user:user_key': 'user_value',
+    });
+
+    const otherUserSession = await sessionService.createSession(
+        {appName: APP_NAME, userId: 'other_user', sessionId: 'session_2'});
+
+    expect(otherUserSession.state).toEqual({'app:app_key': 'app_value'});
+  });
+
+  it('filters the events by the config', async () => {
+    const session = await sessionService.createSession(
+        {appName: APP_NAME, userId: USER_ID, sessionId: 'session_1'});
+    for (let i = 1; i <= 4; i++) {
+      await sessionService.appendEvent({
+        session,
+        event: createEvent({id: `event_${i}`, author: 'agent', timestamp: i}),
+      });
+    }
+
+    const recentSession = await sessionService.getSession({
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: 'session_1',
+      config: {numRecentEvents: 2},
+    });
+    const laterSession = await sessionService.getSession({
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: 'session_1',
+      config: {afterTimestamp: 2},
+    });
+
+    expect(recentSession!.events.map(e => e.id)).toEqual([
+      'event_3',
+      'event_4',
+    ]);
+    expect(laterSession!.events.map(e => e.id)).toEqual([
+      'event_2',
+      'event_3',
+      'event_4',
+    ]);
+  });
+
+  it('lists and deletes sessions', async () => {
+    await sessionService.createSession(
+        {appName: APP_NAME, userId: USER_ID, sessionId: 'session_1'});
+    await sessionService.createSession(
+        {appName: APP_NAME, userId: USER_ID, sessionId: 'session_2'});
+
+    const {sessions} =
+        await sessionService.listSessions({appName: APP_NAME, userId: USER_ID});
+
+    expect(sessions.map(s => s.id).sort()).toEqual(['session_1', 'session_2']);
+
+    await sessionService.deleteSession(
+        {appName: APP_NAME, userId: USER_ID, sessionId: 'session_2'});
+
+    const {sessions: remainingSessions} =
+        await sessionService.listSessions({appName: APP_NAME, userId: USER_ID});
+
+    expect(remainingSessions.map(s => s.id)).toEqual(['session_1']);
+  });
+
+  it('stores names that are not valid file names', async () => {
+    const session = await sessionService.createSession(
+        {appName: APP_NAME, userId: '../user/1', sessionId: '..'});
+
+    const storedSession = await sessionService.getSession(
+        {appName: APP_NAME, userId: '../user/1', sessionId: '..'});
+
+    expect(storedSession).toEqual(session);
+    expect(fs.readdirSync(rootDir)).toEqual([APP_NAME]);
+  });
+
+  it('keeps the state of concurrent appends', async () => {
+    const otherService = new FileSystemSessionService(rootDir);
+    const sessions = await Promise.all(Array.from(
+        {length: 10},
+        (_, i) => sessionService.createSession({
+          appName: APP_NAME,
+          userId: USER_ID,
+          sessionId: `session_${i}`,
+        })));
+
+    await Promise.all(sessions.map((session, i) => {
+      const service = i % 2 === 0 ? sessionService : otherService;
+      return service.appendEvent({
+        session,
+        event: createStateEvent({[`user:key_${i}`]: i}),
+      });
+    }));
+
+    const storedSession = await sessionService.getSession(
+        {appName: APP_NAME, userId: USER_ID, sessionId: 'session_0'});
+
+    expect(storedSession!.events.length).toBe(1);
+    for (let i = 0; i < 10; i++) {
+      expect(storedSession!.state[`user:key_${i}`]).toBe(i);
+    }
+  });
+
+  it('purges the expired sessions', async () => {
+    const now = Date.now();
+    const expiringService = new FileSystemSessionService(rootDir, {ttlMs: 100});
+    const session = await expiringService.createSession(
+        {appName: APP_NAME, userId: USER_ID, sessionId: 'session_1'});
+    await expiringService.appendEvent({
+      session,
+      event: createEvent({author: 'agent', timestamp: now - 200}),
+    });
+    await expiringService.createSession(
+        {appName: APP_NAME, userId: USER_ID, sessionId: 'session_2'});
+
+    expect((await expiringService.listSessions(
+                {appName: APP_NAME, userId: USER_ID}))
+               .sessions.map(s => s.id))
+        .toEqual(['session_2']);
+    expect(await expiringService.purgeExpiredSessions()).toBe(1);
+    expect(await sessionService.getSession(
+               {appName: APP_NAME, userId: USER_ID, sessionId: 'session_1'}))
+        .toBeUndefined();
+  });
+
+  it('cleans up the expired sessions without holding the app lock',
+     async () => {
+       const memorySessions: Session[] = [];
+       const memoryService: BaseMemoryService = {
+         addSessionToMemory: async (session) => {
+           // Would time out waiting for the app lock if it was still held.
+           await expiringService.listSessions(
+               {appName: APP_NAME, userId: USER_ID});
+           memorySessions.push(session);
+         },
+         searchMemory: async () => ({memories: []}),
+       };
+       const expiringService =
+           new FileSystemSessionService(rootDir, {ttlMs: 100, memoryService});
+       const session = await expiringService.createSession(
+           {appName: APP_NAME, userId: USER_ID, sessionId: 'session_1'});
+       await expiringService.appendEvent({
+         session,
+         event: createEvent({author: 'agent', timestamp: Date.now() - 200}),
+       });
+
+       expect(await expiringService.purgeExpiredSessions()).toBe(1);
+       expect(memorySessions.map(s => s.id)).toEqual(['session_1']);
+       expect(memorySessions[0].events.length).toBe(1);
+     });
+
+  it('rejects appending to a stale session', async () => {
+    const session = await sessionService.createSession(
+        {appName: APP_NAME, userId: USER_ID, sessionId: 'session_1'});
+    const staleSession = await sessionService.getSession(
+        {appName: APP_NAME, userId: USER_ID, sessionId: 'session_1'});
+    await sessionService.appendEvent(
+        {session, event: createEvent({author: 'agent', timestamp: 1})});
+
+    await expect(sessionService.appendEvent({
+      session: staleSession!,
+      event: createEvent({author: 'agent'}),
+    })).rejects.toThrow(StaleSessionError);
+
+    expect(staleSession!.events).toEqual([]);
+  });
+
+  it('rewinds a session to before an event', async () => {
+    const session = await sessionService.createSession({
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: 'session_1',
+      state: {initial: 'value'},
+    });
+    for (const [id, count] of [['event_1', 1], ['event_2', 2]] as const) {
+      await sessionService.appendEvent({
+        session,
+        event: createEvent({...createStateEvent({count}), id}),
+      });
+    }
+
+    const rewoundSession = await sessionService.rewindSession({
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: 'session_1',
+      eventId: 'event_2',
+    });
+
+    expect(rewoundSession.events.map(event => event.id)).toEqual(['event_1']);
+    expect(rewoundSession.state).toEqual({initial: 'value', count: 1});
+    expect(await sessionService.getSession({
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: 'session_1',
+    })).toEqual(rewoundSession);
+    await expect(sessionService.appendEvent({
+      session,
+      event: createEvent({author: 'agent'}),
+    })).rejects.toThrow(StaleSessionError);
+  });
+
+  it('forks a session up to an event', async () => {
+    const session = await sessionService.createSession({
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: 'session_1',
+      state: {initial: 'value'},
+    });
+    for (const [id, count] of [['event_1', 1], ['event_2', 2]] as const) {
+      await sessionService.appendEvent({
+        session,
+        event: createEvent({...createStateEvent({count}), id}),
+      });
+    }
+
+    const forkedSession = await sessionService.forkSession({
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: 'session_1',
+      eventId: 'event_1',
+      newSessionId: 'session_2',
+    });
+    await sessionService.appendEvent(
+        {session: forkedSession, event: createStateEvent({count: 3})});
+
+    expect(forkedSession.events.map(event => event.id)).toEqual([
+      'event_1',
+      expect.any(String),
+    ]);
+    expect((await sessionService.getSession({
+             appName: APP_NAME,
+             userId: USER_ID,
+             sessionId: 'session_2',
+           }))!.state)
+        .toEqual({initial: 'value', count: 3});
+    expect((await sessionService.getSession({
+             appName: APP_NAME,
+             userId: USER_ID,
+             sessionId: 'session_1',
+           }))!.events.length)
+        .toBe(2);
+    await expect(sessionService.forkSession({
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: 'session_1',
+      newSessionId: 'session_2',
+    })).rejects.toThrow('Session with id session_2 already exists.');
+  });
+});
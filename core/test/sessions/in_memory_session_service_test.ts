@@ -0,0 +1,466 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {BaseMemoryService, createEvent, Event, InMemoryArtifactService, InMemorySessionService, InvalidPageTokenError, Session, StaleSessionError} from '@google/adk';
+
+const APP_NAME = 'test_app';
+const USER_ID = 'test_user';
+
+function createDeltaEvent(
+    id: string,
+    stateDelta: Record<string, unknown>,
+    artifactDelta: Record<string, number> = {},
+    ): Event {
+  return createEvent({
+    id,
+    author: 'agent',
+    actions: {
+      stateDelta,
+      artifactDelta,
+      requestedAuthConfigs: {},
+      requestedToolConfirmations: {},
+    },
+  });
+}
+
+describe('InMemorySessionService', () => {
+  it('appends events to the stored session', async () => {
+    const sessionService = new InMemorySessionService();
+    const session = await sessionService.createSession(
+        {appName: APP_NAME, userId: USER_ID, sessionId: 'session_1'});
+    const event = createEvent({author: 'agent'});
+
+    await sessionService.appendEvent({session, event});
+    await sessionService.appendEvent(
+        {session, event: createEvent({author: 'agent'})});
+
+    const storedSession = await sessionService.getSession(
+        {appName: APP_NAME, userId: USER_ID, sessionId: 'session_1'});
+
+    expect(storedSession!.events.length).toBe(2);
+    expect(storedSession!.events[0]).toEqual(event);
+  });
+
+  it('rejects appending to a stale session', async () => {
+    const sessionService = new InMemorySessionService();
+    const session = await sessionService.createSession(
+        {appName: APP_NAME, userId: USER_ID, sessionId: 'session_1'});
+    const staleSession = await sessionService.getSession(
+        {appName: APP_NAME, userId: USER_ID, sessionId: 'session_1'});
+    await sessionService.appendEvent(
+        {session, event: createEvent({author: 'agent', timestamp: 1})});
+
+    await expect(sessionService.appendEvent({
+      session: staleSession!,
+      event: createEvent({author: 'agent'}),
+    })).rejects.toThrow(StaleSessionError);
+
+    expect(staleSession!.events).toEqual([]);
+  });
+
+  describe('rewindSession', () => {
+    it('removes the events and recomputes the state', async () => {
+      const sessionService = new InMemorySessionService();
+      const session = await sessionService.createSession({
+        appName: APP_NAME,
+        userId: USER_ID,
+        sessionId: 'session_1',
+        state: {initial: 'value'},
+      });
+      await sessionService.appendEvent(
+          {session, event: createDeltaEvent('event_1', {count: 1})});
+      await sessionService.appendEvent({
+        session,
+        event: createDeltaEvent(
+            'event_2', {count: 2, added: true, 'user:name': 'Alice'}),
+      });
+      await sessionService.appendEvent(
+          {session, event: createDeltaEvent('event_3', {count: 3})});
+
+      const rewoundSession = await sessionService.rewindSession({
+        appName: APP_NAME,
+        userId: USER_ID,
+        sessionId: 'session_1',
+        eventId: 'event_2',
+      });
+
+      expect(rewoundSession.events.map((event) => event.id)).toEqual([
+        'event_1',
+      ]);
+      expect(rewoundSession.state).toEqual({
+        initial: 'value',
+        count: 1,
+        'user:name': 'Alice',
+      });
+      expect(await sessionService.getSession({
+        appName: APP_NAME,
+        userId: USER_ID,
+        sessionId: 'session_1',
+      })).toEqual(rewoundSession);
+    });
+
+    it('reverts the artifacts changed by the removed events', async () => {
+      const sessionService = new InMemorySessionService();
+      const artifactService = new InMemoryArtifactService();
+      const session = await sessionService.createSession(
+          {appName: APP_NAME, userId: USER_ID, sessionId: 'session_1'});
+      const artifactKey =
+          {appName: APP_NAME, userId: USER_ID, sessionId: 'session_1'};
+      for (const [eventId, filename, text] of [
+             ['event_1', 'report.txt', 'first draft'],
+             ['event_2', 'report.txt', 'second draft'],
+             ['event_3', 'notes.txt', 'notes'],
+           ]) {
+        const version = await artifactService.saveArtifact(
+            {...artifactKey, filename, artifact: {text}});
+        await sessionService.appendEvent({
+          session,
+          event: createDeltaEvent(eventId, {}, {[filename]: version}),
+        });
+      }
+
+      await sessionService.rewindSession({
+        ...artifactKey,
+        eventId: 'event_2',
+        artifactService,
+      });
+
+      expect(await artifactService.loadArtifact(
+                 {...artifactKey, filename: 'report.txt'}))
+          .toEqual({text: 'first draft'});
+      expect(await artifactService.listArtifactKeys(artifactKey)).toEqual([
+        'report.txt',
+      ]);
+    });
+
+    it('throws if the event is not found', async () => {
+      const sessionService = new InMemorySessionService();
+      await sessionService.createSession(
+          {appName: APP_NAME, userId: USER_ID, sessionId: 'session_1'});
+
+      await expect(sessionService.rewindSession({
+        appName: APP_NAME,
+        userId: USER_ID,
+        sessionId: 'session_1',
+        eventId: 'missing',
+      })).rejects.toThrow('Event missing not found in session session_1.');
+    });
+
+    it('makes the previously loaded sessions stale', async () => {
+      const sessionService = new InMemorySessionService();
+      const session = await sessionService.createSession(
+          {appName: APP_NAME, userId: USER_ID, sessionId: 'session_1'});
+      await sessionService.appendEvent(
+          {session, event: createDeltaEvent('event_1', {})});
+
+      await sessionService.rewindSession({
+        appName: APP_NAME,
+        userId: USER_ID,
+        sessionId: 'session_1',
+        eventId: 'event_1',
+      });
+
+      await expect(sessionService.appendEvent({
+        session,
+        event: createDeltaEvent('event_2', {}),
+      })).rejects.toThrow(StaleSessionError);
+    });
+  });
+
+  describe('forkSession', () => {
+    it('copies the events up to the given event', async () => {
+      const sessionService = new InMemorySessionService();
+      const artifactService = new InMemoryArtifactService();
+      const session = await sessionService.createSession({
+        appName: APP_NAME,
+        userId: USER_ID,
+        sessionId: 'session_1',
+        state: {initial: 'value'},
+      });
+      const version = await artifactService.saveArtifact({
+        appName: APP_NAME,
+        userId: USER_ID,
+        sessionId: 'session_1',
+        filename: 'report.txt',
+        artifact: {text: 'draft'},
+      });
+      await sessionService.appendEvent({
+        session,
+        event: createDeltaEvent(
+            'event_1', {count: 1}, {'report.txt': version}),
+      });
+      await sessionService.appendEvent(
+          {session, event: createDeltaEvent('event_2', {count: 2})});
+
+      const forkedSession = await sessionService.forkSession({
+        appName: APP_NAME,
+        userId: USER_ID,
+        sessionId: 'session_1',
+        eventId: 'event_1',
+        newSessionId: 'session_2',
+        artifactService,
+      });
+
+      expect(forkedSession.id).toBe('session_2');
+      expect(forkedSession.events.map((event) => event.id)).toEqual([
+        'event_1',
+      ]);
+      expect(forkedSession.state).toEqual({initial: 'value', count: 1});
+      expect(await artifactService.loadArtifact({
+        appName: APP_NAME,
+        userId: USER_ID,
+        sessionId: 'session_2',
+        filename: 'report.txt',
+        version,
+      })).toEqual({text: 'draft'});
+
+      await sessionService.appendEvent({
+        session: forkedSession,
+        event: createDeltaEvent('event_3', {count: 3}),
+      });
+      const originalSession = await sessionService.getSession(
+          {appName: APP_NAME, userId: USER_ID, sessionId: 'session_1'});
+
+      expect(originalSession!.events.length).toBe(2);
+      expect(originalSession!.state['count']).toBe(2);
+    });
+
+    it('throws if the new session already exists', async () => {
+      const sessionService = new InMemorySessionService();
+      await sessionService.createSession(
+          {appName: APP_NAME, userId: USER_ID, sessionId: 'session_1'});
+
+      await expect(sessionService.forkSession({
+        appName: APP_NAME,
+        userId: USER_ID,
+        sessionId: 'session_1',
+        newSessionId: 'session_1',
+      })).rejects.toThrow('Session with id session_1 already exists.');
+    });
+  });
+
+  describe('listSessions', () => {
+    let sessionService: InMemorySessionService;
+
+    beforeEach(async () => {
+      sessionService = new InMemorySessionService();
+      for (const [i, sessionId] of ['session_1', 'session_2', 'session_3']
+               .entries()) {
+        const session = await sessionService.createSession({
+          appName: APP_NAME,
+          userId: USER_ID,
+          sessionId,
+          state: {index: i},
+        });
+        await sessionService.appendEvent({
+          session,
+          event: createEvent({
+            id: `event_${i}`,
+            author: 'agent',
+            timestamp: 3 - i,
+          }),
+        });
+      }
+    });
+
+    it('returns the metadata of the sessions by default', async () => {
+      const {sessions, nextPageToken} =
+          await sessionService.listSessions({appName: APP_NAME, userId: USER_ID});
+
+      expect(sessions.map(s => s.id)).toEqual([
+        'session_1',
+        'session_2',
+        'session_3',
+      ]);
+      expect(sessions[0].state).toEqual({});
+      expect(sessions[0].events).toEqual([]);
+      expect(nextPageToken).toBeUndefined();
+    });
+
+    it('orders and paginates the sessions', async () => {
+      const request = {
+        appName: APP_NAME,
+        userId: USER_ID,
+        pageSize: 2,
+        orderBy: 'lastUpdateTime' as const,
+        descending: true,
+      };
+
+      const firstPage = await sessionService.listSessions(request);
+      const secondPage = await sessionService.listSessions(
+          {...request, pageToken: firstPage.nextPageToken});
+
+      expect(firstPage.sessions.map(s => s.id)).toEqual([
+        'session_1',
+        'session_2',
+      ]);
+      expect(secondPage.sessions.map(s => s.id)).toEqual(['session_3']);
+      expect(secondPage.nextPageToken).toBeUndefined();
+    });
+
+    it('continues after the last session of the previous page', async () => {
+      const request = {appName: APP_NAME, userId: USER_ID, pageSize: 1};
+
+      const firstPage = await sessionService.listSessions(request);
+      await sessionService.deleteSession(
+          {appName: APP_NAME, userId: USER_ID, sessionId: 'session_1'});
+      const secondPage = await sessionService.listSessions(
+          {...request, pageToken: firstPage.nextPageToken});
+
+      expect(firstPage.sessions.map(s => s.id)).toEqual(['session_1']);
+      expect(secondPage.sessions.map(s => s.id)).toEqual(['session_2']);
+    });
+
+    it('filters the sessions by state', async () => {
+      const {sessions} = await sessionService.listSessions({
+        appName: APP_NAME,
+        userId: USER_ID,
+        stateFilter: {index: 1},
+        includeStateAndEvents: true,
+      });
+
+      expect(sessions.length).toBe(1);
+      expect(sessions[0].state).toEqual({index: 1});
+      expect(sessions[0].events.map(e => e.id)).toEqual(['event_1']);
+    });
+
+    it('throws for an invalid page token', async () => {
+      await expect(sessionService.listSessions({
+        appName: APP_NAME,
+        userId: USER_ID,
+        pageToken: 'invalid',
+      })).rejects.toThrow(InvalidPageTokenError);
+      await expect(sessionService.listSessions({
+        appName: APP_NAME,
+        userId: USER_ID,
+        pageSize: Number('abc'),
+      })).rejects.toThrow('Invalid page size: NaN');
+    });
+  });
+
+  describe('session expiry', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('does not return the expired sessions', async () => {
+      vi.useFakeTimers({now: 1000});
+      const sessionService = new InMemorySessionService({ttlMs: 100});
+      await sessionService.createSession(
+          {appName: APP_NAME, userId: USER_ID, sessionId: 'session_1'});
+
+      vi.setSystemTime(1100);
+      expect(await sessionService.getSession({
+        appName: APP_NAME,
+        userId: USER_ID,
+        sessionId: 'session_1',
+      })).toBeDefined();
+
+      vi.setSystemTime(1101);
+      expect((await sessionService.listSessions(
+                  {appName: APP_NAME, userId: USER_ID}))
+                 .sessions)
+          .toEqual([]);
+      expect(await sessionService.getSession({
+        appName: APP_NAME,
+        userId: USER_ID,
+        sessionId: 'session_1',
+      })).toBeUndefined();
+    });
+
+    it('purges the expired sessions with the app TTL', async () => {
+      vi.useFakeTimers({now: 1000});
+      const artifactService = new InMemoryArtifactService();
+      const memorySessions: Session[] = [];
+      const memoryService: BaseMemoryService = {
+        addSessionToMemory: async (session) => {
+          memorySessions.push(session);
+        },
+        searchMemory: async () => ({memories: []}),
+      };
+      const sessionService = new InMemorySessionService({
+        ttlMs: 100,
+        appTtlMs: {'long_app': 1000},
+        artifactService,
+        memoryService,
+      });
+      const session = await sessionService.createSession(
+          {appName: APP_NAME, userId: USER_ID, sessionId: 'session_1'});
+      await sessionService.appendEvent(
+          {session, event: createDeltaEvent('event_1', {'key': 'value'})});
+      await sessionService.createSession(
+          {appName: 'long_app', userId: USER_ID, sessionId: 'session_2'});
+      for (const filename of ['report.txt', 'user:profile.txt']) {
+        await artifactService.saveArtifact({
+          appName: APP_NAME,
+          userId: USER_ID,
+          sessionId: 'session_1',
+          filename,
+          artifact: {text: filename},
+        });
+      }
+
+      vi.setSystemTime(1500);
+
+      expect(await sessionService.purgeExpiredSessions()).toBe(1);
+      expect(memorySessions.map(s => s.id)).toEqual(['session_1']);
+      expect(memorySessions[0].events.map(e => e.id)).toEqual(['event_1']);
+      expect(await artifactService.listArtifactKeys({
+        appName: APP_NAME,
+        userId: USER_ID,
+        sessionId: 'session_1',
+      })).toEqual(['user:profile.txt']);
+      expect(await sessionService.getSession({
+        appName: 'long_app',
+        userId: USER_ID,
+        sessionId: 'session_2',
+      })).toBeDefined();
+    });
+
+    it('cleans up each expired session once when purged concurrently',
+       async () => {
+         vi.useFakeTimers({now: 1000});
+         const memorySessionIds: string[] = [];
+         const memoryService: BaseMemoryService = {
+           addSessionToMemory: async (session) => {
+             memorySessionIds.push(session.id);
+           },
+           searchMemory: async () => ({memories: []}),
+         };
+         const sessionService =
+             new InMemorySessionService({ttlMs: 100, memoryService});
+         for (const sessionId of ['session_1', 'session_2']) {
+           await sessionService.createSession(
+               {appName: APP_NAME, userId: USER_ID, sessionId});
+         }
+
+         vi.setSystemTime(1500);
+         const purgedCounts = await Promise.all([
+           sessionService.purgeExpiredSessions(),
+           sessionService.purgeExpiredSessions(),
+         ]);
+
+         expect(purgedCounts[0] + purgedCounts[1]).toBe(2);
+         expect(memorySessionIds.sort()).toEqual(['session_1', 'session_2']);
+       });
+
+    it('purges the expired sessions in the background', async () => {
+      vi.useFakeTimers({now: 1000});
+      const sessionService = new InMemorySessionService(
+          {ttlMs: 100, cleanupIntervalMs: 1000});
+      await sessionService.createSession(
+          {appName: APP_NAME, userId: USER_ID, sessionId: 'session_1'});
+      const purgeSpy = vi.spyOn(sessionService, 'purgeExpiredSessions');
+
+      await vi.advanceTimersByTimeAsync(1000);
+      sessionService.stopCleanup();
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(purgeSpy).toHaveBeenCalledTimes(1);
+      expect(await purgeSpy.mock.results[0].value).toBe(1);
+    });
+  });
+});
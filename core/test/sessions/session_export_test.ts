@@ -0,0 +1,206 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {createEvent, Event, ExportedArtifact, exportSession, importSession, InMemoryArtifactService, InMemorySessionService, Session, SESSION_EXPORT_VERSION} from '@google/adk';
+
+const APP_NAME = 'test_app';
+const USER_ID = 'test_user';
+
+describe('Session export', () => {
+  let sessionService: InMemorySessionService;
+  let artifactService: InMemoryArtifactService;
+  let session: Session;
+
+  beforeEach(async () => {
+    sessionService = new InMemorySessionService();
+    artifactService = new InMemoryArtifactService();
+    session = await sessionService.createSession({
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: 'session_1',
+      state: {key: 'initial'},
+    });
+
+    for (const text of ['v0', 'v1']) {
+      await artifactService.saveArtifact({
+        appName: APP_NAME,
+        userId: USER_ID,
+        sessionId: 'session_1',
+        filename: 'report.txt',
+        artifact: {text},
+      });
+    }
+    await sessionService.appendEvent({
+      session,
+      event: createEvent({
+        id: 'event_1',
+        invocationId: 'invocation_1',
+        author: 'user',
+        content: {role: 'user', parts: [{text: 'hello'}]},
+        actions: {
+          stateDelta: {'key': 'value', 'user:name': 'Alice'},
+          artifactDelta: {'report.txt': 1},
+          requestedAuthConfigs: {},
+          requestedToolConfirmations: {},
+        },
+      }),
+    });
+  });
+
+  it('exports the session, its events and its artifacts', async () => {
+    const exportedSession = await exportSession({session, artifactService});
+
+    expect(exportedSession.version).toBe(SESSION_EXPORT_VERSION);
+    expect(exportedSession.id).toBe('session_1');
+    expect(exportedSession.state).toEqual(
+        {key: 'value', 'user:name': 'Alice'});
+    expect(exportedSession.events.map(e => e.id)).toEqual(['event_1']);
+    expect(exportedSession.artifacts).toEqual([
+      {filename: 'report.txt', version: 0, artifact: {text: 'v0'}},
+      {filename: 'report.txt', version: 1, artifact: {text: 'v1'}},
+    ]);
+    expect(JSON.parse(JSON.stringify(exportedSession)))
+        .toEqual(exportedSession);
+  });
+
+  it('only exports the artifact references without an artifact service',
+     async () => {
+       const exportedSession = await exportSession({session});
+
+       expect(exportedSession.artifacts).toEqual([
+         {filename: 'report.txt', version: 1},
+       ]);
+     });
+
+  it('encodes the binary inline data as base64', async () => {
+    const data = new Uint8Array([0, 1, 2, 255]);
+    session.events.push(createEvent({
+      author: 'user',
+      content: {
+        role: 'user',
+        parts: [{
+          inlineData: {
+            mimeType: 'application/octet-stream',
+            data: data as unknown as string,
+          },
+        }],
+      },
+    }));
+
+    const exportedSession = await exportSession({session});
+
+    expect(exportedSession.events[1].content!.parts![0].inlineData).toEqual({
+      mimeType: 'application/octet-stream',
+      data: Buffer.from(data).toString('base64'),
+    });
+  });
+
+  it('imports the session into another session service', async () => {
+    const exportedSession = await exportSession({session, artifactService});
+    const otherSessionService = new InMemorySessionService();
+    const otherArtifactService = new InMemoryArtifactService();
+    // The imported versions are shifted by the existing version.
+    await otherArtifactService.saveArtifact({
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: 'imported_session',
+      filename: 'report.txt',
+      artifact: {text: 'existing'},
+    });
+
+    const importedSession = await importSession({
+      exportedSession: JSON.parse(JSON.stringify(exportedSession)),
+      sessionService: otherSessionService,
+      artifactService: otherArtifactService,
+      sessionId: 'imported_session',
+    });
+
+    const storedSession = await otherSessionService.getSession({
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: 'imported_session',
+    });
+    expect(storedSession).toEqual(importedSession);
+    expect(storedSession!.state).toEqual({key: 'value', 'user:name': 'Alice'});
+    expect(storedSession!.events[0].actions.artifactDelta).toEqual({
+      'report.txt': 2,
+    });
+    expect(await otherArtifactService.loadArtifact({
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: 'imported_session',
+      filename: 'report.txt',
+    })).toEqual({text: 'v1'});
+  });
+
+  it('deletes the partially imported session on failure', async () => {
+    const exportedSession = await exportSession({session, artifactService});
+    const otherSessionService = new InMemorySessionService();
+    const otherArtifactService = new InMemoryArtifactService();
+    vi.spyOn(otherSessionService, 'appendEvent')
+        .mockRejectedValue(new Error('Append failed'));
+
+    await expect(importSession({
+      exportedSession,
+      sessionService: otherSessionService,
+      artifactService: otherArtifactService,
+    })).rejects.toThrow('Append failed');
+
+    expect(await otherSessionService.getSession({
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: 'session_1',
+    })).toBeUndefined();
+    expect(await otherArtifactService.listArtifactKeys({
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: 'session_1',
+    })).toEqual([]);
+  });
+
+  it('throws for an unsupported export version', async () => {
+    const exportedSession = await exportSession({session});
+
+    await expect(importSession({
+      exportedSession: {...exportedSession, version: 0},
+      sessionService,
+    })).rejects.toThrow('Unsupported session export version: 0');
+  });
+
+  it('imports only the app and user state set by the events', async () => {
+    const exportedSession = await exportSession({session});
+    const otherSessionService = new InMemorySessionService();
+
+    const importedSession = await importSession({
+      exportedSession: {
+        ...exportedSession,
+        state: {...exportedSession.state, 'app:theme': 'dark'},
+      },
+      sessionService: otherSessionService,
+    });
+
+    expect(importedSession.state).toEqual({
+      key: 'value',
+      'user:name': 'Alice',
+    });
+  });
+
+  it('throws for a malformed exported session', async () => {
+    const exportedSession = await exportSession({session});
+
+    await expect(importSession({
+      exportedSession: {...exportedSession, events: [null as unknown as Event]},
+      sessionService,
+    })).rejects.toThrow('events must be an array of objects');
+    await expect(importSession({
+      exportedSession: {
+        ...exportedSession,
+        artifacts: [{filename: 'report.txt'} as ExportedArtifact],
+      },
+      sessionService,
+    })).rejects.toThrow('artifacts must be an array of artifact versions');
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {asTypedState, CallbackContext, createEvent, createSession, DatabaseSessionService, InMemorySessionService, InvocationContext, LlmAgent, PluginManager, Runner, State, StateSchema, StateValidationError, ToolContext} from '@google/adk';
+import {z} from 'zod';
+
+import {validateStateDelta} from '../../src/sessions/state_schema.js';
+
+const stateSchema = {
+  app: z.object({theme: z.enum(['light', 'dark'])}),
+  user: z.object({age: z.number().int()}).strict(),
+  session: z.object({step: z.number()}),
+} satisfies StateSchema;
+
+function createInvocationContext(agent: LlmAgent): InvocationContext {
+  return new InvocationContext({
+    invocationId: 'invocation_1',
+    session: createSession({id: 'session_1', appName: 'test_app'}),
+    agent,
+    pluginManager: new PluginManager(),
+  });
+}
+
+describe('State schema', () => {
+  it('validates the values set in the state', () => {
+    const state = new State(
+        {}, {}, delta => validateStateDelta(stateSchema, delta, 'test'));
+
+    state.set('app:theme', 'dark');
+    state.update({'step': 1, 'other': 'value'});
+
+    expect(state.toRecord()).toEqual({
+      'app:theme': 'dark',
+      'step': 1,
+      'other': 'value',
+    });
+    expect(() => state.set('step', 'first'))
+        .toThrow(
+            'Invalid value for state key "step" written by test: Expected number, received string');
+    expect(state.get('step')).toBe(1);
+  });
+
+  it('rejects the unknown keys of a strict schema', () => {
+    const state =
+        new State({}, {}, delta => validateStateDelta(stateSchema, delta));
+
+    let error: unknown;
+    try {
+      state.update({'user:name': 'Alice'});
+    } catch (e: unknown) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(StateValidationError);
+    expect((error as StateValidationError).key).toBe('user:name');
+    expect((error as StateValidationError).message)
+        .toBe('Unknown state key "user:name".');
+  });
+
+  it('reports the tool writing an invalid value', () => {
+    const agent = new LlmAgent({
+      name: 'root_agent',
+      stateSchema,
+      subAgents: [new LlmAgent({name: 'sub_agent'})],
+    });
+    const invocationContext =
+        createInvocationContext(agent.subAgents[0] as LlmAgent);
+    const toolContext =
+        new ToolContext({invocationContext, toolName: 'set_age'});
+    const callbackContext = new CallbackContext({invocationContext});
+
+    expect(() => toolContext.state.set('user:age', 1.5))
+        .toThrow(
+            'Invalid value for state key "user:age" written by tool "set_age"');
+    expect(() => callbackContext.state.set('app:theme', 'blue'))
+        .toThrow(
+            'Invalid value for state key "app:theme" written by a callback of agent "sub_agent"');
+  });
+
+  it('does not validate the state without a schema', () => {
+    const toolContext = new ToolContext({
+      invocationContext:
+          createInvocationContext(new LlmAgent({name: 'root_agent'})),
+    });
+
+    toolContext.state.set('user:age', 'unknown');
+
+    expect(toolContext.state.get('user:age')).toBe('unknown');
+  });
+
+  it('validates the state delta of the appended events', async () => {
+    const sessionService = new InMemorySessionService();
+    const session = await sessionService.createSession(
+        {appName: 'test_app', userId: 'test_user'});
+    const runner = new Runner({
+      appName: 'test_app',
+      agent: new LlmAgent({name: 'root_agent', stateSchema}),
+      sessionService,
+    });
+
+    const events = runner.runAsync({
+      userId: 'test_user',
+      sessionId: session.id,
+      newMessage: {role: 'user', parts: [{text: 'hello'}]},
+      stateDelta: {'step': 'first'},
+    });
+
+    await expect(events.next())
+        .rejects.toThrow(
+            'Invalid value for state key "step" written by event author "user"');
+  });
+
+  it('validates the events appended to the session service', async () => {
+    const options = {appStateSchemas: {test_app: stateSchema}};
+    for (const sessionService of [
+           new InMemorySessionService(options),
+           new DatabaseSessionService('sqlite://', options),
+    ]) {
+      const session = await sessionService.createSession(
+          {appName: 'test_app', userId: 'test_user'});
+      const event = createEvent({
+        author: 'agent',
+        actions: {
+          stateDelta: {'user:age': 'unknown'},
+          artifactDelta: {},
+          requestedAuthConfigs: {},
+          requestedToolConfirmations: {},
+        },
+      });
+
+      await expect(sessionService.appendEvent({session, event}))
+          .rejects.toThrow(StateValidationError);
+      expect((await sessionService.getSession({
+               appName: 'test_app',
+               userId: 'test_user',
+               sessionId: session.id,
+             }))!.events)
+          .toEqual([]);
+    }
+  });
+
+  it('types the state accessors with the schema', () => {
+    const state = asTypedState<typeof stateSchema>(new State());
+
+    state.set('user:age', 30);
+    const age: number|undefined = state.get('user:age');
+    // @ts-expect-error The value must match the schema.
+    state.set('app:theme', 'blue');
+
+    expect(age).toBe(30);
+  });
+});
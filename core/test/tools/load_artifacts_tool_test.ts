@@ -0,0 +1,169 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {createSession, InMemoryArtifactService, InvocationContext, LlmAgent, LlmRequest, LOAD_ARTIFACTS, PluginManager, ToolContext} from '@google/adk';
+import {Part} from '@google/genai';
+
+const APP_NAME = 'test_app';
+const USER_ID = 'test_user';
+const SESSION_ID = 'test_session';
+
+function createLlmRequest(): LlmRequest {
+  return {contents: [], liveConnectConfig: {}, toolsDict: {}};
+}
+
+describe('LoadArtifactsTool', () => {
+  let artifactService: InMemoryArtifactService;
+  let toolContext: ToolContext;
+
+  beforeEach(() => {
+    artifactService = new InMemoryArtifactService();
+    toolContext = new ToolContext({
+      invocationContext: new InvocationContext({
+        invocationId: 'invocation_1',
+        session: createSession(
+            {id: SESSION_ID, appName: APP_NAME, userId: USER_ID}),
+        agent: new LlmAgent({name: 'root_agent'}),
+        pluginManager: new PluginManager(),
+        artifactService,
+      }),
+    });
+  });
+
+  async function saveArtifact(filename: string, artifact: Part) {
+    await artifactService.saveArtifact({
+      appName: APP_NAME,
+      userId: USER_ID,
+      sessionId: SESSION_ID,
+      filename,
+      artifact,
+    });
+  }
+
+  it('lists the available artifacts in the instruction', async () => {
+    await saveArtifact('report.txt', {text: 'report'});
+    const llmRequest = createLlmRequest();
+
+    await LOAD_ARTIFACTS.processLlmRequest({toolContext, llmRequest});
+
+    expect(llmRequest.toolsDict['load_artifacts']).toBe(LOAD_ARTIFACTS);
+    expect(llmRequest.config?.tools).toEqual([
+      {functionDeclarations: [LOAD_ARTIFACTS._getDeclaration()]},
+    ]);
+    expect(llmRequest.config?.systemInstruction)
+        .toContain('You have a list of artifacts:\n["report.txt"]');
+  });
+
+  it('does not add an instruction without artifacts', async () => {
+    const llmRequest = createLlmRequest();
+
+    await LOAD_ARTIFACTS.processLlmRequest({toolContext, llmRequest});
+
+    expect(llmRequest.config?.systemInstruction).toBeUndefined();
+  });
+
+  it('returns the requested artifact names', async () => {
+    expect(await LOAD_ARTIFACTS.runAsync({
+      args: {'artifact_names': ['report.txt']},
+      toolContext,
+    })).toEqual(expect.objectContaining({artifact_names: ['report.txt']}));
+  });
+
+  it('skips the artifact names that are not strings', async () => {
+    expect(await LOAD_ARTIFACTS.runAsync({
+      args: {'artifact_names': ['report.txt', 42, null]},
+      toolContext,
+    })).toEqual(expect.objectContaining({artifact_names: ['report.txt']}));
+    expect(await LOAD_ARTIFACTS.runAsync({
+      args: {'artifact_names': 'report.txt'},
+      toolContext,
+    })).toEqual(expect.objectContaining({artifact_names: []}));
+  });
+
+  it('ignores the malformed artifact names of the function response',
+     async () => {
+       await saveArtifact('report.txt', {text: 'report'});
+       const llmRequest = createLlmRequest();
+       llmRequest.contents.push({
+         role: 'user',
+         parts: [
+           {
+             functionResponse: {
+               name: 'load_artifacts',
+               response: {'artifact_names': 'report.txt'},
+             },
+           },
+           {
+             functionResponse: {
+               name: 'load_artifacts',
+               response: {'artifact_names': [{}, 'report.txt']},
+             },
+           },
+         ],
+       });
+
+       await LOAD_ARTIFACTS.processLlmRequest({toolContext, llmRequest});
+
+       expect(llmRequest.contents.slice(1)).toEqual([{
+         role: 'user',
+         parts: [{text: 'Artifact report.txt is:'}, {text: 'report'}],
+       }]);
+     });
+
+  it('adds the requested artifacts to the next request', async () => {
+    const image = {inlineData: {mimeType: 'image/png', data: 'AAEC'}};
+    await saveArtifact('notes.md', {
+      inlineData: {
+        mimeType: 'text/markdown',
+        data: Buffer.from('# Notes').toString('base64'),
+      },
+    });
+    await saveArtifact('image.png', image);
+    await saveArtifact(
+        'archive.zip',
+        {inlineData: {mimeType: 'application/zip', data: 'AAEC'}});
+    const llmRequest = createLlmRequest();
+    llmRequest.contents.push({
+      role: 'user',
+      parts: [{
+        functionResponse: {
+          name: 'load_artifacts',
+          response: {
+            'artifact_names':
+                ['notes.md', 'image.png', 'archive.zip', 'missing.txt'],
+          },
+        },
+      }],
+    });
+
+    await LOAD_ARTIFACTS.processLlmRequest({toolContext, llmRequest});
+
+    expect(llmRequest.contents.slice(1)).toEqual([
+      {
+        role: 'user',
+        parts: [{text: 'Artifact notes.md is:'}, {text: '# Notes'}],
+      },
+      {
+        role: 'user',
+        parts: [{text: 'Artifact image.png is:'}, image],
+      },
+      {
+        role: 'user',
+        parts: [
+          {text: 'Artifact archive.zip is:'},
+          {
+            text:
+                '[Binary artifact archive.zip of type application/zip can not be shown.]',
+          },
+        ],
+      },
+      {
+        role: 'user',
+        parts: [{text: 'Artifact missing.txt was not found.'}],
+      },
+    ]);
+  });
+});
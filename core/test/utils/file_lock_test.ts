@@ -0,0 +1,90 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+import {withFileLock} from '../../src/utils/file_lock.js';
+
+describe('withFileLock', () => {
+  let tempDir: string;
+  let lockPath: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'adk-lock-'));
+    lockPath = path.join(tempDir, '.lock');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, {recursive: true, force: true});
+  });
+
+  async function createLock(owner: string) {
+    await fs.mkdir(lockPath);
+    await fs.writeFile(path.join(lockPath, owner), '');
+  }
+
+  it('runs the functions one at a time', async () => {
+    const steps: string[] = [];
+    const run = (name: string) => withFileLock(lockPath, async () => {
+      steps.push(`${name} start`);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      steps.push(`${name} end`);
+    });
+
+    await Promise.all([run('first'), run('second')]);
+
+    expect(steps).toEqual(
+        ['first start', 'first end', 'second start', 'second end']);
+    await expect(fs.access(lockPath)).rejects.toThrow();
+  });
+
+  it('takes over the lock of a process that is no longer running',
+     async () => {
+       await createLock('999999999-owner');
+
+       expect(await withFileLock(lockPath, async () => 'done')).toBe('done');
+       await expect(fs.access(lockPath)).rejects.toThrow();
+     });
+
+  it('takes over a lock that was not refreshed for a while', async () => {
+    await createLock(`${process.pid}-owner`);
+    const oldTime = new Date(Date.now() - 60000);
+    await fs.utimes(
+        path.join(lockPath, `${process.pid}-owner`), oldTime, oldTime);
+
+    expect(await withFileLock(lockPath, async () => 'done')).toBe('done');
+  });
+
+  it('does not remove a lock taken over by another owner', async () => {
+    await withFileLock(lockPath, async () => {
+      await fs.rm(lockPath, {recursive: true});
+      await createLock(`${process.pid}-other_owner`);
+    });
+
+    expect(await fs.readdir(lockPath)).toEqual([`${process.pid}-other_owner`]);
+  });
+
+  it('lets only one of the waiters take over a stale lock', async () => {
+    await createLock('999999999-owner');
+    const steps: string[] = [];
+    const run = (name: string) => withFileLock(lockPath, async () => {
+      steps.push(`${name} start`);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      steps.push(`${name} end`);
+    });
+
+    await Promise.all([run('first'), run('second'), run('third')]);
+
+    expect(steps).toHaveLength(6);
+    for (let i = 0; i < steps.length; i += 2) {
+      const name = steps[i].split(' ')[0];
+      expect(steps.slice(i, i + 2)).toEqual([`${name} start`, `${name} end`]);
+    }
+    expect(await fs.readdir(tempDir)).toEqual([]);
+  });
+});
@@ -9,7 +9,7 @@ import * as os from 'os';
 import * as path from 'path';
 import dotenv from 'dotenv';
 import {Command, Argument, Option} from 'commander';
-import {LogLevel, setLogLevel, BaseArtifactService, GcsArtifactService} from '@google/adk';
+import {LogLevel, setLogLevel, BaseArtifactService, BaseSessionService, DatabaseSessionService, FileSystemArtifactService, FileSystemSessionService, GcsArtifactService} from '@google/adk';
 import {AdkWebServer} from '../server/adk_web_server.js';
 import {runAgent} from './cli_run.js';
 import {deployToCloudRun} from './cli_deploy.js';
@@ -49,9 +49,27 @@ function getArtifactServiceFromUri(uri: string): BaseArtifactService {
     return new GcsArtifactService(bucket);
   }
 
+  if (uri.startsWith('file://')) {
+    return new FileSystemArtifactService(
+        getAbsolutePath(uri.slice('file://'.length)));
+  }
+
   throw new Error(`Unsupported artifact service URI: ${uri}`);
 }
 
+function getSessionServiceFromUri(uri: string): BaseSessionService {
+  if (uri.startsWith('sqlite://')) {
+    return new DatabaseSessionService(uri);
+  }
+
+  if (uri.startsWith('file://')) {
+    return new FileSystemSessionService(
+        getAbsolutePath(uri.slice('file://'.length)));
+  }
+
+  throw new Error(`Unsupported session service URI: ${uri}`);
+}
+
 const AGENT_DIR_ARGUMENT =
     new Argument(
         '[agents_dir]',
@@ -76,7 +94,11 @@ const LOG_LEVEL_OPTION =
     new Option('--log_level <string>', 'Optional. The log level of the server')
         .default('info');
 const ARTIFACT_SERVICE_URI_OPTION = new Option(
-    '--artifact_service_uri <string>, Optional. The URI of the artifact service, supported URIs: gs://<bucket name> for GCS artifact service.')
+    '--artifact_service_uri <string>',
+    'Optional. The URI of the artifact service, supported URIs: gs://<bucket name> for GCS artifact service, file://<path to dir> for file system artifact service.');
+const SESSION_SERVICE_URI_OPTION = new Option(
+    '--session_service_uri <string>',
+    'Optional. The URI of the session service, supported URIs: sqlite:///<path to db file> for SQLite session service, file://<path to dir> for file system session service.');
 
 const program = new Command('ADK CLI');
 
@@ -89,6 +111,7 @@ program.command('web')
     .addOption(VERBOSE_OPTION)
     .addOption(LOG_LEVEL_OPTION)
     .addOption(ARTIFACT_SERVICE_URI_OPTION)
+    .addOption(SESSION_SERVICE_URI_OPTION)
     .action((agentsDir: string, options: Record<string, string>) => {
       setLogLevel(getLogLevelFromOptions(options));
 
@@ -101,6 +124,9 @@ program.command('web')
         artifactService: options['artifact_service_uri'] ?
             getArtifactServiceFromUri(options['artifact_service_uri']) :
             undefined,
+        sessionService: options['session_service_uri'] ?
+            getSessionServiceFromUri(options['session_service_uri']) :
+            undefined,
       });
 
       server.start();
@@ -115,6 +141,7 @@ program.command('api_server')
     .addOption(VERBOSE_OPTION)
     .addOption(LOG_LEVEL_OPTION)
     .addOption(ARTIFACT_SERVICE_URI_OPTION)
+    .addOption(SESSION_SERVICE_URI_OPTION)
     .action((agentsDir: string, options: Record<string, string>) => {
       setLogLevel(getLogLevelFromOptions(options));
 
@@ -127,6 +154,9 @@ program.command('api_server')
         artifactService: options['artifact_service_uri'] ?
             getArtifactServiceFromUri(options['artifact_service_uri']) :
             undefined,
+        sessionService: options['session_service_uri'] ?
+            getSessionServiceFromUri(options['session_service_uri']) :
+            undefined,
       });
     server.start();
   });
@@ -179,6 +209,7 @@ program.command('run')
     .addOption(VERBOSE_OPTION)
     .addOption(LOG_LEVEL_OPTION)
     .addOption(ARTIFACT_SERVICE_URI_OPTION)
+    .addOption(SESSION_SERVICE_URI_OPTION)
     .action((agentPath: string, options: Record<string, string>) => {
       setLogLevel(getLogLevelFromOptions(options));
 
@@ -191,6 +222,9 @@ program.command('run')
         artifactService: options['artifact_service_uri'] ?
             getArtifactServiceFromUri(options['artifact_service_uri']) :
             undefined,
+        sessionService: options['session_service_uri'] ?
+            getSessionServiceFromUri(options['session_service_uri']) :
+            undefined,
       });
     });
 
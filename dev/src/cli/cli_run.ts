@@ -4,7 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import {BaseAgent, BaseArtifactService, BaseMemoryService, BaseSessionService, InMemoryArtifactService, InMemoryMemoryService, InMemorySessionService, Runner, Session} from '@google/adk';
+import {BaseAgent, BaseArtifactService, BaseMemoryService, BaseSessionService, ExportedSession, exportSession, importSession, InMemoryArtifactService, InMemoryMemoryService, InMemorySessionService, Runner, Session} from '@google/adk';
 import * as path from 'node:path';
 import * as readline from 'node:readline';
 
@@ -168,11 +168,28 @@ export async function runAgent(options: RunAgentOptions): Promise<void> {
                 }) ||
           session;
     } else if (options.savedSessionFile) {
-      const loadedSession =
-          await loadFileData<Session>(options.savedSessionFile);
-      if (loadedSession) {
+      const loadedSession = await loadFileData<Session|ExportedSession>(
+          options.savedSessionFile);
+      if (loadedSession && 'version' in loadedSession) {
+        // Replaces the new empty session with the imported one.
+        await sessionService.deleteSession(
+            {appName: rootAgent.name, userId, sessionId: session.id});
+        session = await importSession({
+          exportedSession: loadedSession,
+          sessionService,
+          artifactService,
+          appName: rootAgent.name,
+          userId,
+          sessionId: session.id,
+        });
+      } else if (loadedSession) {
+        // Sessions saved before the portable format are replayed as is.
         for (const event of loadedSession.events) {
           await sessionService.appendEvent({session, event});
+        }
+      }
+      if (loadedSession) {
+        for (const event of session.events) {
           const content = event.content;
           if (content && content.parts?.length) {
             const text = content.parts.map((part) => part.text || '').join('');
@@ -211,7 +228,11 @@ export async function runAgent(options: RunAgentOptions): Promise<void> {
         userId: session.userId,
         sessionId: session.id,
       });
-      await saveToFile(path.join(dirname, sessionPath), sessionToStore);
+      if (sessionToStore) {
+        await saveToFile(
+            path.join(dirname, sessionPath),
+            await exportSession({session: sessionToStore, artifactService}));
+      }
 
       console.log('Session saved to', sessionPath);
     }
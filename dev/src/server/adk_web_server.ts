@@ -4,9 +4,10 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import {BaseAgent, BaseArtifactService, BaseMemoryService, BaseSessionService, Event, getFunctionCalls, getFunctionResponses, InMemoryArtifactService, InMemoryMemoryService, InMemorySessionService, Runner, StreamingMode} from '@google/adk';
+import {BaseAgent, BaseArtifactService, BaseMemoryService, BaseSessionService, Event, ExportedSession, exportSession, getFunctionCalls, getFunctionResponses, importSession, InMemoryArtifactService, InMemoryMemoryService, InMemorySessionService, InvalidPageTokenError, Runner, StreamingMode, validateExportedSession} from '@google/adk';
 import cors from 'cors';
 import express, {Request, Response} from 'express';
+import {once} from 'events';
 import * as http from 'http';
 import * as path from 'path';
 
@@ -202,14 +203,56 @@ export class AdkWebServer {
           try {
             const appName = req.params['appName'];
             const userId = req.params['userId'];
+            const {
+              pageSize,
+              pageToken,
+              orderBy,
+              descending,
+              stateFilter,
+              includeStateAndEvents,
+            } = req.query as Record<string, string|undefined>;
+
+            if (orderBy !== undefined && orderBy !== 'lastUpdateTime') {
+              res.status(400).json({error: `Unsupported orderBy: ${orderBy}`});
+              return;
+            }
+
+            const parsedPageSize =
+                pageSize !== undefined ? Number(pageSize) : undefined;
+            if (parsedPageSize !== undefined &&
+                (!Number.isInteger(parsedPageSize) || parsedPageSize <= 0)) {
+              res.status(400).json(
+                  {error: `pageSize must be a positive integer: ${pageSize}`});
+              return;
+            }
+
+            let parsedStateFilter: Record<string, unknown>|undefined;
+            try {
+              parsedStateFilter =
+                  stateFilter ? JSON.parse(stateFilter) : undefined;
+            } catch {
+              res.status(400).json(
+                  {error: `stateFilter must be a JSON object: ${stateFilter}`});
+              return;
+            }
 
             const sessions = await this.sessionService.listSessions({
               appName,
               userId,
+              pageSize: parsedPageSize,
+              pageToken,
+              orderBy,
+              descending: descending === 'true',
+              stateFilter: parsedStateFilter,
+              includeStateAndEvents: includeStateAndEvents === 'true',
             });
 
             res.json(sessions);
           } catch (e: unknown) {
+            if (e instanceof InvalidPageTokenError) {
+              res.status(400).json({error: e.message});
+              return;
+            }
             res.status(500).json({error: (e as Error).message});
           }
         });
@@ -296,6 +339,175 @@ export class AdkWebServer {
           }
         });
 
+    app.post(
+        '/apps/:appName/users/:userId/sessions/:sessionId/rewind',
+        async (req: Request, res: Response) => {
+          try {
+            const appName = req.params['appName'];
+            const userId = req.params['userId'];
+            const sessionId = req.params['sessionId'];
+            const {eventId} = req.body;
+
+            if (!eventId) {
+              res.status(400).json({error: 'eventId is required'});
+              return;
+            }
+
+            const session = await this.sessionService.getSession({
+              appName,
+              userId,
+              sessionId,
+            });
+
+            if (!session) {
+              res.status(404).json({error: `Session not found: ${sessionId}`});
+              return;
+            }
+
+            if (!session.events.some(event => event.id === eventId)) {
+              res.status(404).json({error: `Event not found: ${eventId}`});
+              return;
+            }
+
+            const rewoundSession = await this.sessionService.rewindSession({
+              appName,
+              userId,
+              sessionId,
+              eventId,
+              artifactService: this.artifactService,
+            });
+
+            res.json(rewoundSession);
+          } catch (e: unknown) {
+            res.status(500).json({error: (e as Error).message});
+          }
+        });
+
+    app.post(
+        '/apps/:appName/users/:userId/sessions/:sessionId/fork',
+        async (req: Request, res: Response) => {
+          try {
+            const appName = req.params['appName'];
+            const userId = req.params['userId'];
+            const sessionId = req.params['sessionId'];
+            const {eventId, newSessionId} = req.body;
+
+            const session = await this.sessionService.getSession({
+              appName,
+              userId,
+              sessionId,
+            });
+
+            if (!session) {
+              res.status(404).json({error: `Session not found: ${sessionId}`});
+              return;
+            }
+
+            if (eventId &&
+                !session.events.some(event => event.id === eventId)) {
+              res.status(404).json({error: `Event not found: ${eventId}`});
+              return;
+            }
+
+            if (newSessionId &&
+                await this.sessionService.getSession(
+                    {appName, userId, sessionId: newSessionId})) {
+              res.status(400).json(
+                  {error: `Session already exists: ${newSessionId}`});
+              return;
+            }
+
+            const forkedSession = await this.sessionService.forkSession({
+              appName,
+              userId,
+              sessionId,
+              eventId,
+              newSessionId,
+              artifactService: this.artifactService,
+            });
+
+            res.json(forkedSession);
+          } catch (e: unknown) {
+            res.status(500).json({error: (e as Error).message});
+          }
+        });
+
+    app.get(
+        '/apps/:appName/users/:userId/sessions/:sessionId/export',
+        async (req: Request, res: Response) => {
+          try {
+            const appName = req.params['appName'];
+            const userId = req.params['userId'];
+            const sessionId = req.params['sessionId'];
+
+            const session = await this.sessionService.getSession({
+              appName,
+              userId,
+              sessionId,
+            });
+
+            if (!session) {
+              res.status(404).json({error: `Session not found: ${sessionId}`});
+              return;
+            }
+
+            const exportedSession = await exportSession({
+              session,
+              artifactService: this.artifactService,
+            });
+
+            res.setHeader(
+                'Content-Disposition',
+                `attachment; filename="${sessionId}.session.json"`);
+            res.json(exportedSession);
+          } catch (e: unknown) {
+            res.status(500).json({error: (e as Error).message});
+          }
+        });
+
+    app.post(
+        '/apps/:appName/users/:userId/sessions/:sessionId/import',
+        async (req: Request, res: Response) => {
+          try {
+            const appName = req.params['appName'];
+            const userId = req.params['userId'];
+            const sessionId = req.params['sessionId'];
+            const exportedSession = req.body as ExportedSession;
+
+            const existingSession = await this.sessionService.getSession({
+              appName,
+              userId,
+              sessionId,
+            });
+
+            if (existingSession) {
+              res.status(400).json(
+                  {error: `Session already exists: ${sessionId}`});
+              return;
+            }
+
+            try {
+              validateExportedSession(exportedSession);
+            } catch (e: unknown) {
+              res.status(400).json({error: (e as Error).message});
+              return;
+            }
+
+            const importedSession = await importSession({
+              exportedSession,
+              sessionService: this.sessionService,
+              artifactService: this.artifactService,
+              appName,
+              userId,
+              sessionId,
+            });
+
+            res.json(importedSession);
+          } catch (e: unknown) {
+            res.status(500).json({error: (e as Error).message});
+          }
+        });
+
     // ----------------------- Artifact related endpoints ----------------------
     app.get(
         '/apps/:appName/users/:userId/sessions/:sessionId/artifacts/:artifactName',
@@ -325,6 +537,83 @@ export class AdkWebServer {
           }
         });
 
+    app.get(
+        '/apps/:appName/users/:userId/sessions/:sessionId/artifacts/:artifactName/versions/metadata',
+        async (req: Request, res: Response) => {
+          try {
+            const appName = req.params['appName'];
+            const userId = req.params['userId'];
+            const sessionId = req.params['sessionId'];
+            const artifactName = req.params['artifactName'];
+
+            const artifactVersions =
+                await this.artifactService.listArtifactVersions({
+                  appName,
+                  userId,
+                  sessionId,
+                  filename: artifactName,
+                });
+
+            res.json(artifactVersions);
+          } catch (e: unknown) {
+            res.status(500).json({error: (e as Error).message});
+          }
+        });
+
+    app.get(
+        '/apps/:appName/users/:userId/sessions/:sessionId/artifacts/:artifactName/versions/:versionId/metadata',
+        async (req: Request, res: Response) => {
+          try {
+            const appName = req.params['appName'];
+            const userId = req.params['userId'];
+            const sessionId = req.params['sessionId'];
+            const artifactName = req.params['artifactName'];
+            const versionId = req.params['versionId'];
+
+            const artifactVersion =
+                await this.artifactService.getArtifactVersion({
+                  appName,
+                  userId,
+                  sessionId,
+                  filename: artifactName,
+                  version: parseInt(versionId, 10),
+                });
+
+            if (!artifactVersion) {
+              res.status(404).json({
+                error:
+                    `Artifact version not found: ${artifactName}@${versionId}`,
+              });
+              return;
+            }
+
+            res.json(artifactVersion);
+          } catch (e: unknown) {
+            res.status(500).json({error: (e as Error).message});
+          }
+        });
+
+    app.get(
+        '/apps/:appName/users/:userId/sessions/:sessionId/artifacts/:artifactName/content',
+        async (req: Request, res: Response) => {
+          try {
+            await this.sendArtifactContent(req, res);
+          } catch (e: unknown) {
+            sendArtifactContentError(res, e);
+          }
+        });
+
+    app.get(
+        '/apps/:appName/users/:userId/sessions/:sessionId/artifacts/:artifactName/versions/:versionId/content',
+        async (req: Request, res: Response) => {
+          try {
+            await this.sendArtifactContent(
+                req, res, parseInt(req.params['versionId'], 10));
+          } catch (e: unknown) {
+            sendArtifactContentError(res, e);
+          }
+        });
+
     app.get(
         '/apps/:appName/users/:userId/sessions/:sessionId/artifacts/:artifactName/versions/:versionId',
         async (req: Request, res: Response) => {
@@ -614,4 +903,104 @@ export class AdkWebServer {
 
     return this.runnerCache[appName];
   }
+
+  /**
+   * Streams the bytes of a version of an artifact, or of the single byte range
+   * requested by the `Range` header.
+   *
+   * @param req The request, with the artifact in its path parameters.
+   * @param res The response to stream the bytes to.
+   * @param version The version to stream. Defaults to the latest version.
+   */
+  private async sendArtifactContent(
+      req: Request, res: Response, version?: number): Promise<void> {
+    const artifactKey = {
+      appName: req.params['appName'],
+      userId: req.params['userId'],
+      sessionId: req.params['sessionId'],
+      filename: req.params['artifactName'],
+    };
+    const artifactVersion = await this.artifactService.getArtifactVersion(
+        {...artifactKey, version});
+    if (!artifactVersion) {
+      res.status(404).json(
+          {error: `Artifact not found: ${artifactKey.filename}`});
+      return;
+    }
+
+    const size = artifactVersion.sizeBytes;
+    const ranges = req.headers['range'] ? req.range(size) : undefined;
+    if (ranges === -1) {
+      res.setHeader('Content-Range', `bytes */${size}`);
+      res.status(416).json(
+          {error: `Range not satisfiable: ${req.headers['range']}`});
+      return;
+    }
+    // The malformed and the multiple ranges are ignored, and the whole content
+    // is sent.
+    const range =
+        Array.isArray(ranges) && ranges.length === 1 ? ranges[0] : undefined;
+
+    const artifactStream = await this.artifactService.loadArtifactStream({
+      ...artifactKey,
+      version: artifactVersion.version,
+      start: range?.start,
+      end: range && range.end + 1,
+    });
+    if (!artifactStream) {
+      res.status(404).json(
+          {error: `Artifact not found: ${artifactKey.filename}`});
+      return;
+    }
+
+    res.setHeader('Content-Type', artifactVersion.mimeType);
+    res.setHeader('Accept-Ranges', 'bytes');
+    if (range) {
+      res.status(206);
+      res.setHeader(
+          'Content-Range', `bytes ${range.start}-${range.end}/${size}`);
+    }
+    res.setHeader(
+        'Content-Length', range ? range.end - range.start + 1 : size);
+
+    const reader = artifactStream.content.getReader();
+    let closed = false;
+    res.on('close', () => {
+      closed = true;
+      reader.cancel().catch(() => {});
+    });
+    while (!closed) {
+      const {done, value} = await reader.read();
+      if (done) {
+        break;
+      }
+      if (!res.write(value)) {
+        // The response is not drained if the client disconnects.
+        const abortController = new AbortController();
+        const {signal} = abortController;
+        await Promise
+            .race([once(res, 'drain', {signal}), once(res, 'close', {signal})])
+            .finally(() => abortController.abort());
+      }
+    }
+    if (!closed) {
+      res.end();
+    }
+  }
+}
+
+/**
+ * Reports an error while sending the content of an artifact. Once the content
+ * is partially sent, the response is aborted, so that the client does not take
+ * the truncated content as complete.
+ */
+function sendArtifactContentError(res: Response, e: unknown): void {
+  if (res.headersSent) {
+    // The error is not passed to destroy, as nothing listens to the errors of
+    // the response.
+    console.error('Failed to send the artifact content:', e);
+    res.destroy();
+    return;
+  }
+  res.status(500).json({error: (e as Error).message});
 }
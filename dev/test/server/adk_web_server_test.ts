@@ -1,6 +1,8 @@
-import {BaseAgent, BaseArtifactService, BaseMemoryService, BaseSessionService, createEvent, Event, InMemoryArtifactService, InMemoryMemoryService, InMemorySessionService, InvocationContext} from '@google/adk';
+import {BaseAgent, BaseArtifactService, BaseMemoryService, BaseSessionService, createEvent, Event, InMemoryArtifactService, InMemoryMemoryService, InMemorySessionService, InvocationContext, Session, SESSION_EXPORT_VERSION} from '@google/adk';
 import type {Application, Request, Response} from 'express';
-import {beforeEach, describe, expect, it} from 'vitest';
+import * as http from 'http';
+import type {AddressInfo} from 'net';
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
 
 import {AdkWebServer} from '../../src/server/adk_web_server';
 import {AgentLoader} from '../../src/utils/agent_loader';
@@ -13,8 +15,8 @@ import {AgentLoader} from '../../src/utils/agent_loader';
 class MockHttpClient {
   constructor(private readonly app: Application) {}
 
-  get(url: string) {
-    return this.sendMockRequest(url, {method: 'GET'});
+  get(url: string, headers?: Record<string, string>) {
+    return this.sendMockRequest(url, {method: 'GET', headers});
   }
 
   post(url: string, body: unknown) {
@@ -31,13 +33,18 @@ class MockHttpClient {
 
   private sendMockRequest(
       url: string,
-      {method, body}: {method: string; body?: unknown},
-      ): Promise<{status: number; data?: any, text?: string}> {
+      {method, body, headers = {}}:
+          {method: string; body?: unknown, headers?: Record<string, string>},
+      ): Promise<{
+        status: number; data?: any, text?: string,
+        headers: Record<string, string>
+      }> {
     return new Promise((resolve, reject) => {
       let statusCode: number = 200;
       let streamText: string = '';
+      const responseHeaders: Record<string, string> = {};
 
-      const mockRequest = {method, url, body} as unknown as Request;
+      const mockRequest = {method, url, body, headers} as unknown as Request;
       const mockResponse = {
         status: (code: number) => {
           statusCode = code;
@@ -49,14 +56,20 @@ class MockHttpClient {
         json: (data: unknown) => {
           sendRespose(statusCode, data);
         },
-        write: (streamChunk: string) => {
-          streamText += streamChunk;
+        write: (streamChunk: string|Uint8Array) => {
+          streamText += typeof streamChunk === 'string' ?
+              streamChunk :
+              Buffer.from(streamChunk).toString();
+          return true;
         },
         end: () => {
           sendRespose(statusCode, undefined, streamText);
         },
-        setHeader: (name: string, value: string) => {},
+        setHeader: (name: string, value: string|number) => {
+          responseHeaders[name.toLowerCase()] = String(value);
+        },
         flushHeaders: () => {},
+        on: () => mockResponse,
       } as unknown as Response;
 
       const sendRespose = (
@@ -77,6 +90,7 @@ class MockHttpClient {
           status: statusCode,
           data: jsonData,
           text,
+          headers: responseHeaders,
         });
       };
 
@@ -193,6 +207,53 @@ describe('AdkWebServer', () => {
       expect(response.data.sessions).toEqual([]);
     });
 
+    it('should return a filtered page of sessions', async () => {
+      for (const [sessionId, color] of [
+               ['session1', 'red'], ['session2', 'blue'], ['session3', 'red'],
+               ['session4', 'red']]) {
+        await sessionService.createSession({
+          appName: 'testApp',
+          userId: 'testUser',
+          sessionId,
+          state: {color},
+        });
+      }
+      const query = `pageSize=2&stateFilter=${
+          encodeURIComponent(JSON.stringify({color: 'red'}))}`;
+
+      const firstPage = await client.get(
+          `/apps/testApp/users/testUser/sessions?${query}`,
+      );
+      const secondPage = await client.get(
+          `/apps/testApp/users/testUser/sessions?${query}&pageToken=${
+              encodeURIComponent(firstPage.data.nextPageToken)}`,
+      );
+
+      expect(firstPage.data.sessions.map((s: Session) => s.id)).toEqual([
+        'session1',
+        'session3',
+      ]);
+      expect(secondPage.data.sessions.map((s: Session) => s.id)).toEqual([
+        'session4',
+      ]);
+      expect(secondPage.data.nextPageToken).toBeUndefined();
+    });
+
+    it('should return 400 for an invalid page size or token', async () => {
+      for (const query of ['pageSize=abc', 'pageSize=0', 'pageToken=abc']) {
+        await expect(
+            client.get(`/apps/testApp/users/testUser/sessions?${query}`))
+            .rejects.toMatchObject({response: {status: 400}});
+      }
+    });
+
+    it('should return 400 for an invalid state filter', async () => {
+      await expect(client.get(
+                       '/apps/testApp/users/testUser/sessions?stateFilter=red',
+                       ))
+          .rejects.toMatchObject({response: {status: 400}});
+    });
+
     it('should create a session with a random id', async () => {
       const response = await client.post(
           '/apps/testApp/users/testUser/sessions',
@@ -279,6 +340,142 @@ describe('AdkWebServer', () => {
     });
   });
 
+  describe('Session rewind and fork', () => {
+    beforeEach(async () => {
+      const session = await sessionService.createSession({
+        appName: 'testApp',
+        userId: 'testUser',
+        sessionId: 'sessionId',
+      });
+      for (const id of ['event1', 'event2']) {
+        await sessionService.appendEvent(
+            {session, event: createEvent({id, author: 'testAgent'})});
+      }
+    });
+
+    it('should rewind a session to before an event', async () => {
+      const response = await client.post(
+          '/apps/testApp/users/testUser/sessions/sessionId/rewind',
+          {eventId: 'event2'},
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.data.events.map((e: Event) => e.id)).toEqual([
+        'event1',
+      ]);
+    });
+
+    it('should return 400 if the event id is missing', async () => {
+      await expect(client.post(
+                       '/apps/testApp/users/testUser/sessions/sessionId/rewind',
+                       {},
+                       ))
+          .rejects.toMatchObject({response: {status: 400}});
+    });
+
+    it('should return 404 if the event is not in the session', async () => {
+      await expect(client.post(
+                       '/apps/testApp/users/testUser/sessions/sessionId/rewind',
+                       {eventId: 'missingEventId'},
+                       ))
+          .rejects.toMatchObject({response: {status: 404}});
+      await expect(client.post(
+                       '/apps/testApp/users/testUser/sessions/sessionId/fork',
+                       {eventId: 'missingEventId'},
+                       ))
+          .rejects.toMatchObject({response: {status: 404}});
+    });
+
+    it('should return 400 if the new session already exists', async () => {
+      await expect(client.post(
+                       '/apps/testApp/users/testUser/sessions/sessionId/fork',
+                       {newSessionId: 'sessionId'},
+                       ))
+          .rejects.toMatchObject({response: {status: 400}});
+    });
+
+    it('should fork a session', async () => {
+      const response = await client.post(
+          '/apps/testApp/users/testUser/sessions/sessionId/fork',
+          {eventId: 'event1', newSessionId: 'forkedSessionId'},
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.data.id).toEqual('forkedSessionId');
+      expect(response.data.events.map((e: Event) => e.id)).toEqual([
+        'event1',
+      ]);
+    });
+
+    it('should return 404 when forking a missing session', async () => {
+      await expect(
+          client.post(
+              '/apps/testApp/users/testUser/sessions/missingSessionId/fork',
+              {},
+              ))
+          .rejects.toMatchObject({response: {status: 404}});
+    });
+  });
+
+  describe('Session export and import', () => {
+    it('should export and import a session', async () => {
+      const session = await sessionService.createSession({
+        appName: 'testApp',
+        userId: 'testUser',
+        sessionId: 'sessionId',
+        state: {key: 'value'},
+      });
+      await sessionService.appendEvent(
+          {session, event: createEvent({id: 'event1', author: 'testAgent'})});
+
+      const exportResponse = await client.get(
+          '/apps/testApp/users/testUser/sessions/sessionId/export',
+      );
+
+      expect(exportResponse.status).toBe(200);
+      expect(exportResponse.data.version).toBe(SESSION_EXPORT_VERSION);
+
+      const importResponse = await client.post(
+          '/apps/testApp/users/otherUser/sessions/importedSessionId/import',
+          exportResponse.data,
+      );
+
+      expect(importResponse.status).toBe(200);
+      expect(importResponse.data.id).toBe('importedSessionId');
+      expect(importResponse.data.userId).toBe('otherUser');
+      expect(importResponse.data.state).toEqual({key: 'value'});
+      expect(importResponse.data.events.map((e: Event) => e.id)).toEqual([
+        'event1',
+      ]);
+    });
+
+    it('should return 404 when exporting a missing session', async () => {
+      await expect(
+          client.get(
+              '/apps/testApp/users/testUser/sessions/missingSessionId/export',
+              ))
+          .rejects.toMatchObject({response: {status: 404}});
+    });
+
+    it('should return 400 for an unsupported export version', async () => {
+      await expect(
+          client.post(
+              '/apps/testApp/users/testUser/sessions/sessionId/import',
+              {version: 0, events: []},
+              ))
+          .rejects.toMatchObject({response: {status: 400}});
+    });
+
+    it('should return 400 for a malformed exported session', async () => {
+      await expect(
+          client.post(
+              '/apps/testApp/users/testUser/sessions/sessionId/import',
+              {version: SESSION_EXPORT_VERSION, id: 'sessionId'},
+              ))
+          .rejects.toMatchObject({response: {status: 400}});
+    });
+  });
+
   describe('Artifacts', () => {
     it('should return an empty list of artifacts', async () => {
       await sessionService.createSession({
@@ -394,6 +591,191 @@ describe('AdkWebServer', () => {
       expect(response.data.length).toEqual(2);
     });
 
+    it('should return the metadata of artifact versions', async () => {
+      await sessionService.createSession({
+        appName: 'testApp',
+        userId: 'testUser',
+        sessionId: 'sessionId',
+      });
+      await artifactService.saveArtifact({
+        appName: 'testApp',
+        userId: 'testUser',
+        sessionId: 'sessionId',
+        filename: 'artifact.txt',
+        artifact: {
+          text: 'content',
+        },
+        customMetadata: {author: 'testUser'},
+      });
+
+      const listResponse = await client.get(
+          '/apps/testApp/users/testUser/sessions/sessionId/artifacts/artifact.txt/versions/metadata',
+      );
+      const versionResponse = await client.get(
+          '/apps/testApp/users/testUser/sessions/sessionId/artifacts/artifact.txt/versions/0/metadata',
+      );
+
+      expect(listResponse.status).toBe(200);
+      expect(listResponse.data).toEqual([versionResponse.data]);
+      expect(versionResponse.data).toEqual(expect.objectContaining({
+        version: 0,
+        mimeType: 'text/plain',
+        sizeBytes: 7,
+        customMetadata: {author: 'testUser'},
+      }));
+      await expect(
+          client.get(
+              '/apps/testApp/users/testUser/sessions/sessionId/artifacts/artifact.txt/versions/1/metadata',
+              ))
+          .rejects.toMatchObject({response: {status: 404}});
+    });
+
+    it('should stream the content of an artifact', async () => {
+      await artifactService.saveArtifact({
+        appName: 'testApp',
+        userId: 'testUser',
+        sessionId: 'sessionId',
+        filename: 'artifact.txt',
+        artifact: {
+          inlineData: {
+            mimeType: 'text/plain',
+            data: Buffer.from('hello world').toString('base64'),
+          },
+        },
+      });
+
+      const response = await client.get(
+          '/apps/testApp/users/testUser/sessions/sessionId/artifacts/artifact.txt/content',
+      );
+      const rangeResponse = await client.get(
+          '/apps/testApp/users/testUser/sessions/sessionId/artifacts/artifact.txt/versions/0/content',
+          {range: 'bytes=6-'},
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.text).toBe('hello world');
+      expect(response.headers).toEqual(expect.objectContaining({
+        'content-type': 'text/plain',
+        'content-length': '11',
+        'accept-ranges': 'bytes',
+      }));
+      expect(rangeResponse.status).toBe(206);
+      expect(rangeResponse.text).toBe('world');
+      expect(rangeResponse.headers).toEqual(expect.objectContaining({
+        'content-range': 'bytes 6-10/11',
+        'content-length': '5',
+      }));
+      await expect(
+          client.get(
+              '/apps/testApp/users/testUser/sessions/sessionId/artifacts/artifact.txt/content',
+              {range: 'bytes=20-'},
+              ))
+          .rejects.toMatchObject({response: {status: 416}});
+    });
+
+    describe('over HTTP', () => {
+      // Larger than the streamed content, so that no response is complete.
+      const ARTIFACT_VERSION = {
+        version: 0,
+        createTime: 0,
+        mimeType: 'application/octet-stream',
+        sizeBytes: 1e9,
+        canonicalUri: 'memory://artifact.bin',
+      };
+      let httpServer: http.Server;
+      let contentUrl: string;
+
+      beforeEach(async () => {
+        httpServer = http.createServer(server.app);
+        await new Promise<void>(resolve => httpServer.listen(0, resolve));
+        const {port} = httpServer.address() as AddressInfo;
+        contentUrl = `http://localhost:${
+            port}/apps/testApp/users/testUser/sessions/sessionId/artifacts/artifact.bin/content`;
+        vi.spyOn(artifactService, 'getArtifactVersion')
+            .mockResolvedValue(ARTIFACT_VERSION);
+      });
+
+      afterEach(async () => {
+        vi.restoreAllMocks();
+        httpServer.closeAllConnections();
+        await new Promise(resolve => httpServer.close(resolve));
+      });
+
+      function mockArtifactContent(
+          source: UnderlyingDefaultSource<Uint8Array>) {
+        vi.spyOn(artifactService, 'loadArtifactStream')
+            .mockImplementation(async () => ({
+                                  artifactVersion: ARTIFACT_VERSION,
+                                  content: new ReadableStream(source),
+                                }));
+      }
+
+      it('should stop streaming when the client disconnects', async () => {
+        let cancelled = false;
+        mockArtifactContent({
+          pull(controller) {
+            controller.enqueue(new Uint8Array(1 << 16));
+          },
+          cancel() {
+            cancelled = true;
+          },
+        });
+        let finished = false;
+        const sendSpy = vi.spyOn(
+            server as unknown as {sendArtifactContent: () => Promise<void>},
+            'sendArtifactContent');
+
+        await new Promise<void>(resolve => {
+          const request = http.get(contentUrl, response => {
+            response.once('data', () => {
+              request.destroy();
+              resolve();
+            });
+          });
+          request.on('error', () => {});
+        });
+        void sendSpy.mock.results[0].value.then(() => {
+          finished = true;
+        });
+
+        await vi.waitFor(() => {
+          expect(cancelled).toBe(true);
+          expect(finished).toBe(true);
+        });
+      });
+
+      it('should abort the response when the content fails', async () => {
+        const consoleErrorSpy =
+            vi.spyOn(console, 'error').mockImplementation(() => {});
+        let pulls = 0;
+        mockArtifactContent({
+          pull(controller) {
+            if (pulls++) {
+              controller.error(new Error('Storage failure'));
+            } else {
+              controller.enqueue(new Uint8Array(16));
+            }
+          },
+        });
+
+        // The request fails, or its response is incomplete, rather than
+        // ending with an error status after the first bytes.
+        const complete = await new Promise<boolean>(resolve => {
+          http.get(contentUrl, response => {
+                response.on('close', () => resolve(response.complete))
+                    .on('error', () => {})
+                    .resume();
+              }).on('error', () => resolve(false));
+        });
+
+        expect(complete).toBe(false);
+        expect(consoleErrorSpy)
+            .toHaveBeenCalledWith(
+                'Failed to send the artifact content:',
+                new Error('Storage failure'));
+      });
+    });
+
     it('should delete an artifact', async () => {
       await sessionService.createSession({
         appName: 'testApp',